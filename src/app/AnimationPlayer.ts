@@ -0,0 +1,89 @@
+/**
+ * アニメーションの再生
+ * AnimationSequenceのどのフレームを表示するかを時刻から決める（描画は行わない）
+ */
+
+import { AnimationSequence } from '../core/AnimationSequence';
+import { AnimationFrame } from '../core/types';
+import { CommandResult } from './EditorCommands';
+
+/**
+ * アニメーション再生クラス
+ */
+export class AnimationPlayer {
+  private sequence: AnimationSequence;
+
+  private _playing: boolean = false;
+
+  /** 再生開始時刻（performance.now()） */
+  private startTime: number = 0;
+
+  /** 表示中のフレーム番号（停止中は止めたフレームを表示） */
+  private _frameIndex: number = 0;
+
+  constructor(sequence: AnimationSequence) {
+    this.sequence = sequence;
+  }
+
+  // === Getters ===
+  get playing(): boolean { return this._playing; }
+  get frameIndex(): number { return this._frameIndex; }
+
+  /**
+   * 表示中のフレーム（フレームがなければnull）
+   */
+  getCurrentFrame(): AnimationFrame | null {
+    return this.sequence.frames[this._frameIndex] ?? null;
+  }
+
+  /**
+   * 再生/停止を切り替え
+   * @param now 現在時刻（performance.now()）
+   */
+  toggle(now: number): CommandResult {
+    if (this._playing) {
+      this._playing = false;
+      return { success: true, message: 'Animation stopped' };
+    }
+    if (this.sequence.length === 0) {
+      return { success: false, message: 'No animation frames' };
+    }
+    this._playing = true;
+    this._frameIndex = 0;
+    this.startTime = now;
+    return { success: true, message: 'Animation playing' };
+  }
+
+  /**
+   * フレームが変更された時に表示位置を範囲内に収める
+   */
+  refresh(): void {
+    if (this.sequence.length === 0) {
+      this._playing = false;
+      this._frameIndex = 0;
+    } else if (this._frameIndex >= this.sequence.length) {
+      this._frameIndex = this.sequence.length - 1;
+    }
+  }
+
+  /**
+   * 時刻を進める（描画ループから毎フレーム呼ぶ）
+   * ループしない場合は最後のフレームで停止する
+   * @param now 現在時刻（performance.now()）
+   * @returns 表示するフレームか再生状態が変わった場合はtrue
+   */
+  update(now: number): boolean {
+    if (!this._playing) return false;
+
+    const elapsed = now - this.startTime;
+    const index = this.sequence.getFrameIndexAt(elapsed);
+    const finished = this.sequence.isFinishedAt(elapsed);
+    const changed = index !== this._frameIndex || finished;
+
+    this._frameIndex = Math.max(0, index);
+    if (finished) {
+      this._playing = false;
+    }
+    return changed;
+  }
+}
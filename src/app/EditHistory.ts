@@ -0,0 +1,198 @@
+/**
+ * 編集履歴（UNDO/REDO）管理
+ * PCGデータと編集バッファのスナップショットを積み上げて復元する
+ *
+ * - begin()〜commit() の間の変更を1ステップとして記録
+ * - begin()はネスト可能（マウスのドラッグやファイル読み込みを1ステップにまとめる）
+ * - 変化のなかった側のデータは保持しない（メモリ・保存容量の節約）
+ */
+
+import { PCGData } from '../core/PCGData';
+import { HISTORY_LIMIT } from '../core/constants';
+import { PCG_TOTAL_BYTES } from '../core/types';
+
+/** 履歴1ステップ分のデータ（変化のなかった側はnull） */
+export interface HistoryEntry {
+  pcgData: Uint8Array | null;
+  editBuffer: Uint8Array | null;
+}
+
+/** 保存用の履歴データ（LocalStorageServiceと互換） */
+export interface EditHistorySaveData {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+/** 2つのバイト列が同一か */
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * 編集履歴クラス
+ */
+export class EditHistory {
+  private pcgData: PCGData;
+  private editBuffer: PCGData;
+
+  /** 保持する最大ステップ数 */
+  private limit: number;
+
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  /** begin()時点のスナップショット */
+  private pendingPcgData: Uint8Array | null = null;
+  private pendingEditBuffer: Uint8Array | null = null;
+
+  /** begin()のネスト数 */
+  private depth: number = 0;
+
+  constructor(pcgData: PCGData, editBuffer: PCGData, limit: number = HISTORY_LIMIT) {
+    this.pcgData = pcgData;
+    this.editBuffer = editBuffer;
+    this.limit = limit;
+  }
+
+  /**
+   * 記録を開始（変更前の状態を保持）
+   */
+  begin(): void {
+    if (this.depth === 0) {
+      this.pendingPcgData = this.pcgData.getAllData();
+      this.pendingEditBuffer = this.editBuffer.getAllData();
+    }
+    this.depth++;
+  }
+
+  /**
+   * 記録を確定
+   * 最も外側のcommit()で変更があった場合のみ1ステップとして積む
+   * @returns 履歴に積んだかどうか
+   */
+  commit(): boolean {
+    if (this.depth === 0) return false;
+    this.depth--;
+    if (this.depth > 0) return false;
+
+    const entry: HistoryEntry = {
+      pcgData: this.diffSide(this.pendingPcgData, this.pcgData),
+      editBuffer: this.diffSide(this.pendingEditBuffer, this.editBuffer)
+    };
+    this.pendingPcgData = null;
+    this.pendingEditBuffer = null;
+
+    if (!entry.pcgData && !entry.editBuffer) {
+      return false;
+    }
+
+    this.pushLimited(this.undoStack, entry);
+    this.redoStack = [];
+    return true;
+  }
+
+  /**
+   * 記録中かどうか
+   */
+  isRecording(): boolean {
+    return this.depth > 0;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * 1ステップ戻す
+   * @returns 戻せたかどうか
+   */
+  undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+    this.pushLimited(this.redoStack, this.restore(entry));
+    return true;
+  }
+
+  /**
+   * 1ステップやり直す
+   * @returns やり直せたかどうか
+   */
+  redo(): boolean {
+    const entry = this.redoStack.pop();
+    if (!entry) return false;
+    this.pushLimited(this.undoStack, this.restore(entry));
+    return true;
+  }
+
+  /**
+   * 履歴を全て破棄
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /**
+   * 変化があった場合のみ変更前のデータを返す
+   */
+  private diffSide(before: Uint8Array | null, target: PCGData): Uint8Array | null {
+    if (!before) return null;
+    return equalBytes(before, target.getAllData()) ? null : before;
+  }
+
+  /**
+   * エントリの内容を復元し、逆方向用のエントリを返す
+   */
+  private restore(entry: HistoryEntry): HistoryEntry {
+    const reverse: HistoryEntry = { pcgData: null, editBuffer: null };
+    if (entry.pcgData) {
+      reverse.pcgData = this.pcgData.getAllData();
+      this.pcgData.setAllData(entry.pcgData);
+    }
+    if (entry.editBuffer) {
+      reverse.editBuffer = this.editBuffer.getAllData();
+      this.editBuffer.setAllData(entry.editBuffer);
+    }
+    return reverse;
+  }
+
+  /**
+   * 上限を超えたら古いものから捨てる
+   */
+  private pushLimited(stack: HistoryEntry[], entry: HistoryEntry): void {
+    stack.push(entry);
+    if (stack.length > this.limit) {
+      stack.splice(0, stack.length - this.limit);
+    }
+  }
+
+  // === シリアライズ ===
+
+  toSaveData(): EditHistorySaveData {
+    return {
+      undo: [...this.undoStack],
+      redo: [...this.redoStack]
+    };
+  }
+
+  /**
+   * 保存データから履歴を復元
+   * - サイズが合わないエントリは破棄
+   */
+  fromSaveData(data: Partial<EditHistorySaveData>): void {
+    const isValid = (entry: HistoryEntry) =>
+      (entry.pcgData === null || entry.pcgData.length === PCG_TOTAL_BYTES) &&
+      (entry.editBuffer === null || entry.editBuffer.length === PCG_TOTAL_BYTES);
+
+    this.undoStack = (data.undo ?? []).filter(isValid).slice(-this.limit);
+    this.redoStack = (data.redo ?? []).filter(isValid).slice(-this.limit);
+  }
+}
@@ -5,16 +5,47 @@
 
 import { PCGData } from '../core/PCGData';
 import { EditorState } from './EditorState';
-import { X1Color, X1_COLORS, EditMode } from '../core/types';
+import { EditHistory } from './EditHistory';
+import { SelectionState } from './SelectionState';
+import { X1Color, X1_COLORS, EditMode, Position, DrawTool, Direction, Rect } from '../core/types';
 import { RotationType } from '../input/InputEventTypes';
 import { EditBufferTransform } from '../core/EditBufferTransform';
-import { getEditArea, getCursorCharPos } from '../core/EditAreaCalculator';
+import { getEditArea, getCursorCharPos, EditArea } from '../core/EditAreaCalculator';
+import {
+  getLinePoints,
+  getRectPoints,
+  getEllipsePoints,
+  getFloodFillPoints,
+  isInArea
+} from '../core/DrawingTools';
+import {
+  normalizeRect,
+  isInRect,
+  getBlockSize,
+  readBlock,
+  writeBlock,
+  fillBlock,
+  clipBlockRect
+} from '../core/PixelBlock';
+
+/** 描画ツールの表示名 */
+const DRAW_TOOL_NAMES: Record<DrawTool, string> = {
+  dot: 'Dot',
+  line: 'Line',
+  rect: 'Rectangle',
+  fillrect: 'Filled Rectangle',
+  ellipse: 'Ellipse',
+  fill: 'Fill',
+  select: 'Select'
+};
 
 /** コマンド実行に必要な最小限の依存 */
 export interface CommandContext {
   pcgData: PCGData;
   editBuffer: PCGData;
   editorState: EditorState;
+  history: EditHistory;
+  selection: SelectionState;
 }
 
 /** コマンドの実行結果 */
@@ -22,7 +53,6 @@ export interface CommandResult {
   success: boolean;
   message?: string;
   needsSave?: boolean;
-  needsRender?: boolean;
 }
 
 /**
@@ -97,6 +127,437 @@ export class EditorCommands {
     return { success: true, needsSave: true };
   }
 
+  // === 描画ツール ===
+
+  /** 描画ツールを切り替え（貼り付け中のフローティングは確定する） */
+  cycleDrawTool(): CommandResult {
+    this.commitFloating();
+    this.ctx.selection.clear();
+    const tool = this.ctx.editorState.cycleDrawTool();
+    return { success: true, message: `Tool: ${DRAW_TOOL_NAMES[tool]}`, needsSave: true };
+  }
+
+  /**
+   * キーボードで現在のツールを適用（数字キー）
+   * - DOT: ドット描画
+   * - FILL: カーソル位置から塗りつぶし
+   * - 図形: 1回目で始点を設定、2回目で始点〜カーソルに図形を描画
+   * - SELECT: 1回目で始点を設定、2回目で始点〜カーソルを選択
+   */
+  applyTool(color: X1Color): CommandResult {
+    const { editorState, selection } = this.ctx;
+    const tool = editorState.drawTool;
+
+    if (tool === 'dot') {
+      return this.drawDot(color);
+    }
+
+    editorState.setColor(color);
+
+    if (tool === 'fill') {
+      return this.floodFill(editorState.cursorX, editorState.cursorY, color);
+    }
+
+    if (!editorState.hasAnchor) {
+      if (tool === 'select') {
+        this.commitFloating();
+        selection.clear();
+      }
+      editorState.setAnchor(editorState.cursorX, editorState.cursorY);
+      return { success: true, message: 'Anchor set' };
+    }
+
+    if (tool === 'select') {
+      return this.finishSelection();
+    }
+
+    const result = this.drawShape(tool, editorState.anchorX, editorState.anchorY,
+      editorState.cursorX, editorState.cursorY, color);
+    editorState.clearAnchor();
+    return result;
+  }
+
+  /** マウスで現在のツールを開始（ボタン押下時） */
+  mouseToolStart(dotX: number, dotY: number): CommandResult {
+    const { editorState } = this.ctx;
+
+    switch (editorState.drawTool) {
+      case 'dot':
+        return this.mouseDraw(dotX, dotY);
+      case 'fill':
+        editorState.setCursor(dotX, dotY);
+        return this.floodFill(dotX, dotY, editorState.currentColor);
+      case 'select':
+        return this.mouseSelectStart(dotX, dotY);
+      default:
+        // 図形: 押した位置を始点にする
+        editorState.setAnchor(dotX, dotY);
+        editorState.setCursor(dotX, dotY);
+        return { success: true };
+    }
+  }
+
+  /** マウスで現在のツールを継続（ドラッグ中） */
+  mouseToolMove(dotX: number, dotY: number): CommandResult {
+    const { editorState } = this.ctx;
+
+    switch (editorState.drawTool) {
+      case 'dot':
+        return this.mouseDraw(dotX, dotY);
+      case 'fill':
+        return { success: true };
+      case 'select':
+        if (this.ctx.selection.isDragging) {
+          this.ctx.selection.dragTo(dotX, dotY);
+        } else {
+          editorState.setCursor(dotX, dotY);
+        }
+        return { success: true };
+      default:
+        // 図形: 終点（カーソル）のみ更新してプレビュー
+        editorState.setCursor(dotX, dotY);
+        return { success: true };
+    }
+  }
+
+  /** マウスで現在のツールを終了（ボタンを離した時） */
+  mouseToolEnd(): CommandResult {
+    const { editorState } = this.ctx;
+    const tool = editorState.drawTool;
+
+    if (tool === 'select') {
+      this.ctx.selection.endDrag();
+      return editorState.hasAnchor ? this.finishSelection() : { success: true, needsSave: true };
+    }
+
+    if (tool === 'dot' || tool === 'fill' || !editorState.hasAnchor) {
+      return { success: true, needsSave: true };
+    }
+
+    const result = this.drawShape(tool, editorState.anchorX, editorState.anchorY,
+      editorState.cursorX, editorState.cursorY, editorState.currentColor);
+    editorState.clearAnchor();
+    return result;
+  }
+
+  /** 図形描画の始点を解除 */
+  cancelTool(): void {
+    this.ctx.editorState.clearAnchor();
+  }
+
+  /**
+   * 図形のプレビュー用ドットを取得（始点未設定時は空）
+   * 描画時と同じく始点の編集エリア内に限定する
+   */
+  getToolPreview(): Position[] {
+    const { editorState } = this.ctx;
+    const tool = editorState.drawTool;
+    if (tool === 'dot' || tool === 'fill' || tool === 'select' || !editorState.hasAnchor) {
+      return [];
+    }
+
+    const area = this.getAreaAt(editorState.anchorX, editorState.anchorY);
+    return this.getShapePoints(tool, editorState.anchorX, editorState.anchorY,
+      editorState.cursorX, editorState.cursorY)
+      .filter(p => isInArea(area, p.x, p.y));
+  }
+
+  // === 矩形選択 ===
+
+  /**
+   * 選択枠として表示する矩形を取得
+   * フローティング中はその位置、範囲指定中は始点〜カーソル
+   */
+  getSelectionFrame(): Rect | null {
+    const { editorState, selection } = this.ctx;
+    if (selection.hasFloating) {
+      return selection.floatingRect;
+    }
+    if (editorState.drawTool === 'select' && editorState.hasAnchor) {
+      return normalizeRect(editorState.anchorX, editorState.anchorY, editorState.cursorX, editorState.cursorY);
+    }
+    return selection.rect;
+  }
+
+  /** 編集エリア全体を選択 */
+  selectAll(): CommandResult {
+    this.commitFloating();
+    this.ctx.editorState.clearAnchor();
+    this.ctx.selection.setSelection({ x: 0, y: 0, width: 16, height: 16 });
+    return { success: true, message: 'Select all' };
+  }
+
+  /** 選択範囲（またはフローティング）をコピー */
+  copySelection(): CommandResult {
+    const { editBuffer, selection } = this.ctx;
+    const rect = selection.rect;
+
+    if (selection.floating) {
+      selection.setClipboard(selection.floating);
+    } else if (rect) {
+      selection.setClipboard(readBlock(editBuffer, rect));
+    } else {
+      return { success: false, message: 'No selection' };
+    }
+    return { success: true, message: 'Copy' };
+  }
+
+  /** 選択範囲（またはフローティング）を切り取り（切り取った跡は黒） */
+  cutSelection(): CommandResult {
+    const result = this.copySelection();
+    if (!result.success) return result;
+    this.deleteSelection();
+    return { success: true, message: 'Cut', needsSave: true };
+  }
+
+  /** 選択範囲（またはフローティング）を消去 */
+  deleteSelection(): CommandResult {
+    const { editBuffer, selection } = this.ctx;
+    const rect = selection.rect;
+
+    if (selection.hasFloating) {
+      selection.takeFloating();
+    } else if (rect) {
+      fillBlock(editBuffer, rect);
+    } else {
+      return { success: false, message: 'No selection' };
+    }
+    return { success: true, message: 'Delete', needsSave: true };
+  }
+
+  /**
+   * クリップボードをフローティングとして貼り付け
+   * 選択範囲があればその左上、なければカーソル位置に置く
+   */
+  pasteClipboard(): CommandResult {
+    const { editorState, selection } = this.ctx;
+    const clipboard = selection.clipboard;
+    if (!clipboard) {
+      return { success: false, message: 'Clipboard is empty' };
+    }
+
+    this.commitFloating();
+    const rect = selection.rect;
+    const x = rect ? rect.x : editorState.cursorX;
+    const y = rect ? rect.y : editorState.cursorY;
+    editorState.clearAnchor();
+    selection.clearSelection();
+    selection.float(clipboard, x, y);
+    return { success: true, message: 'Paste (Enter to place)' };
+  }
+
+  /**
+   * フローティングを編集バッファに書き込んで確定
+   * 確定した範囲が新しい選択範囲になる
+   */
+  commitFloating(): CommandResult {
+    const { editBuffer, selection } = this.ctx;
+    const floating = selection.takeFloating();
+    if (!floating) {
+      return { success: false };
+    }
+
+    writeBlock(editBuffer, floating.x, floating.y, floating.block);
+    const rect = clipBlockRect(floating.x, floating.y, floating.block);
+    if (rect) {
+      selection.setSelection(rect);
+    } else {
+      selection.clearSelection();
+    }
+    return { success: true, message: 'Placed', needsSave: true };
+  }
+
+  /** フローティングを移動（カーソルキー） */
+  moveFloating(direction: Direction, fast: boolean): CommandResult {
+    const step = fast ? 2 : 1;
+    const delta: Record<Direction, [number, number]> = {
+      [Direction.UP]: [0, -step],
+      [Direction.DOWN]: [0, step],
+      [Direction.LEFT]: [-step, 0],
+      [Direction.RIGHT]: [step, 0]
+    };
+    const [dx, dy] = delta[direction];
+    this.ctx.selection.moveFloating(dx, dy);
+    return { success: true };
+  }
+
+  /**
+   * 選択範囲を解除
+   * フローティングは移動・回転で元の場所を黒にしているため、捨てずにその位置で確定する
+   */
+  cancelSelection(): CommandResult {
+    const placed = this.commitFloating().success;
+    this.discardSelection();
+    return { success: true, needsSave: placed };
+  }
+
+  /** 選択範囲とフローティングを破棄（UNDO/REDOで履歴の状態に戻す前） */
+  private discardSelection(): void {
+    this.ctx.selection.clear();
+    this.ctx.editorState.clearAnchor();
+  }
+
+  /**
+   * 選択範囲の変換（ROTATIONを選択範囲に適用）
+   * - フローティング中はフローティングを変換
+   * - 縦横の長さが違う範囲の90度回転は、範囲に収まらないのでフローティングにする
+   */
+  private transformSelection(rotationType: RotationType): CommandResult {
+    const { editBuffer, selection } = this.ctx;
+    const floating = selection.floating;
+    const name = EditBufferTransform.getTransformName(rotationType);
+
+    if (floating) {
+      const { width, height } = getBlockSize(floating);
+      selection.setFloatingPixels(EditBufferTransform.applyTransformation(floating, width, height, rotationType));
+      return { success: true, message: name };
+    }
+
+    const rect = selection.rect;
+    if (!rect) {
+      return { success: false };
+    }
+
+    const transformed = EditBufferTransform.applyTransformation(
+      readBlock(editBuffer, rect), rect.width, rect.height, rotationType
+    );
+
+    if (rotationType === 'rot90' && rect.width !== rect.height) {
+      fillBlock(editBuffer, rect);
+      selection.clearSelection();
+      selection.float(transformed, rect.x, rect.y);
+      return { success: true, message: `${name} (Enter to place)`, needsSave: true };
+    }
+
+    writeBlock(editBuffer, rect.x, rect.y, transformed);
+    return { success: true, message: name, needsSave: true };
+  }
+
+  /**
+   * 始点〜カーソルを選択範囲にする
+   */
+  private finishSelection(): CommandResult {
+    const { editorState, selection } = this.ctx;
+    const rect = normalizeRect(editorState.anchorX, editorState.anchorY, editorState.cursorX, editorState.cursorY);
+    selection.setSelection(rect);
+    editorState.clearAnchor();
+    return { success: true, message: `Select ${rect.width}x${rect.height}` };
+  }
+
+  /**
+   * マウスでSELECTツールを開始
+   * - フローティング上: 掴んで移動
+   * - 選択範囲上: 範囲をフローティングにして移動（元の場所は黒）
+   * - それ以外: フローティングを確定して新しい範囲指定を開始
+   */
+  private mouseSelectStart(dotX: number, dotY: number): CommandResult {
+    const { editBuffer, editorState, selection } = this.ctx;
+    const rect = selection.rect;
+
+    if (selection.floatingContains(dotX, dotY)) {
+      selection.beginDrag(dotX, dotY);
+      return { success: true };
+    }
+
+    if (!selection.hasFloating && rect && isInRect(rect, dotX, dotY)) {
+      const block = readBlock(editBuffer, rect);
+      fillBlock(editBuffer, rect);
+      selection.clearSelection();
+      selection.float(block, rect.x, rect.y);
+      selection.beginDrag(dotX, dotY);
+      return { success: true };
+    }
+
+    this.commitFloating();
+    selection.clear();
+    editorState.setAnchor(dotX, dotY);
+    editorState.setCursor(dotX, dotY);
+    return { success: true };
+  }
+
+  /** 直線を描画 */
+  drawLine(x0: number, y0: number, x1: number, y1: number, color: X1Color): CommandResult {
+    return this.drawShape('line', x0, y0, x1, y1, color);
+  }
+
+  /** 矩形を描画 */
+  drawRect(x0: number, y0: number, x1: number, y1: number, color: X1Color, filled: boolean): CommandResult {
+    return this.drawShape(filled ? 'fillrect' : 'rect', x0, y0, x1, y1, color);
+  }
+
+  /** 楕円を描画 */
+  drawEllipse(x0: number, y0: number, x1: number, y1: number, color: X1Color): CommandResult {
+    return this.drawShape('ellipse', x0, y0, x1, y1, color);
+  }
+
+  /**
+   * 塗りつぶし（4方向）
+   * 開始点を含む編集エリアの外には広がらない
+   */
+  floodFill(x: number, y: number, color: X1Color): CommandResult {
+    const area = this.getAreaAt(x, y);
+    const points = getFloodFillPoints(area, x, y, (px, py) => this.getBufferPixel(px, py));
+    this.plotPoints(points, color, area);
+    return { success: true, message: 'Fill', needsSave: true };
+  }
+
+  /**
+   * 図形を描画（始点の編集エリア内に限定）
+   */
+  private drawShape(tool: DrawTool, x0: number, y0: number, x1: number, y1: number, color: X1Color): CommandResult {
+    const area = this.getAreaAt(x0, y0);
+    this.plotPoints(this.getShapePoints(tool, x0, y0, x1, y1), color, area);
+    return { success: true, message: DRAW_TOOL_NAMES[tool], needsSave: true };
+  }
+
+  /**
+   * ツールに応じた図形のドットを取得
+   */
+  private getShapePoints(tool: DrawTool, x0: number, y0: number, x1: number, y1: number): Position[] {
+    switch (tool) {
+      case 'line':
+        return getLinePoints(x0, y0, x1, y1);
+      case 'rect':
+        return getRectPoints(x0, y0, x1, y1, false);
+      case 'fillrect':
+        return getRectPoints(x0, y0, x1, y1, true);
+      case 'ellipse':
+        return getEllipsePoints(x0, y0, x1, y1);
+      default:
+        return [{ x: x1, y: y1 }];
+    }
+  }
+
+  /**
+   * 指定ドット座標を含む編集エリアを取得（現在の編集モード）
+   */
+  private getAreaAt(x: number, y: number): EditArea {
+    const { charX, charY } = getCursorCharPos(x, y);
+    return getEditArea(this.ctx.editorState.editMode, charX, charY);
+  }
+
+  /**
+   * 編集バッファの色を取得（16x16ドット座標）
+   */
+  private getBufferPixel(x: number, y: number): X1Color {
+    const bufferCharCode = (Math.floor(x / 8) + Math.floor(y / 8) * 16) & 0xFF;
+    return this.ctx.editBuffer.getPixel(bufferCharCode, x % 8, y % 8);
+  }
+
+  /**
+   * ドット群を編集バッファに描画（エリア外は無視、変更通知は1回）
+   */
+  private plotPoints(points: Position[], color: X1Color, area: EditArea): void {
+    const { editBuffer } = this.ctx;
+    editBuffer.batch(() => {
+      for (const { x, y } of points) {
+        if (!isInArea(area, x, y)) continue;
+        const bufferCharCode = (Math.floor(x / 8) + Math.floor(y / 8) * 16) & 0xFF;
+        editBuffer.setPixel(bufferCharCode, x % 8, y % 8, color);
+      }
+    });
+  }
+
   // === 編集操作 ===
 
   /** EDIT CHR.処理（定義エリアのキャラクタを選択） */
@@ -118,44 +579,45 @@ export class EditorCommands {
     const charX = Math.floor(editorState.cursorX / 8);
     const charY = Math.floor(editorState.cursorY / 8);
 
-    switch (editorState.editMode) {
-      case EditMode.SEPARATE:
-        {
-          const srcBufferCode = charX + charY * 16;
-          pcgData.setCharacter(charCode, new Uint8Array(editBuffer.getCharacter(srcBufferCode)));
-        }
-        break;
-      case EditMode.VERTICAL:
-        {
-          const srcTop = charX;
-          const srcBottom = charX + 16;
-          pcgData.setCharacter(charCode, new Uint8Array(editBuffer.getCharacter(srcTop)));
-          pcgData.setCharacter((charCode + 16) & 0xFF, new Uint8Array(editBuffer.getCharacter(srcBottom)));
-        }
-        break;
-      case EditMode.HORIZONTAL:
-        {
-          const srcLeft = charY * 16;
-          const srcRight = charY * 16 + 1;
-          pcgData.setCharacter(charCode, new Uint8Array(editBuffer.getCharacter(srcLeft)));
-          pcgData.setCharacter((charCode + 1) & 0xFF, new Uint8Array(editBuffer.getCharacter(srcRight)));
-        }
-        break;
-      case EditMode.ALL:
-        {
-          pcgData.setCharacter(charCode, new Uint8Array(editBuffer.getCharacter(0)));
-          pcgData.setCharacter((charCode + 1) & 0xFF, new Uint8Array(editBuffer.getCharacter(1)));
-          pcgData.setCharacter((charCode + 16) & 0xFF, new Uint8Array(editBuffer.getCharacter(16)));
-          pcgData.setCharacter((charCode + 17) & 0xFF, new Uint8Array(editBuffer.getCharacter(17)));
-        }
-        break;
-    }
+    pcgData.batch(() => {
+      switch (editorState.editMode) {
+        case EditMode.SEPARATE:
+          {
+            const srcBufferCode = charX + charY * 16;
+            pcgData.setCharacter(charCode, new Uint8Array(editBuffer.getCharacter(srcBufferCode)));
+          }
+          break;
+        case EditMode.VERTICAL:
+          {
+            const srcTop = charX;
+            const srcBottom = charX + 16;
+            pcgData.setCharacter(charCode, new Uint8Array(editBuffer.getCharacter(srcTop)));
+            pcgData.setCharacter((charCode + 16) & 0xFF, new Uint8Array(editBuffer.getCharacter(srcBottom)));
+          }
+          break;
+        case EditMode.HORIZONTAL:
+          {
+            const srcLeft = charY * 16;
+            const srcRight = charY * 16 + 1;
+            pcgData.setCharacter(charCode, new Uint8Array(editBuffer.getCharacter(srcLeft)));
+            pcgData.setCharacter((charCode + 1) & 0xFF, new Uint8Array(editBuffer.getCharacter(srcRight)));
+          }
+          break;
+        case EditMode.ALL:
+          {
+            pcgData.setCharacter(charCode, new Uint8Array(editBuffer.getCharacter(0)));
+            pcgData.setCharacter((charCode + 1) & 0xFF, new Uint8Array(editBuffer.getCharacter(1)));
+            pcgData.setCharacter((charCode + 16) & 0xFF, new Uint8Array(editBuffer.getCharacter(16)));
+            pcgData.setCharacter((charCode + 17) & 0xFF, new Uint8Array(editBuffer.getCharacter(17)));
+          }
+          break;
+      }
+    });
 
     return {
       success: true,
       message: `Set CHR: $${charCode.toString(16).toUpperCase().padStart(2, '0')}`,
-      needsSave: true,
-      needsRender: true
+      needsSave: true
     };
   }
 
@@ -198,25 +660,27 @@ export class EditorCommands {
       }
     };
 
-    switch (editorState.editMode) {
-      case EditMode.SEPARATE:
-        loadCharacter(charCode, charX + charY * 16);
-        break;
-      case EditMode.VERTICAL:
-        loadCharacter(charCode, charX);
-        loadCharacter((charCode + 16) & 0xFF, charX + 16);
-        break;
-      case EditMode.HORIZONTAL:
-        loadCharacter(charCode, charY * 16);
-        loadCharacter((charCode + 1) & 0xFF, charY * 16 + 1);
-        break;
-      case EditMode.ALL:
-        loadCharacter(charCode, 0);
-        loadCharacter((charCode + 1) & 0xFF, 1);
-        loadCharacter((charCode + 16) & 0xFF, 16);
-        loadCharacter((charCode + 17) & 0xFF, 17);
-        break;
-    }
+    editBuffer.batch(() => {
+      switch (editorState.editMode) {
+        case EditMode.SEPARATE:
+          loadCharacter(charCode, charX + charY * 16);
+          break;
+        case EditMode.VERTICAL:
+          loadCharacter(charCode, charX);
+          loadCharacter((charCode + 16) & 0xFF, charX + 16);
+          break;
+        case EditMode.HORIZONTAL:
+          loadCharacter(charCode, charY * 16);
+          loadCharacter((charCode + 1) & 0xFF, charY * 16 + 1);
+          break;
+        case EditMode.ALL:
+          loadCharacter(charCode, 0);
+          loadCharacter((charCode + 1) & 0xFF, 1);
+          loadCharacter((charCode + 16) & 0xFF, 16);
+          loadCharacter((charCode + 17) & 0xFF, 17);
+          break;
+      }
+    });
 
     return {
       success: true,
@@ -227,7 +691,12 @@ export class EditorCommands {
 
   /** ROTATION処理 */
   rotation(rotationType: RotationType): CommandResult {
-    const { editBuffer, editorState } = this.ctx;
+    const { editBuffer, editorState, selection } = this.ctx;
+
+    // 選択範囲があれば範囲内だけを変換（編集モードに関係なく4文字にまたがって可）
+    if (selection.hasSelection || selection.hasFloating) {
+      return this.transformSelection(rotationType);
+    }
 
     const success = EditBufferTransform.apply(
       editBuffer,
@@ -254,13 +723,15 @@ export class EditorCommands {
     const { charX, charY } = getCursorCharPos(editorState.cursorX, editorState.cursorY);
     const { charCodes } = getEditArea(editorState.editMode, charX, charY);
 
-    for (const charCode of charCodes) {
-      for (let y = 0; y < 8; y++) {
-        for (let x = 0; x < 8; x++) {
-          editBuffer.setPixel(charCode, x, y, X1_COLORS.BLACK);
+    editBuffer.batch(() => {
+      for (const charCode of charCodes) {
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            editBuffer.setPixel(charCode, x, y, X1_COLORS.BLACK);
+          }
         }
       }
-    }
+    });
 
     return { success: true, message: 'Cleared', needsSave: true };
   }
@@ -271,17 +742,19 @@ export class EditorCommands {
     const { charX, charY } = getCursorCharPos(editorState.cursorX, editorState.cursorY);
     const { charCodes } = getEditArea(editorState.editMode, charX, charY);
 
-    for (const charCode of charCodes) {
-      for (let y = 0; y < 8; y++) {
-        for (let x = 0; x < 8; x++) {
-          const currentColor = editBuffer.getPixel(charCode, x, y);
-          const newColor = colorMap[currentColor] as X1Color;
-          if (newColor !== currentColor) {
-            editBuffer.setPixel(charCode, x, y, newColor);
+    editBuffer.batch(() => {
+      for (const charCode of charCodes) {
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            const currentColor = editBuffer.getPixel(charCode, x, y);
+            const newColor = colorMap[currentColor] as X1Color;
+            if (newColor !== currentColor) {
+              editBuffer.setPixel(charCode, x, y, newColor);
+            }
           }
         }
       }
-    }
+    });
 
     return { success: true, message: 'Color changed', needsSave: true };
   }
@@ -295,12 +768,57 @@ export class EditorCommands {
       return { success: false, message: 'Invalid range' };
     }
 
-    for (let i = 0; i < count; i++) {
-      const srcData = pcgData.getCharacter(start + i);
-      pcgData.setCharacter(target + i, new Uint8Array(srcData));
-    }
+    pcgData.batch(() => {
+      for (let i = 0; i < count; i++) {
+        const srcData = pcgData.getCharacter(start + i);
+        pcgData.setCharacter(target + i, new Uint8Array(srcData));
+      }
+    });
 
     const msg = `Transfer: $${start.toString(16).toUpperCase().padStart(2, '0')}-$${end.toString(16).toUpperCase().padStart(2, '0')} -> $${target.toString(16).toUpperCase().padStart(2, '0')}`;
-    return { success: true, message: msg, needsSave: true, needsRender: true };
+    return { success: true, message: msg, needsSave: true };
+  }
+
+  // === 履歴操作 ===
+
+  /**
+   * UNDO処理
+   * フローティングはその位置で確定して1ステップにしてから戻す（REDOで確定した状態に戻せる）
+   */
+  undo(): CommandResult {
+    this.placeFloatingStep();
+    this.discardSelection();
+    if (!this.ctx.history.undo()) {
+      return { success: false, message: 'Nothing to undo' };
+    }
+    return { success: true, message: 'Undo', needsSave: true };
+  }
+
+  /**
+   * REDO処理
+   * フローティングはその位置で確定する（新しい変更になるため、やり直す履歴は残らない）
+   */
+  redo(): CommandResult {
+    if (this.placeFloatingStep()) {
+      this.discardSelection();
+      return { success: true, message: 'Placed', needsSave: true };
+    }
+    this.discardSelection();
+    if (!this.ctx.history.redo()) {
+      return { success: false, message: 'Nothing to redo' };
+    }
+    return { success: true, message: 'Redo', needsSave: true };
+  }
+
+  /**
+   * フローティングをその位置で確定し、履歴の1ステップとして記録
+   * @returns 確定したかどうか
+   */
+  private placeFloatingStep(): boolean {
+    const { history } = this.ctx;
+    history.begin();
+    const placed = this.commitFloating().success;
+    history.commit();
+    return placed;
   }
 }
@@ -3,7 +3,7 @@
  * カーソル位置、編集モード、色などの状態を管理
  */
 
-import { EditMode, Direction, X1Color, X1_COLORS } from '../core/types';
+import { EditMode, Direction, X1Color, X1_COLORS, DrawTool, DRAW_TOOLS } from '../core/types';
 
 /** 保存用の状態データ（LocalStorageServiceと互換） */
 export interface EditorStateSaveData {
@@ -14,6 +14,7 @@ export interface EditorStateSaveData {
   currentCharCode: number;
   editChrCode: number;
   gridVisible: boolean;
+  drawTool: DrawTool;
 }
 
 /**
@@ -30,6 +31,10 @@ export class EditorState {
   private _currentCharCode: number = 0;
   private _editChrCode: number = 0;
   private _gridVisible: boolean = false;
+  private _drawTool: DrawTool = 'dot';
+  /** 図形描画の始点（未設定時は-1） */
+  private _anchorX: number = -1;
+  private _anchorY: number = -1;
 
   // === Getters（プリミティブ値のみ） ===
   get editMode(): EditMode { return this._editMode; }
@@ -40,6 +45,10 @@ export class EditorState {
   get currentCharCode(): number { return this._currentCharCode; }
   get editChrCode(): number { return this._editChrCode; }
   get gridVisible(): boolean { return this._gridVisible; }
+  get drawTool(): DrawTool { return this._drawTool; }
+  get anchorX(): number { return this._anchorX; }
+  get anchorY(): number { return this._anchorY; }
+  get hasAnchor(): boolean { return this._anchorX >= 0; }
 
   // === カーソル操作メソッド ===
 
@@ -114,6 +123,26 @@ export class EditorState {
     this._gridVisible = visible;
   }
 
+  /** 描画ツールを次に切り替え（始点はリセット） */
+  cycleDrawTool(): DrawTool {
+    const currentIndex = DRAW_TOOLS.indexOf(this._drawTool);
+    this._drawTool = DRAW_TOOLS[(currentIndex + 1) % DRAW_TOOLS.length];
+    this.clearAnchor();
+    return this._drawTool;
+  }
+
+  /** 図形描画の始点を設定 */
+  setAnchor(x: number, y: number): void {
+    this._anchorX = Math.max(0, Math.min(15, x));
+    this._anchorY = Math.max(0, Math.min(15, y));
+  }
+
+  /** 図形描画の始点を解除 */
+  clearAnchor(): void {
+    this._anchorX = -1;
+    this._anchorY = -1;
+  }
+
   /** 編集モードを次に切り替え */
   cycleEditMode(): EditMode {
     const modes = [EditMode.SEPARATE, EditMode.VERTICAL, EditMode.HORIZONTAL, EditMode.ALL];
@@ -146,7 +175,8 @@ export class EditorState {
       lastDirection: this._lastDirection,
       currentCharCode: this._currentCharCode,
       editChrCode: this._editChrCode,
-      gridVisible: this._gridVisible
+      gridVisible: this._gridVisible,
+      drawTool: this._drawTool
     };
   }
 
@@ -163,5 +193,7 @@ export class EditorState {
     this._currentCharCode = data.currentCharCode ?? 0;
     this._editChrCode = data.editChrCode ?? 0;
     this._gridVisible = data.gridVisible ?? true;
+    this._drawTool = data.drawTool && DRAW_TOOLS.includes(data.drawTool) ? data.drawTool : 'dot';
+    this.clearAnchor();
   }
 }
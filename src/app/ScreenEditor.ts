@@ -0,0 +1,280 @@
+/**
+ * テキスト画面（マップ）エディタ
+ * カーソル位置に選択中の文字（PCGまたはROMフォント）とアトリビュートを並べる操作を担当（UI表示・保存は行わない）
+ */
+
+import { TextScreen, TEXT_BLANK_CODE } from '../core/TextScreen';
+import { Direction, X1Color, TEXT_ATTR, TEXT_ATTR_DEFAULT, TEXT_COLUMNS, TEXT_ROWS } from '../core/types';
+import { CommandResult } from './EditorCommands';
+
+/** 保存用の状態データ（LocalStorageServiceと互換） */
+export interface ScreenEditorSaveData {
+  cursorCol: number;
+  cursorRow: number;
+  brushCode: number;
+  brushPcg: boolean;
+  brushAttr: number;
+}
+
+/** 切り替えできるアトリビュートのビットと表示名 */
+export type ScreenAttrFlag = 'reverse' | 'blink' | 'double-height' | 'double-width';
+
+const ATTR_FLAGS: Record<ScreenAttrFlag, { bit: number; label: string }> = {
+  'reverse': { bit: TEXT_ATTR.REVERSE, label: 'REV' },
+  'blink': { bit: TEXT_ATTR.BLINK, label: 'BLINK' },
+  'double-height': { bit: TEXT_ATTR.DOUBLE_HEIGHT, label: '2H' },
+  'double-width': { bit: TEXT_ATTR.DOUBLE_WIDTH, label: '2W' }
+};
+
+/** Shift+カーソルキーの移動量 */
+const FAST_STEP = 4;
+
+/**
+ * テキスト画面エディタクラス
+ */
+export class ScreenEditor {
+  private screen: TextScreen;
+
+  private _cursorCol: number = 0;
+  private _cursorRow: number = 0;
+
+  /** 置く文字コード */
+  private _brushCode: number = 0;
+
+  /** PCGを置くか（falseならROMフォント） */
+  private _brushPcg: boolean = true;
+
+  /** 置くアトリビュート（PCGビットを除く） */
+  private _brushAttrBase: number = TEXT_ATTR_DEFAULT;
+
+  constructor(screen: TextScreen) {
+    this.screen = screen;
+  }
+
+  // === Getters ===
+  get cursorCol(): number { return this._cursorCol; }
+  get cursorRow(): number { return this._cursorRow; }
+  get brushCode(): number { return this._brushCode; }
+  get brushPcg(): boolean { return this._brushPcg; }
+
+  /** 置くアトリビュート（PCGビットを含む） */
+  get brushAttr(): number {
+    return this._brushPcg ? this._brushAttrBase | TEXT_ATTR.PCG : this._brushAttrBase;
+  }
+
+  /** 置く文字の色（ROMフォントの文字色） */
+  get brushColor(): X1Color {
+    return (this._brushAttrBase & TEXT_ATTR.COLOR_MASK) as X1Color;
+  }
+
+  /**
+   * 状態表示用の文字列
+   */
+  getStatusText(): string {
+    const columns = this.screen.columns;
+    const hex = (value: number) => value.toString(16).toUpperCase().padStart(2, '0');
+    const flags = (Object.keys(ATTR_FLAGS) as ScreenAttrFlag[])
+      .filter(flag => this._brushAttrBase & ATTR_FLAGS[flag].bit)
+      .map(flag => ATTR_FLAGS[flag].label);
+    return `SCREEN ${columns}x${TEXT_ROWS}  X=${this._cursorCol} Y=${this._cursorRow}  ` +
+      `CHR=&H${hex(this._brushCode)} (${this._brushPcg ? 'PCG' : 'ROM'})  ` +
+      `ATTR=&H${hex(this.brushAttr)} COL=${this.brushColor}${flags.length > 0 ? ' ' + flags.join(' ') : ''}`;
+  }
+
+  // === カーソル操作 ===
+
+  moveCursor(direction: Direction, fast: boolean): void {
+    const step = fast ? FAST_STEP : 1;
+    switch (direction) {
+      case Direction.UP:
+        this.setCursor(this._cursorCol, this._cursorRow - step);
+        break;
+      case Direction.DOWN:
+        this.setCursor(this._cursorCol, this._cursorRow + step);
+        break;
+      case Direction.LEFT:
+        this.setCursor(this._cursorCol - step, this._cursorRow);
+        break;
+      case Direction.RIGHT:
+        this.setCursor(this._cursorCol + step, this._cursorRow);
+        break;
+    }
+  }
+
+  /** カーソルを直接設定（画面内に収める） */
+  setCursor(col: number, row: number): void {
+    this._cursorCol = Math.max(0, Math.min(this.screen.columns - 1, col));
+    this._cursorRow = Math.max(0, Math.min(TEXT_ROWS - 1, row));
+  }
+
+  /**
+   * カーソルを右に進める（行末では次の行の先頭へ）
+   * @param step 進める桁数（横倍角は2）
+   */
+  private advanceCursor(step: number = 1): void {
+    if (this._cursorCol + step < this.screen.columns) {
+      this._cursorCol += step;
+    } else if (this._cursorRow < TEXT_ROWS - 1) {
+      this._cursorCol = 0;
+      this._cursorRow++;
+    }
+  }
+
+  // === 文字の配置 ===
+
+  /**
+   * カーソル位置に文字を置いて右に進める
+   */
+  put(): CommandResult {
+    const changed = this.placeBrush(this._cursorCol, this._cursorRow);
+    this.advanceCursor(this.brushAttr & TEXT_ATTR.DOUBLE_WIDTH ? 2 : 1);
+    return { success: true, needsSave: changed };
+  }
+
+  /**
+   * 指定位置に文字を置く（マウス用、カーソルも移動）
+   */
+  putAt(col: number, row: number): CommandResult {
+    if (!this.screen.isInside(col, row)) {
+      return { success: false };
+    }
+    this.setCursor(col, row);
+    const changed = this.placeBrush(col, row);
+    return { success: true, needsSave: changed };
+  }
+
+  /**
+   * 置く文字を書き込む
+   * 倍角の場合は、実機のPRINTと同じく覆われる右（下）のセルにも同じ文字とアトリビュートを書く
+   * @returns 内容が変わった場合はtrue
+   */
+  private placeBrush(col: number, row: number): boolean {
+    const attr = this.brushAttr;
+    const width = attr & TEXT_ATTR.DOUBLE_WIDTH ? 2 : 1;
+    const height = attr & TEXT_ATTR.DOUBLE_HEIGHT ? 2 : 1;
+    let changed = false;
+
+    this.screen.batch(() => {
+      for (let dy = 0; dy < height; dy++) {
+        for (let dx = 0; dx < width; dx++) {
+          if (this.screen.isInside(col + dx, row + dy)) {
+            changed = this.screen.setCell(col + dx, row + dy, this._brushCode, attr) || changed;
+          }
+        }
+      }
+    });
+    return changed;
+  }
+
+  /**
+   * カーソル位置のアトリビュートだけを書き換えて右に進める
+   * 文字コードとPCG/ROMフォントの選択はセルのものを残す
+   */
+  paintAttr(): CommandResult {
+    const cell = this.screen.getCell(this._cursorCol, this._cursorRow);
+    const attr = (cell.attr & TEXT_ATTR.PCG) | this._brushAttrBase;
+    const changed = this.screen.setCell(this._cursorCol, this._cursorRow, cell.code, attr);
+    this.advanceCursor();
+    return { success: true, needsSave: changed };
+  }
+
+  /**
+   * カーソル位置を空白にする
+   */
+  erase(): CommandResult {
+    const changed = this.screen.setCell(this._cursorCol, this._cursorRow, TEXT_BLANK_CODE, TEXT_ATTR_DEFAULT);
+    return { success: true, needsSave: changed };
+  }
+
+  /**
+   * カーソル位置の文字を拾って置く文字にする
+   */
+  pick(): CommandResult {
+    const cell = this.screen.getCell(this._cursorCol, this._cursorRow);
+    this._brushCode = cell.code;
+    this._brushPcg = (cell.attr & TEXT_ATTR.PCG) !== 0;
+    this._brushAttrBase = cell.attr & ~TEXT_ATTR.PCG;
+    return { success: true, needsSave: true };
+  }
+
+  // === 置く文字の選択 ===
+
+  /**
+   * 置く文字コードを設定（定義エリアの選択と合わせる時など）
+   */
+  setBrush(code: number, pcg: boolean): void {
+    this._brushCode = code & 0xFF;
+    this._brushPcg = pcg;
+  }
+
+  /**
+   * 置く文字コードを増減（0-255で循環）
+   */
+  changeBrushCode(delta: number): CommandResult {
+    this._brushCode = (this._brushCode + delta) & 0xFF;
+    return { success: true, needsSave: true };
+  }
+
+  /**
+   * PCG/ROMフォントを切り替え
+   */
+  toggleBrushSource(): CommandResult {
+    this._brushPcg = !this._brushPcg;
+    return { success: true, message: `Source: ${this._brushPcg ? 'PCG' : 'ROM'}`, needsSave: true };
+  }
+
+  /**
+   * 置く文字の色を設定
+   */
+  setBrushColor(color: X1Color): CommandResult {
+    this._brushAttrBase = (this._brushAttrBase & ~TEXT_ATTR.COLOR_MASK) | color;
+    return { success: true, needsSave: true };
+  }
+
+  /**
+   * 置くアトリビュートの反転・点滅・倍角を切り替え
+   */
+  toggleBrushAttr(flag: ScreenAttrFlag): CommandResult {
+    const { bit, label } = ATTR_FLAGS[flag];
+    this._brushAttrBase ^= bit;
+    return {
+      success: true,
+      message: `${label}: ${this._brushAttrBase & bit ? 'ON' : 'OFF'}`,
+      needsSave: true
+    };
+  }
+
+  // === 画面 ===
+
+  /**
+   * 40桁/80桁を切り替え（カーソルは画面内に収める）
+   */
+  toggleWidth(): CommandResult {
+    this.screen.setMode(this.screen.mode === 'WIDTH40' ? 'WIDTH80' : 'WIDTH40');
+    this.setCursor(this._cursorCol, this._cursorRow);
+    return { success: true, message: `Screen: ${TEXT_COLUMNS[this.screen.mode]}x${TEXT_ROWS}`, needsSave: true };
+  }
+
+  // === シリアライズ ===
+
+  toSaveData(): ScreenEditorSaveData {
+    return {
+      cursorCol: this._cursorCol,
+      cursorRow: this._cursorRow,
+      brushCode: this._brushCode,
+      brushPcg: this._brushPcg,
+      brushAttr: this._brushAttrBase
+    };
+  }
+
+  /**
+   * 保存データから状態を復元
+   * - 各フィールドにデフォルト値を適用（後方互換性維持）
+   */
+  fromSaveData(data: Partial<ScreenEditorSaveData>): void {
+    this._brushCode = (data.brushCode ?? 0) & 0xFF;
+    this._brushPcg = data.brushPcg ?? true;
+    this._brushAttrBase = (data.brushAttr ?? TEXT_ATTR_DEFAULT) & ~TEXT_ATTR.PCG & 0xFF;
+    this.setCursor(data.cursorCol ?? 0, data.cursorRow ?? 0);
+  }
+}
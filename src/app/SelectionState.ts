@@ -0,0 +1,155 @@
+/**
+ * 矩形選択の状態管理
+ * 編集エリア内の選択範囲、内部クリップボード、フローティング（貼り付け中）レイヤーを保持する
+ *
+ * - フローティングは確定するまで編集バッファに書き込まれない
+ * - 状態は保存しない（リロードで破棄）
+ */
+
+import { Rect } from '../core/types';
+import { PixelBlock, getBlockSize, isInRect } from '../core/PixelBlock';
+
+/** フローティングの移動範囲（1ドットは編集エリアに残す） */
+const BUFFER_SIZE = 16;
+
+export class SelectionState {
+  /** 選択範囲（未選択時はnull） */
+  private _rect: Rect | null = null;
+
+  /** 内部クリップボード */
+  private _clipboard: PixelBlock | null = null;
+
+  /** フローティングレイヤー */
+  private _floating: PixelBlock | null = null;
+  private _floatX: number = 0;
+  private _floatY: number = 0;
+
+  /** マウスでフローティングを掴んでいる位置（掴んでいない時はnull） */
+  private dragOffset: { x: number; y: number } | null = null;
+
+  // === Getters ===
+  get isDragging(): boolean { return this.dragOffset !== null; }
+  get hasSelection(): boolean { return this._rect !== null; }
+  get hasClipboard(): boolean { return this._clipboard !== null; }
+  get hasFloating(): boolean { return this._floating !== null; }
+  get floatX(): number { return this._floatX; }
+  get floatY(): number { return this._floatY; }
+
+  /** 選択範囲（コピーを返す） */
+  get rect(): Rect | null {
+    return this._rect ? { ...this._rect } : null;
+  }
+
+  get clipboard(): PixelBlock | null {
+    return this._clipboard;
+  }
+
+  get floating(): PixelBlock | null {
+    return this._floating;
+  }
+
+  /** フローティングの矩形（はみ出し部分を含む） */
+  get floatingRect(): Rect | null {
+    if (!this._floating) return null;
+    const { width, height } = getBlockSize(this._floating);
+    return { x: this._floatX, y: this._floatY, width, height };
+  }
+
+  // === 選択範囲 ===
+
+  setSelection(rect: Rect): void {
+    this._rect = { ...rect };
+  }
+
+  clearSelection(): void {
+    this._rect = null;
+  }
+
+  // === クリップボード ===
+
+  setClipboard(block: PixelBlock): void {
+    this._clipboard = block.map(row => [...row]);
+  }
+
+  // === フローティング ===
+
+  /**
+   * ブロックをフローティングにする
+   */
+  float(block: PixelBlock, x: number, y: number): void {
+    this._floating = block.map(row => [...row]);
+    this.setFloatingPosition(x, y);
+  }
+
+  /**
+   * フローティングの内容を差し替え（回転など、位置はそのまま）
+   */
+  setFloatingPixels(block: PixelBlock): void {
+    if (!this._floating) return;
+    this.float(block, this._floatX, this._floatY);
+  }
+
+  /**
+   * フローティングの位置を設定（少なくとも1ドットは編集エリアに残す）
+   */
+  setFloatingPosition(x: number, y: number): void {
+    if (!this._floating) return;
+    const { width, height } = getBlockSize(this._floating);
+    this._floatX = Math.max(1 - width, Math.min(BUFFER_SIZE - 1, x));
+    this._floatY = Math.max(1 - height, Math.min(BUFFER_SIZE - 1, y));
+  }
+
+  /**
+   * フローティングを移動
+   */
+  moveFloating(dx: number, dy: number): void {
+    this.setFloatingPosition(this._floatX + dx, this._floatY + dy);
+  }
+
+  /**
+   * マウスでフローティングを掴む（掴んだ位置を保持）
+   */
+  beginDrag(x: number, y: number): void {
+    if (!this._floating) return;
+    this.dragOffset = { x: x - this._floatX, y: y - this._floatY };
+  }
+
+  /**
+   * 掴んだフローティングをマウス位置に合わせて移動
+   */
+  dragTo(x: number, y: number): void {
+    if (!this.dragOffset) return;
+    this.setFloatingPosition(x - this.dragOffset.x, y - this.dragOffset.y);
+  }
+
+  endDrag(): void {
+    this.dragOffset = null;
+  }
+
+  /**
+   * 座標がフローティング上か
+   */
+  floatingContains(x: number, y: number): boolean {
+    const rect = this.floatingRect;
+    return rect !== null && isInRect(rect, x, y);
+  }
+
+  /**
+   * フローティングを取り除いて返す
+   */
+  takeFloating(): { block: PixelBlock; x: number; y: number } | null {
+    if (!this._floating) return null;
+    const result = { block: this._floating, x: this._floatX, y: this._floatY };
+    this._floating = null;
+    return result;
+  }
+
+  /**
+   * 選択範囲とフローティングを破棄（クリップボードは残す）
+   */
+  clear(): void {
+    this._rect = null;
+    this._floating = null;
+    this.dragOffset = null;
+  }
+}
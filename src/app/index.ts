@@ -6,3 +6,9 @@ export { EditorState } from './EditorState';
 export type { EditorStateSaveData } from './EditorState';
 export { EditorCommands } from './EditorCommands';
 export type { CommandContext, CommandResult } from './EditorCommands';
+export { EditHistory } from './EditHistory';
+export { SelectionState } from './SelectionState';
+export type { HistoryEntry, EditHistorySaveData } from './EditHistory';
+export { ScreenEditor } from './ScreenEditor';
+export { AnimationPlayer } from './AnimationPlayer';
+export type { ScreenEditorSaveData, ScreenAttrFlag } from './ScreenEditor';
@@ -0,0 +1,114 @@
+/**
+ * アニメーションのフレーム列
+ * 連続したPCGに定義したパターンを、フレームごとの表示時間つきで並べる
+ *
+ * - フレームは1文字、または4Chr.スベテと同じ並びの2x2文字
+ * - 時刻からフレームを求める処理は再生とGIF書き出しで共用する
+ */
+
+import { AnimationFrame } from './types';
+import { ANIMATION_DURATION, ANIMATION_MAX_FRAMES, EDIT_BUFFER_CODES } from './constants';
+
+/** 保存用のデータ */
+export interface AnimationSaveData {
+  frames: AnimationFrame[];
+  loop: boolean;
+}
+
+export class AnimationSequence {
+  /** フレーム */
+  private _frames: AnimationFrame[] = [];
+
+  /** 最後のフレームの後、先頭に戻るか */
+  private _loop: boolean = true;
+
+  // === Getters ===
+  get frames(): readonly AnimationFrame[] { return this._frames; }
+  get loop(): boolean { return this._loop; }
+  get length(): number { return this._frames.length; }
+
+  /** 1周の時間（ms） */
+  get totalDuration(): number {
+    return this._frames.reduce((sum, frame) => sum + frame.duration, 0);
+  }
+
+  /**
+   * フレームを設定（範囲外の値は丸め、最大フレーム数で切り捨てる）
+   */
+  setFrames(frames: readonly Partial<AnimationFrame>[]): void {
+    this._frames = frames
+      .slice(0, ANIMATION_MAX_FRAMES)
+      .map(frame => AnimationSequence.normalizeFrame(frame));
+  }
+
+  /**
+   * ループ再生するかを設定
+   */
+  setLoop(loop: boolean): void {
+    this._loop = loop;
+  }
+
+  /**
+   * フレームの値を有効な範囲に丸める
+   */
+  static normalizeFrame(frame: Partial<AnimationFrame>): AnimationFrame {
+    const duration = Math.round(frame.duration ?? ANIMATION_DURATION.DEFAULT);
+    return {
+      code: (frame.code ?? 0) & 0xFF,
+      quad: frame.quad ?? false,
+      duration: Math.max(ANIMATION_DURATION.MIN, Math.min(ANIMATION_DURATION.MAX,
+        isNaN(duration) ? ANIMATION_DURATION.DEFAULT : duration))
+    };
+  }
+
+  /**
+   * フレームに使う文字コードを取得
+   * @returns 1文字なら [code]、2x2なら左上・右上・左下・右下の順（0-255で循環）
+   */
+  static getFrameCodes(frame: AnimationFrame): number[] {
+    return frame.quad
+      ? EDIT_BUFFER_CODES.map(offset => (frame.code + offset) & 0xFF)
+      : [frame.code];
+  }
+
+  /**
+   * 再生開始からの経過時間に表示するフレームを取得
+   * @param time 経過時間（ms）
+   * @returns フレーム番号（フレームがなければ-1、ループしない場合は最後のフレームで止まる）
+   */
+  getFrameIndexAt(time: number): number {
+    if (this._frames.length === 0) return -1;
+
+    const total = this.totalDuration;
+    let t = this._loop ? time % total : Math.min(time, total - 1);
+    for (let i = 0; i < this._frames.length; i++) {
+      t -= this._frames[i].duration;
+      if (t < 0) return i;
+    }
+    return this._frames.length - 1;
+  }
+
+  /**
+   * 経過時間が最後のフレームの終わりを過ぎたか（ループ時は常にfalse）
+   */
+  isFinishedAt(time: number): boolean {
+    return !this._loop && time >= this.totalDuration;
+  }
+
+  // === シリアライズ ===
+
+  toSaveData(): AnimationSaveData {
+    return {
+      frames: this._frames.map(frame => ({ ...frame })),
+      loop: this._loop
+    };
+  }
+
+  /**
+   * 保存データから復元（後方互換性のためデフォルト値を適用）
+   */
+  fromSaveData(data: Partial<AnimationSaveData>): void {
+    this.setFrames(data.frames ?? []);
+    this._loop = data.loop ?? true;
+  }
+}
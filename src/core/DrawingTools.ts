@@ -0,0 +1,175 @@
+/**
+ * 描画ツールの座標計算
+ * 直線・矩形・楕円・塗りつぶしの対象ドットを求める（描画自体は行わない）
+ */
+
+import { Position } from './types';
+import { EditArea } from './EditAreaCalculator';
+
+/** 座標を一意なキーに変換（重複除去用） */
+function pointKey(x: number, y: number): number {
+  return (y << 16) | (x & 0xFFFF);
+}
+
+/** 重複を除いて座標を追加するための集合 */
+class PointSet {
+  private keys: Set<number> = new Set();
+  readonly points: Position[] = [];
+
+  add(x: number, y: number): void {
+    const key = pointKey(x, y);
+    if (this.keys.has(key)) return;
+    this.keys.add(key);
+    this.points.push({ x, y });
+  }
+}
+
+/**
+ * 直線のドットを取得（ブレゼンハム）
+ */
+export function getLinePoints(x0: number, y0: number, x1: number, y1: number): Position[] {
+  const result: Position[] = [];
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  let err = dx + dy;
+  let x = x0;
+  let y = y0;
+
+  for (;;) {
+    result.push({ x, y });
+    if (x === x1 && y === y1) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) {
+      err += dy;
+      x += sx;
+    }
+    if (e2 <= dx) {
+      err += dx;
+      y += sy;
+    }
+  }
+  return result;
+}
+
+/**
+ * 矩形のドットを取得
+ * @param filled trueで塗りつぶし矩形
+ */
+export function getRectPoints(x0: number, y0: number, x1: number, y1: number, filled: boolean): Position[] {
+  const left = Math.min(x0, x1);
+  const right = Math.max(x0, x1);
+  const top = Math.min(y0, y1);
+  const bottom = Math.max(y0, y1);
+  const set = new PointSet();
+
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      if (filled || y === top || y === bottom || x === left || x === right) {
+        set.add(x, y);
+      }
+    }
+  }
+  return set.points;
+}
+
+/**
+ * 2点を対角とする矩形に内接する楕円のドットを取得
+ * 偶数サイズの矩形にも対応した整数演算版
+ */
+export function getEllipsePoints(x0: number, y0: number, x1: number, y1: number): Position[] {
+  const set = new PointSet();
+
+  let a = Math.abs(x1 - x0);
+  const b = Math.abs(y1 - y0);
+  let b1 = b & 1;
+  let dx = 4 * (1 - a) * b * b;
+  let dy = 4 * (b1 + 1) * a * a;
+  let err = dx + dy + b1 * a * a;
+
+  let left = Math.min(x0, x1);
+  let right = left + a;
+  let top = Math.min(y0, y1) + ((b + 1) >> 1);
+  let bottom = top - b1;
+  a = 8 * a * a;
+  b1 = 8 * b * b;
+
+  do {
+    set.add(right, top);
+    set.add(left, top);
+    set.add(left, bottom);
+    set.add(right, bottom);
+    const e2 = 2 * err;
+    if (e2 <= dy) {
+      top++;
+      bottom--;
+      dy += a;
+      err += dy;
+    }
+    if (e2 >= dx || 2 * err > dy) {
+      left++;
+      right--;
+      dx += b1;
+      err += dx;
+    }
+  } while (left <= right);
+
+  // 横に細い楕円で先端が欠けるのを補う
+  while (top - bottom <= b) {
+    set.add(left - 1, top);
+    set.add(right + 1, top);
+    top++;
+    set.add(left - 1, bottom);
+    set.add(right + 1, bottom);
+    bottom--;
+  }
+
+  return set.points;
+}
+
+/**
+ * 4方向塗りつぶしの対象ドットを取得
+ * 開始点と同じ色で連結したドットを、編集エリアの範囲内に限って求める
+ * @param area 塗りつぶしを許可する範囲（編集モードのエリア）
+ * @param startX 開始X座標（0-15）
+ * @param startY 開始Y座標（0-15）
+ * @param getColor 指定座標の色を返す関数
+ */
+export function getFloodFillPoints(
+  area: EditArea,
+  startX: number,
+  startY: number,
+  getColor: (x: number, y: number) => number
+): Position[] {
+  if (!isInArea(area, startX, startY)) {
+    return [];
+  }
+
+  const targetColor = getColor(startX, startY);
+  const set = new PointSet();
+  const visited = new Set<number>();
+  const stack: Position[] = [{ x: startX, y: startY }];
+
+  while (stack.length > 0) {
+    const { x, y } = stack.pop()!;
+    const key = pointKey(x, y);
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    if (!isInArea(area, x, y) || getColor(x, y) !== targetColor) continue;
+    set.add(x, y);
+
+    stack.push({ x: x + 1, y }, { x: x - 1, y }, { x, y: y + 1 }, { x, y: y - 1 });
+  }
+
+  return set.points;
+}
+
+/**
+ * 座標が編集エリア内か
+ */
+export function isInArea(area: EditArea, x: number, y: number): boolean {
+  return x >= area.startX && x < area.startX + area.width &&
+         y >= area.startY && y < area.startY + area.height;
+}
@@ -71,26 +71,29 @@ export class EditBufferTransform {
   }
 
   /**
-   * ピクセルを指定エリアに書き戻す
+   * ピクセルを指定エリアに書き戻す（変更通知は1回にまとめる）
    */
   private static setAreaPixels(editBuffer: PCGData, area: EditArea, pixels: X1Color[][]): void {
     const { width, height, charCodes } = area;
 
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const charIdx = Math.floor(x / 8) + Math.floor(y / 8) * (width > 8 ? 2 : 1);
-        const charCode = charCodes[charIdx] || charCodes[0];
-        const localX = x % 8;
-        const localY = y % 8;
-        editBuffer.setPixel(charCode, localX, localY, pixels[y][x]);
+    editBuffer.batch(() => {
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const charIdx = Math.floor(x / 8) + Math.floor(y / 8) * (width > 8 ? 2 : 1);
+          const charCode = charCodes[charIdx] || charCodes[0];
+          const localX = x % 8;
+          const localY = y % 8;
+          editBuffer.setPixel(charCode, localX, localY, pixels[y][x]);
+        }
       }
-    }
+    });
   }
 
   /**
-   * 変換を適用
+   * ピクセル配列に変換を適用（選択範囲・フローティングでも使用）
+   * 90度回転では幅と高さが入れ替わる
    */
-  private static applyTransformation(
+  static applyTransformation(
     pixels: X1Color[][],
     width: number,
     height: number,
@@ -140,7 +143,7 @@ export class EditBufferTransform {
         break;
 
       case 'rot90':
-        // 90度反時計回り: (x,y) -> (y, width-1-x)
+        // 90度反時計回り: (x,y) -> (y, width-1-x)（結果は height x width）
         for (let y = 0; y < width; y++) {
           result[y] = [];
           for (let x = 0; x < height; x++) {
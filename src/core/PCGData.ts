@@ -6,6 +6,10 @@
  * - 256文字 x 24バイト（B,R,G各8バイト）= 6144バイト
  * - 各プレーンは8行 x 1バイト/行 = 8バイト
  * - 色は3プレーンのビットを合成して0-7で表現
+ *
+ * 更新通知:
+ * - 変更のたびに pcg-updated を発火する
+ * - beginBatch()〜commitBatch() の間は通知を保留し、変更された文字をまとめて1回だけ発火する
  */
 
 import {
@@ -14,6 +18,8 @@ import {
   PCG_BYTES_PER_CHAR,
   PCG_BYTES_PER_PLANE,
   PCG_TOTAL_BYTES,
+  PCG_TOTAL_CHARS,
+  PCGUpdatedEvent,
   X1Color
 } from './types';
 
@@ -24,6 +30,12 @@ export class PCGData {
   /** イベントリスナー */
   private listeners: Map<EventType, Set<EventHandler>>;
 
+  /** バッチ更新のネスト数 */
+  private batchDepth: number = 0;
+
+  /** バッチ更新中に変更されたキャラクターコード */
+  private batchCodes: Set<number> = new Set();
+
   constructor() {
     // 256文字 x 24バイト = 6144バイト
     this.data = new Uint8Array(PCG_TOTAL_BYTES);
@@ -38,7 +50,7 @@ export class PCGData {
    */
   clear(): void {
     this.data.fill(0);
-    this.emit('pcg-updated', { code: -1 }); // -1 = all
+    this.notifyUpdated(-1); // -1 = all
   }
 
   /**
@@ -62,7 +74,7 @@ export class PCGData {
     }
     const offset = (code & 0xFF) * PCG_BYTES_PER_CHAR;
     this.data.set(data, offset);
-    this.emit('pcg-updated', { code: code & 0xFF });
+    this.notifyUpdated(code & 0xFF);
   }
 
   /**
@@ -124,7 +136,7 @@ export class PCGData {
       this.data[offset + PCG_BYTES_PER_PLANE * 2 + row] &= ~mask;
     }
 
-    this.emit('pcg-updated', { code: charCode & 0xFF });
+    this.notifyUpdated(charCode & 0xFF);
   }
 
   /**
@@ -149,7 +161,7 @@ export class PCGData {
   setPlaneRow(charCode: number, plane: number, row: number, value: number): void {
     const offset = (charCode & 0xFF) * PCG_BYTES_PER_CHAR + (plane & 0x03) * PCG_BYTES_PER_PLANE + (row & 0x07);
     this.data[offset] = value & 0xFF;
-    this.emit('pcg-updated', { code: charCode & 0xFF });
+    this.notifyUpdated(charCode & 0xFF);
   }
 
   /**
@@ -176,7 +188,7 @@ export class PCGData {
       throw new Error(`PCG data must be ${PCG_TOTAL_BYTES} bytes`);
     }
     this.data.set(data);
-    this.emit('pcg-updated', { code: -1 });
+    this.notifyUpdated(-1);
   }
 
   /**
@@ -206,7 +218,75 @@ export class PCGData {
       this.data[offset + PCG_BYTES_PER_PLANE * 2 + row] = useG ? monoData[row] : 0;
     }
 
-    this.emit('pcg-updated', { code: charCode & 0xFF });
+    this.notifyUpdated(charCode & 0xFF);
+  }
+
+  /**
+   * バッチ更新を開始
+   * commitBatch()までの変更通知を保留する（ネスト可能）
+   */
+  beginBatch(): void {
+    this.batchDepth++;
+  }
+
+  /**
+   * バッチ更新を確定
+   * 最も外側のcommitBatch()で、変更された文字をまとめて1回だけ通知する
+   */
+  commitBatch(): void {
+    if (this.batchDepth === 0) return;
+    this.batchDepth--;
+    if (this.batchDepth > 0 || this.batchCodes.size === 0) return;
+
+    const codes = [...this.batchCodes].sort((a, b) => a - b);
+    this.batchCodes.clear();
+    this.emitUpdated(codes);
+  }
+
+  /**
+   * 関数の実行中をバッチ更新として扱う
+   * @param fn 実行する処理（例外時もバッチは確定される）
+   * @returns fnの戻り値
+   */
+  batch<T>(fn: () => T): T {
+    this.beginBatch();
+    try {
+      return fn();
+    } finally {
+      this.commitBatch();
+    }
+  }
+
+  /**
+   * 変更を通知（バッチ中は保留）
+   * @param code 変更されたキャラクターコード（-1 = 全体）
+   */
+  private notifyUpdated(code: number): void {
+    if (this.batchDepth > 0) {
+      if (code < 0) {
+        for (let i = 0; i < PCG_TOTAL_CHARS; i++) this.batchCodes.add(i);
+      } else {
+        this.batchCodes.add(code);
+      }
+      return;
+    }
+
+    if (code < 0) {
+      this.emitUpdated(Array.from({ length: PCG_TOTAL_CHARS }, (_, i) => i));
+    } else {
+      this.emitUpdated([code]);
+    }
+  }
+
+  /**
+   * pcg-updated イベントを発火
+   */
+  private emitUpdated(codes: number[]): void {
+    const event: PCGUpdatedEvent = {
+      code: codes.length === 1 ? codes[0] : -1,
+      codes
+    };
+    this.emit('pcg-updated', event);
   }
 
   /**
@@ -0,0 +1,105 @@
+/**
+ * 編集バッファの矩形ピクセル操作
+ * 編集モードに関係なく、16x16ドット（バッファの4文字）を1枚の画像として扱う
+ */
+
+import { PCGData } from './PCGData';
+import { X1Color, X1_COLORS, Rect } from './types';
+
+/** ピクセルの矩形ブロック（[y][x]） */
+export type PixelBlock = X1Color[][];
+
+/** 編集バッファの一辺のドット数 */
+const BUFFER_SIZE = 16;
+
+/**
+ * ドット座標に対応するバッファの文字コード
+ */
+function bufferCharCode(x: number, y: number): number {
+  return (Math.floor(x / 8) + Math.floor(y / 8) * 16) & 0xFF;
+}
+
+/**
+ * 2点を対角とする矩形を取得（編集バッファ内に収める）
+ */
+export function normalizeRect(x0: number, y0: number, x1: number, y1: number): Rect {
+  const clamp = (v: number) => Math.max(0, Math.min(BUFFER_SIZE - 1, v));
+  const left = clamp(Math.min(x0, x1));
+  const top = clamp(Math.min(y0, y1));
+  const right = clamp(Math.max(x0, x1));
+  const bottom = clamp(Math.max(y0, y1));
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+/**
+ * 座標が矩形内か
+ */
+export function isInRect(rect: Rect, x: number, y: number): boolean {
+  return x >= rect.x && x < rect.x + rect.width &&
+         y >= rect.y && y < rect.y + rect.height;
+}
+
+/**
+ * ブロックのサイズを取得
+ */
+export function getBlockSize(block: PixelBlock): { width: number; height: number } {
+  return { width: block[0]?.length ?? 0, height: block.length };
+}
+
+/**
+ * 編集バッファから矩形範囲のピクセルを取得
+ */
+export function readBlock(editBuffer: PCGData, rect: Rect): PixelBlock {
+  const block: PixelBlock = [];
+  for (let y = 0; y < rect.height; y++) {
+    block[y] = [];
+    for (let x = 0; x < rect.width; x++) {
+      const px = rect.x + x;
+      const py = rect.y + y;
+      block[y][x] = editBuffer.getPixel(bufferCharCode(px, py), px % 8, py % 8);
+    }
+  }
+  return block;
+}
+
+/**
+ * 編集バッファにブロックを書き込む（はみ出した部分は捨てる、変更通知は1回）
+ * @param left 書き込み先の左上X（負の値も可）
+ * @param top 書き込み先の左上Y（負の値も可）
+ */
+export function writeBlock(editBuffer: PCGData, left: number, top: number, block: PixelBlock): void {
+  editBuffer.batch(() => {
+    block.forEach((row, y) => {
+      row.forEach((color, x) => {
+        const px = left + x;
+        const py = top + y;
+        if (px < 0 || px >= BUFFER_SIZE || py < 0 || py >= BUFFER_SIZE) return;
+        editBuffer.setPixel(bufferCharCode(px, py), px % 8, py % 8, color);
+      });
+    });
+  });
+}
+
+/**
+ * 編集バッファの矩形範囲を指定色で塗る（変更通知は1回）
+ */
+export function fillBlock(editBuffer: PCGData, rect: Rect, color: X1Color = X1_COLORS.BLACK): void {
+  const block: PixelBlock = Array.from({ length: rect.height }, () =>
+    new Array<X1Color>(rect.width).fill(color)
+  );
+  writeBlock(editBuffer, rect.x, rect.y, block);
+}
+
+/**
+ * ブロックを編集バッファ内に置いたときの矩形（はみ出し部分を除く）
+ * 完全にはみ出す場合はnull
+ */
+export function clipBlockRect(left: number, top: number, block: PixelBlock): Rect | null {
+  const { width, height } = getBlockSize(block);
+  const x0 = Math.max(0, left);
+  const y0 = Math.max(0, top);
+  const x1 = Math.min(BUFFER_SIZE, left + width);
+  const y1 = Math.min(BUFFER_SIZE, top + height);
+  if (x1 <= x0 || y1 <= y0) return null;
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
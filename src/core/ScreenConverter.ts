@@ -0,0 +1,292 @@
+/**
+ * 画像をテキスト画面用のPCGとマップに変換する
+ *
+ * 減色済みの画像を8x8ドットの文字に区切り、同じ文字（許容するドット数以内なら似た文字も）を
+ * 1つにまとめて、使う文字の一覧と、画面の各セルがどの文字を使うかのマップを作る
+ *
+ * 文字数の上限を指定した場合は、上限に収まるまで最も似た2つの文字をまとめる（画質は落ちる）
+ * - 似ている度合いは、異なるドットの色の差（明るさに効くG・R・Bのビットほど重い）の合計
+ * - まとめた文字は、元の文字を使うセルの数で重み付けした、ドットごとの最も多い色にする
+ */
+
+import { X1Color } from './types';
+
+/** 1文字のドット数（8x8） */
+const TILE_DOTS = 64;
+
+/** 色のビットごとの重み（bit0=B, bit1=R, bit2=G、明るさへの影響の大きさ） */
+const CHANNEL_WEIGHTS = [1, 3, 6];
+
+/** 2色の差（[a][b]、異なるビットの重みの合計） */
+const COLOR_DISTANCE: number[][] = Array.from({ length: 8 }, (_, a) =>
+  Array.from({ length: 8 }, (_, b) =>
+    CHANNEL_WEIGHTS.reduce((sum, weight, bit) => sum + (((a ^ b) >> bit) & 1) * weight, 0)
+  )
+);
+
+/** 変換の設定 */
+export interface ScreenConvertOptions {
+  /** 変換する桁数・行数（画像がこれより大きい場合は左上だけを使う） */
+  columns: number;
+  rows: number;
+  /** 似た文字としてまとめる、異なるドット数の上限（0なら同じ文字だけ） */
+  tolerance: number;
+  /** 文字数の上限（指定した場合は収まるまで似た文字をまとめる） */
+  budget?: number;
+}
+
+/** 変換結果 */
+export interface ScreenConversion {
+  /** 使う文字（各64ドット、左上から横方向の順） */
+  tiles: X1Color[][];
+  /** 文字ごとの、まとめる前の元の文字（まとめていなければ1つ） */
+  sources: X1Color[][][];
+  /** セルごとの文字の番号（tilesの添字、行*桁数+桁） */
+  map: number[];
+  /** 変換した桁数・行数 */
+  columns: number;
+  rows: number;
+  /** 同じ文字にまとめたセルの数 */
+  identical: number;
+  /** 似た文字（許容するドット数以内）にまとめた文字の数 */
+  similar: number;
+  /** 文字数の上限に収めるためにまとめた文字の数 */
+  merged: number;
+}
+
+/** まとめた文字のかたまり */
+interface TileCluster {
+  /** 代表の文字 */
+  tile: X1Color[];
+  /** 元の文字（uniqueの添字） */
+  members: number[];
+  /** 使うセルの数 */
+  cells: number;
+  /** 最も似たかたまり（添字）とその差 */
+  nearest: number;
+  distance: number;
+}
+
+/**
+ * 画像からテキスト画面用のPCGとマップを作るユーティリティ
+ */
+export class ScreenConverter {
+  /**
+   * 減色済みの画像を文字とマップに変換
+   * 似た文字は先に現れた文字にまとめ、文字数の上限を超える場合はさらに最も似た文字どうしをまとめる
+   * @param colors 減色済みの画像（[y][x]）
+   * @param options 変換の設定
+   * @returns 変換結果
+   */
+  static convert(colors: X1Color[][], options: ScreenConvertOptions): ScreenConversion {
+    const height = colors.length;
+    const width = height > 0 ? colors[0].length : 0;
+    const columns = Math.min(options.columns, Math.floor(width / 8));
+    const rows = Math.min(options.rows, Math.floor(height / 8));
+
+    // 同じ文字をまとめる
+    const unique: X1Color[][] = [];
+    const uniqueCells: number[] = [];
+    const cellTiles: number[] = [];
+    const known = new Map<string, number>();
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        const tile = ScreenConverter.readTile(colors, col, row);
+        const key = tile.join('');
+        let index = known.get(key);
+        if (index === undefined) {
+          index = unique.length;
+          known.set(key, index);
+          unique.push(tile);
+          uniqueCells.push(0);
+        }
+        uniqueCells[index]++;
+        cellTiles.push(index);
+      }
+    }
+
+    // 似た文字（異なるドットが最も少ないもの）を先に現れた文字にまとめる
+    const clusters: TileCluster[] = [];
+    unique.forEach((tile, index) => {
+      const nearest = options.tolerance > 0
+        ? ScreenConverter.findNearest(clusters.map(cluster => cluster.tile), tile, options.tolerance)
+        : -1;
+      if (nearest >= 0) {
+        clusters[nearest].members.push(index);
+        clusters[nearest].cells += uniqueCells[index];
+      } else {
+        clusters.push({ tile, members: [index], cells: uniqueCells[index], nearest: -1, distance: Infinity });
+      }
+    });
+    const similar = unique.length - clusters.length;
+
+    // 文字数の上限に収まるまで最も似た文字どうしをまとめる
+    const remaining = options.budget !== undefined && clusters.length > options.budget
+      ? ScreenConverter.mergeToBudget(clusters, unique, uniqueCells, options.budget)
+      : clusters;
+    const merged = clusters.length - remaining.length;
+
+    // 元の文字から使う文字への対応
+    const tileOf: number[] = [];
+    remaining.forEach((cluster, index) => cluster.members.forEach(member => { tileOf[member] = index; }));
+
+    return {
+      tiles: remaining.map(cluster => cluster.tile),
+      sources: remaining.map(cluster => cluster.members.map(member => unique[member])),
+      map: cellTiles.map(tile => tileOf[tile]),
+      columns,
+      rows,
+      identical: cellTiles.length - unique.length,
+      similar,
+      merged
+    };
+  }
+
+  /**
+   * 文字数の上限に収まるまで、最も似た2つのかたまりをまとめる
+   * かたまりどうしの差を表にしておき、かたまりごとに最も似たかたまりを覚えておく
+   * （まとめたかたまりとの差が変わったものだけ探し直す）
+   * @returns 残ったかたまり（先に現れた順）
+   */
+  private static mergeToBudget(
+    clusters: TileCluster[],
+    unique: X1Color[][],
+    uniqueCells: number[],
+    budget: number
+  ): TileCluster[] {
+    const size = clusters.length;
+    const alive = clusters.map(() => true);
+    const distances = new Uint16Array(size * size);
+    let count = size;
+
+    for (let i = 0; i < size; i++) {
+      for (let j = i + 1; j < size; j++) {
+        const distance = ScreenConverter.measureDistance(clusters[i].tile, clusters[j].tile);
+        distances[i * size + j] = distance;
+        distances[j * size + i] = distance;
+      }
+    }
+
+    const updateNearest = (index: number) => {
+      const cluster = clusters[index];
+      cluster.nearest = -1;
+      cluster.distance = Infinity;
+      for (let j = 0; j < size; j++) {
+        if (j !== index && alive[j] && distances[index * size + j] < cluster.distance) {
+          cluster.nearest = j;
+          cluster.distance = distances[index * size + j];
+        }
+      }
+    };
+    clusters.forEach((_, index) => updateNearest(index));
+
+    while (count > Math.max(1, budget)) {
+      // 最も似た組（差が同じなら先に現れたもの）
+      let first = -1;
+      clusters.forEach((cluster, index) => {
+        if (alive[index] && (first < 0 || cluster.distance < clusters[first].distance)) first = index;
+      });
+      const keep = Math.min(first, clusters[first].nearest);
+      const drop = Math.max(first, clusters[first].nearest);
+
+      // 後に現れたかたまりを先に現れたかたまりにまとめる
+      const target = clusters[keep];
+      target.members.push(...clusters[drop].members);
+      target.cells += clusters[drop].cells;
+      target.tile = ScreenConverter.blendTiles(
+        target.members.map(member => unique[member]),
+        target.members.map(member => uniqueCells[member])
+      );
+      alive[drop] = false;
+      count--;
+
+      // まとめたかたまりとの差を更新し、最も似たかたまりが変わりうるものだけ探し直す
+      for (let j = 0; j < size; j++) {
+        if (!alive[j] || j === keep) continue;
+        const distance = ScreenConverter.measureDistance(target.tile, clusters[j].tile);
+        distances[keep * size + j] = distance;
+        distances[j * size + keep] = distance;
+      }
+      updateNearest(keep);
+      clusters.forEach((cluster, index) => {
+        if (!alive[index] || index === keep) return;
+        const distance = distances[index * size + keep];
+        if (cluster.nearest === drop || (cluster.nearest === keep && distance > cluster.distance)) {
+          updateNearest(index);
+        } else if (distance < cluster.distance || (distance === cluster.distance && keep < cluster.nearest)) {
+          cluster.nearest = keep;
+          cluster.distance = distance;
+        }
+      });
+    }
+
+    return clusters.filter((_, index) => alive[index]);
+  }
+
+  /**
+   * 複数の文字を1つにまとめる（ドットごとに、セルの数で重み付けした最も多い色）
+   * @param tiles 元の文字
+   * @param weights 元の文字ごとの重み（使うセルの数）
+   */
+  private static blendTiles(tiles: X1Color[][], weights: number[]): X1Color[] {
+    const blended: X1Color[] = [];
+    for (let dot = 0; dot < TILE_DOTS; dot++) {
+      const votes = new Array<number>(8).fill(0);
+      tiles.forEach((tile, index) => { votes[tile[dot]] += weights[index]; });
+      blended.push(votes.indexOf(Math.max(...votes)) as X1Color);
+    }
+    return blended;
+  }
+
+  /**
+   * 2つの文字の差（異なるドットの色の差の合計）
+   */
+  private static measureDistance(a: X1Color[], b: X1Color[]): number {
+    let distance = 0;
+    for (let i = 0; i < TILE_DOTS; i++) {
+      distance += COLOR_DISTANCE[a[i]][b[i]];
+    }
+    return distance;
+  }
+
+  /**
+   * 2つの文字の異なるドット数
+   */
+  private static countDifference(a: X1Color[], b: X1Color[]): number {
+    let count = 0;
+    for (let i = 0; i < TILE_DOTS; i++) {
+      if (a[i] !== b[i]) count++;
+    }
+    return count;
+  }
+
+  /**
+   * 画像から1文字分のドットを取り出す
+   */
+  private static readTile(colors: X1Color[][], col: number, row: number): X1Color[] {
+    const tile: X1Color[] = [];
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        tile.push(colors[row * 8 + y][col * 8 + x]);
+      }
+    }
+    return tile;
+  }
+
+  /**
+   * 許容するドット数以内で最も似た文字を探す
+   * @returns tilesの添字（見つからなければ-1）
+   */
+  private static findNearest(tiles: X1Color[][], tile: X1Color[], tolerance: number): number {
+    let nearest = -1;
+    let best = tolerance + 1;
+    tiles.forEach((candidate, index) => {
+      const difference = ScreenConverter.countDifference(candidate, tile);
+      if (difference < best) {
+        nearest = index;
+        best = difference;
+      }
+    });
+    return nearest;
+  }
+}
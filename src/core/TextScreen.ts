@@ -0,0 +1,322 @@
+/**
+ * テキスト画面データ管理クラス
+ * X1のテキスト画面（40x25 / 80x25）に並べる文字コードとアトリビュートを管理する
+ *
+ * データ構造:
+ * - 常に80x25分（TEXT_VRAM_SIZE）を保持し、セルのインデックスは 行*80+桁
+ * - WIDTH40では左40桁のみを使用（桁数を切り替えても右側の内容は残る）
+ * - アトリビュートのbit5（TEXT_ATTR.PCG）が立っているセルはPCG、それ以外はROMフォントを表示
+ * - 倍角のセルは左（上）から2つずつ組になり、組の先頭のセルが2文字分の大きさで表示される
+ *
+ * 更新通知:
+ * - 変更のたびに screen-updated を発火する（PCGDataと同じくバッチ更新に対応）
+ */
+
+import {
+  EventType,
+  EventHandler,
+  ScreenMode,
+  ScreenUpdatedEvent,
+  TextCell,
+  TEXT_VRAM_SIZE,
+  TEXT_ROWS,
+  TEXT_COLUMNS,
+  TEXT_ATTR,
+  TEXT_ATTR_DEFAULT
+} from './types';
+
+/** 内部データの1行の桁数 */
+const STRIDE = TEXT_COLUMNS.WIDTH80;
+
+/** 空白セルの文字コード（ROMフォントのスペース） */
+export const TEXT_BLANK_CODE = 0x20;
+
+/** 保存用のデータ（80x25分をそのまま保持） */
+export interface TextScreenSaveData {
+  mode: ScreenMode;
+  codes: Uint8Array;
+  attrs: Uint8Array;
+}
+
+export class TextScreen {
+  /** 文字コード（80x25） */
+  private codes: Uint8Array;
+
+  /** アトリビュート（80x25） */
+  private attrs: Uint8Array;
+
+  /** 画面モード */
+  private _mode: ScreenMode = 'WIDTH40';
+
+  /** イベントリスナー */
+  private listeners: Map<EventType, Set<EventHandler>> = new Map();
+
+  /** バッチ更新のネスト数 */
+  private batchDepth: number = 0;
+
+  /** バッチ更新中に変更されたセル */
+  private batchCells: Set<number> = new Set();
+
+  /** バッチ更新中に画面全体が変わったか */
+  private batchFull: boolean = false;
+
+  constructor() {
+    this.codes = new Uint8Array(TEXT_VRAM_SIZE);
+    this.attrs = new Uint8Array(TEXT_VRAM_SIZE);
+    this.clear();
+  }
+
+  // === Getters ===
+  get mode(): ScreenMode { return this._mode; }
+  get columns(): number { return TEXT_COLUMNS[this._mode]; }
+  get rows(): number { return TEXT_ROWS; }
+
+  /**
+   * 画面全体を空白にする
+   */
+  clear(): void {
+    this.codes.fill(TEXT_BLANK_CODE);
+    this.attrs.fill(TEXT_ATTR_DEFAULT);
+    this.notifyUpdated(-1);
+  }
+
+  /**
+   * 画面モード（桁数）を設定
+   */
+  setMode(mode: ScreenMode): void {
+    if (this._mode === mode) return;
+    this._mode = mode;
+    this.notifyUpdated(-1);
+  }
+
+  /**
+   * 座標が現在の画面内か
+   */
+  isInside(col: number, row: number): boolean {
+    return col >= 0 && col < this.columns && row >= 0 && row < TEXT_ROWS;
+  }
+
+  /**
+   * セルのインデックスを取得（行*80+桁）
+   */
+  static cellIndex(col: number, row: number): number {
+    return row * STRIDE + col;
+  }
+
+  /**
+   * セルのインデックスから座標を取得
+   */
+  static cellPosition(index: number): { col: number; row: number } {
+    return { col: index % STRIDE, row: Math.floor(index / STRIDE) };
+  }
+
+  /**
+   * セルの内容を取得
+   */
+  getCell(col: number, row: number): TextCell {
+    const index = TextScreen.cellIndex(col, row);
+    return { code: this.codes[index], attr: this.attrs[index] };
+  }
+
+  /**
+   * セルの内容を設定（画面外は無視）
+   * @returns 内容が変わった場合はtrue
+   */
+  setCell(col: number, row: number, code: number, attr: number): boolean {
+    if (col < 0 || col >= STRIDE || row < 0 || row >= TEXT_ROWS) return false;
+
+    const index = TextScreen.cellIndex(col, row);
+    if (this.codes[index] === (code & 0xFF) && this.attrs[index] === (attr & 0xFF)) {
+      return false;
+    }
+    this.codes[index] = code & 0xFF;
+    this.attrs[index] = attr & 0xFF;
+    this.notifyUpdated(index);
+    return true;
+  }
+
+  /**
+   * 横倍角の組の先頭（左側）か
+   * 横倍角のセルが続く場合は左から2つずつ組にする
+   */
+  isDoubleWidthHead(col: number, row: number): boolean {
+    return this.isPairHead(col, row, TEXT_ATTR.DOUBLE_WIDTH, -1, 0);
+  }
+
+  /**
+   * 縦倍角の組の先頭（上側）か
+   * 縦倍角のセルが続く場合は上から2つずつ組にする
+   */
+  isDoubleHeightHead(col: number, row: number): boolean {
+    return this.isPairHead(col, row, TEXT_ATTR.DOUBLE_HEIGHT, 0, -1);
+  }
+
+  /**
+   * 倍角の文字に覆われて表示されないセルか
+   */
+  isCovered(col: number, row: number): boolean {
+    if (col > 0 && this.isDoubleWidthHead(col - 1, row)) return true;
+    if (row > 0 && this.isDoubleHeightHead(col, row - 1)) return true;
+    // 縦横倍角の右下
+    return col > 0 && row > 0 &&
+      this.isDoubleWidthHead(col - 1, row - 1) && this.isDoubleHeightHead(col - 1, row - 1);
+  }
+
+  /**
+   * 倍角の組の先頭か（同じ倍角のセルが手前に偶数個続いていれば先頭）
+   */
+  private isPairHead(col: number, row: number, bit: number, dx: number, dy: number): boolean {
+    if (!(this.attrs[TextScreen.cellIndex(col, row)] & bit)) return false;
+
+    let count = 0;
+    for (let c = col + dx, r = row + dy; c >= 0 && r >= 0; c += dx, r += dy) {
+      if (!(this.attrs[TextScreen.cellIndex(c, r)] & bit)) break;
+      count++;
+    }
+    return count % 2 === 0;
+  }
+
+  /**
+   * 現在の桁数でテキストVRAMの並び（左上から横方向）に変換
+   * @returns 文字コードとアトリビュート（各 桁数*25 バイト）
+   */
+  getVram(): { text: Uint8Array; attr: Uint8Array } {
+    const columns = this.columns;
+    const text = new Uint8Array(columns * TEXT_ROWS);
+    const attr = new Uint8Array(columns * TEXT_ROWS);
+    for (let row = 0; row < TEXT_ROWS; row++) {
+      const src = row * STRIDE;
+      text.set(this.codes.subarray(src, src + columns), row * columns);
+      attr.set(this.attrs.subarray(src, src + columns), row * columns);
+    }
+    return { text, attr };
+  }
+
+  /**
+   * テキストVRAMの並びから画面を設定
+   * @param mode 画面モード（データの桁数）
+   * @param text 文字コード（桁数*25 バイト）
+   * @param attr アトリビュート（桁数*25 バイト）
+   */
+  setVram(mode: ScreenMode, text: Uint8Array, attr: Uint8Array): void {
+    const columns = TEXT_COLUMNS[mode];
+    if (text.length !== columns * TEXT_ROWS || attr.length !== columns * TEXT_ROWS) {
+      throw new Error(`Screen data must be ${columns * TEXT_ROWS} bytes`);
+    }
+
+    this.batch(() => {
+      this.clear();
+      this._mode = mode;
+      for (let row = 0; row < TEXT_ROWS; row++) {
+        const dst = row * STRIDE;
+        this.codes.set(text.subarray(row * columns, (row + 1) * columns), dst);
+        this.attrs.set(attr.subarray(row * columns, (row + 1) * columns), dst);
+      }
+      this.notifyUpdated(-1);
+    });
+  }
+
+  // === シリアライズ ===
+
+  toSaveData(): TextScreenSaveData {
+    return {
+      mode: this._mode,
+      codes: new Uint8Array(this.codes),
+      attrs: new Uint8Array(this.attrs)
+    };
+  }
+
+  /**
+   * 保存データから復元（サイズが合わない場合は何もしない）
+   */
+  fromSaveData(data: TextScreenSaveData): void {
+    if (data.codes.length !== TEXT_VRAM_SIZE || data.attrs.length !== TEXT_VRAM_SIZE) return;
+    this.codes.set(data.codes);
+    this.attrs.set(data.attrs);
+    this._mode = data.mode === 'WIDTH80' ? 'WIDTH80' : 'WIDTH40';
+    this.notifyUpdated(-1);
+  }
+
+  /**
+   * バッチ更新を開始
+   * commitBatch()までの変更通知を保留する（ネスト可能）
+   */
+  beginBatch(): void {
+    this.batchDepth++;
+  }
+
+  /**
+   * バッチ更新を確定
+   * 最も外側のcommitBatch()で、変更されたセルをまとめて1回だけ通知する
+   */
+  commitBatch(): void {
+    if (this.batchDepth === 0) return;
+    this.batchDepth--;
+    if (this.batchDepth > 0 || (!this.batchFull && this.batchCells.size === 0)) return;
+
+    const event: ScreenUpdatedEvent = this.batchFull
+      ? { cells: [], full: true }
+      : { cells: [...this.batchCells].sort((a, b) => a - b), full: false };
+    this.batchCells.clear();
+    this.batchFull = false;
+    this.emit('screen-updated', event);
+  }
+
+  /**
+   * 関数の実行中をバッチ更新として扱う
+   * @param fn 実行する処理（例外時もバッチは確定される）
+   * @returns fnの戻り値
+   */
+  batch<T>(fn: () => T): T {
+    this.beginBatch();
+    try {
+      return fn();
+    } finally {
+      this.commitBatch();
+    }
+  }
+
+  /**
+   * 変更を通知（バッチ中は保留）
+   * @param index 変更されたセル（-1 = 全体）
+   */
+  private notifyUpdated(index: number): void {
+    if (this.batchDepth > 0) {
+      if (index < 0) {
+        this.batchFull = true;
+      } else {
+        this.batchCells.add(index);
+      }
+      return;
+    }
+
+    const event: ScreenUpdatedEvent = index < 0
+      ? { cells: [], full: true }
+      : { cells: [index], full: false };
+    this.emit('screen-updated', event);
+  }
+
+  /**
+   * イベントリスナーを登録
+   */
+  on(event: EventType, handler: EventHandler): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(handler);
+  }
+
+  /**
+   * イベントリスナーを解除
+   */
+  off(event: EventType, handler: EventHandler): void {
+    this.listeners.get(event)?.delete(handler);
+  }
+
+  /**
+   * イベントを発火
+   */
+  private emit(event: EventType, data: unknown): void {
+    this.listeners.get(event)?.forEach(handler => handler(data));
+  }
+}
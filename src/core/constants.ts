@@ -8,7 +8,10 @@ export const STORAGE_KEYS = {
   PCG_DATA: 'defchr-pcgdata',
   EDIT_BUFFER: 'defchr-editbuffer',
   EDITOR_STATE: 'defchr-state',
-  FONT_DATA: 'defchr-fontdata'
+  FONT_DATA: 'defchr-fontdata',
+  HISTORY: 'defchr-history',
+  SCREEN: 'defchr-screen',
+  ANIMATION: 'defchr-animation'
 } as const;
 
 /** X1パレット（RGB値） */
@@ -31,6 +34,9 @@ export const EDITOR_SIZE = {
   CHARS_Y: 2,         // 縦2文字
 } as const;
 
+/** 編集バッファで2x2文字として使う文字コード（左上・右上・左下・右下） */
+export const EDIT_BUFFER_CODES = [0, 1, 16, 17] as const;
+
 /** PCG定義エリアサイズ */
 export const DEFINITION_SIZE = {
   CHARS_X: 16,        // 横16文字
@@ -44,5 +50,24 @@ export const STATUS_MESSAGE_DURATION = 2000;
 /** 自動保存のデバウンス時間（ms） */
 export const AUTO_SAVE_DELAY = 500;
 
+/** アニメーションのフレーム表示時間（ms） */
+export const ANIMATION_DURATION = {
+  DEFAULT: 200,
+  MIN: 20,
+  MAX: 9999
+} as const;
+
+/** アニメーションの最大フレーム数 */
+export const ANIMATION_MAX_FRAMES = 64;
+
+/** UNDO/REDOの最大ステップ数 */
+export const HISTORY_LIMIT = 20;
+
 /** BAS形式の行番号開始 */
 export const BAS_LINE_START = 60960;
+
+/** BAS形式の行番号の増分 */
+export const BAS_LINE_STEP = 10;
+
+/** BAS形式の行番号の上限 */
+export const BAS_LINE_MAX = 65529;
@@ -16,6 +16,50 @@ export const FONT_HEIGHT = 8;
 /** 画面モード */
 export type ScreenMode = 'WIDTH40' | 'WIDTH80';
 
+/** テキスト画面の行数 */
+export const TEXT_ROWS = 25;
+
+/** 画面モードごとのテキスト画面の桁数 */
+export const TEXT_COLUMNS: Record<ScreenMode, number> = {
+  WIDTH40: 40,
+  WIDTH80: 80
+};
+
+/** テキストアトリビュートのビット */
+export const TEXT_ATTR = {
+  /** 文字色（bit0=B, bit1=R, bit2=G） */
+  COLOR_MASK: 0x07,
+  /** 反転 */
+  REVERSE: 0x08,
+  /** 点滅 */
+  BLINK: 0x10,
+  /** PCGを表示（0ならROMフォント） */
+  PCG: 0x20,
+  /** 縦倍角 */
+  DOUBLE_HEIGHT: 0x40,
+  /** 横倍角 */
+  DOUBLE_WIDTH: 0x80
+} as const;
+
+/** テキストアトリビュートの初期値（白・ROMフォント） */
+export const TEXT_ATTR_DEFAULT = 0x07;
+
+/** テキスト画面の1文字分 */
+export interface TextCell {
+  code: number;
+  attr: number;
+}
+
+/** アニメーションの1フレーム */
+export interface AnimationFrame {
+  /** 文字コード（2x2の場合は左上） */
+  code: number;
+  /** 2x2文字（4Chr.スベテと同じく code, +1, +16, +17 の並び）として表示するか */
+  quad: boolean;
+  /** 表示時間（ms） */
+  duration: number;
+}
+
 /** 色定義（X1の8色） */
 export const X1_COLORS = {
   BLACK: 0,
@@ -55,11 +99,28 @@ export type EventType =
   | 'pcg-updated'
   | 'cursor-moved'
   | 'screen-refresh'
-  | 'mode-changed';
+  | 'mode-changed'
+  | 'screen-updated';
 
 /** イベントハンドラ */
 export type EventHandler<T = unknown> = (data: T) => void;
 
+/** pcg-updated イベントのデータ */
+export interface PCGUpdatedEvent {
+  /** 変更されたキャラクターコード（複数文字・全体の場合は-1） */
+  code: number;
+  /** 変更されたキャラクターコードの一覧（昇順） */
+  codes: number[];
+}
+
+/** screen-updated イベントのデータ */
+export interface ScreenUpdatedEvent {
+  /** 変更されたセルのインデックス（行*80+桁、昇順）。画面全体の場合は空 */
+  cells: number[];
+  /** 画面全体が変わったか（桁数の切り替え・読み込み） */
+  full: boolean;
+}
+
 /** 編集モード（EDIT MODE） */
 export enum EditMode {
   /** 4Chr.ベツベツ - 2x2のエリアを無関係の4文字として扱う */
@@ -72,12 +133,33 @@ export enum EditMode {
   ALL = 3
 }
 
+/** 描画ツール */
+export type DrawTool =
+  | 'dot'       // 1ドット描画
+  | 'line'      // 直線
+  | 'rect'      // 矩形
+  | 'fillrect'  // 塗りつぶし矩形
+  | 'ellipse'   // 楕円
+  | 'fill'      // 塗りつぶし（4方向）
+  | 'select';   // 矩形選択
+
+/** 描画ツールの切り替え順 */
+export const DRAW_TOOLS: DrawTool[] = ['dot', 'line', 'rect', 'fillrect', 'ellipse', 'fill', 'select'];
+
 /** 位置を表すインターフェース */
 export interface Position {
   x: number;
   y: number;
 }
 
+/** 矩形範囲（ドット座標） */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 /** カーソル移動方向 */
 export enum Direction {
   UP = 'up',
@@ -3,20 +3,21 @@
  * 各イベントタイプに対応する型安全なデータ構造を提供
  */
 
-import { Direction, X1Color } from '../core/types';
+import { Direction, X1Color, AnimationFrame } from '../core/types';
 
 /** 入力モード */
 export type InputMode =
   | 'edit'      // 通常編集モード
   | 'editchr'   // EDIT CHR.（文字コード入力待ち）
   | 'setchr'    // SET CHR.（文字コード入力待ち）
-  | 'menu';     // メニュー表示中
+  | 'menu'      // メニュー表示中
+  | 'screen';   // テキスト画面（マップ）編集中
 
 /** 入力モード（キーボード/マウス） */
 export type InputDeviceMode = 'keyboard' | 'mouse';
 
 /** ファイルフォーマット */
-export type FileFormat = 'image' | 'bin' | 'bin3' | 'bas';
+export type FileFormat = 'image' | 'bin' | 'bin3' | 'bas' | 'asm' | 'c';
 
 /** 減色モード */
 export type ColorReduceMode = 'none' | 'reduce' | 'dither' | 'edfs' | 'retro';
@@ -32,9 +33,100 @@ export type RotationType =
   | 'flipH'    // 6: 上下フリップ
   | 'flipV';   // 7: 左右フリップ
 
+/** 矩形選択の操作 */
+export type SelectionOp =
+  | 'copy'     // Ctrl+C: コピー
+  | 'cut'      // Ctrl+X: 切り取り
+  | 'paste'    // Ctrl+V: 貼り付け（フローティング）
+  | 'all'      // Ctrl+A: 全体を選択
+  | 'commit'   // Enter: フローティングを確定
+  | 'delete';  // Delete: 消去
+
+/** テキスト画面（マップ）編集の操作 */
+export type ScreenOp =
+  | 'enter'          // V: テキスト画面エディタを開く
+  | 'exit'           // V/Esc: 文字編集に戻る
+  | 'put'            // Space/Enter: カーソル位置に置いて右へ進む
+  | 'erase'          // Delete/BS: カーソル位置を空白にする
+  | 'pick'           // P: カーソル位置の文字を拾う
+  | 'toggle-source'  // G: PCG/ROMフォントの切り替え
+  | 'toggle-width'   // W: 40桁/80桁の切り替え
+  | 'paint-attr'     // A: カーソル位置のアトリビュートだけを書き換え
+  | 'save'           // S: マップファイルを保存
+  | 'load'           // L: マップファイルを読み込み
+  | 'export-vram';   // E: テキストVRAMとアトリビュートVRAMを書き出し
+
+/** テキスト画面エディタで切り替えるアトリビュート */
+export type ScreenAttrToggle = 'reverse' | 'blink' | 'double-height' | 'double-width';
+
+/** BINのデータの並び（プレーンの順序・並べ方・先頭のヘッダのバイト数） */
+export interface BinLayoutParams {
+  planeOrder: 'BRG' | 'BGR' | 'RBG' | 'RGB' | 'GBR' | 'GRB';
+  arrangement: 'char' | 'row' | 'plane';
+  offset: number;
+}
+
+/** 画像の読み込み先（'pcg': 開始コードから順に、'screen': 40x25のテキスト画面とS〜EのPCGに変換） */
+export type ImageTarget = 'pcg' | 'screen';
+
+/** 画像の読み込み設定（切り出す範囲はドット単位、幅・高さが0なら画像の端まで） */
+export interface ImageImportParams {
+  target: ImageTarget;
+  /** 似た文字としてまとめる、異なるドット数の上限（SCREENのみ、0なら同じ文字だけ） */
+  tolerance: number;
+  /** S〜Eに収まらない場合に、収まるまで似た文字をまとめるか（SCREENのみ） */
+  merge: boolean;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  scale: 'none' | 'fit';
+  order: 'row' | 'meta';
+}
+
 /** BAS保存形式 */
 export type BasSaveFormat = 'asc' | 'bin';
 
+/** BASICの中間コードの方言（autoは読み込み時に自動判定） */
+export type BasDialect = 'auto' | 'hu' | 'disk' | 'turbo';
+
+/** BASプログラムの生成設定（DATAローダーとテスト表示はASCII形式のみ） */
+export interface BasProgramParams {
+  lineStart: number;
+  lineStep: number;
+  loader: 'defchr' | 'data';
+  testGrid: boolean;
+  /** 既存のプログラムに書き足すか（FILEのみ） */
+  merge: boolean;
+  /** 中間コードの方言（バイナリ形式のみ） */
+  dialect: Exclude<BasDialect, 'auto'>;
+}
+
+/** アセンブラの書式 */
+export type AsmSyntax = 'generic' | 'sjasmplus' | 'z80asm';
+
+/** アセンブラソース書き出しのパラメータ */
+export interface AsmExportParams {
+  syntax: AsmSyntax;
+  /** 三倍速定義の並びにするか */
+  x3mode: boolean;
+  /** PCGへ書き込むルーチンを付けるか */
+  routine: boolean;
+}
+
+/** C言語ヘッダ書き出しのパラメータ */
+export interface CHeaderExportParams {
+  /** 三倍速定義の並びにするか */
+  x3mode: boolean;
+}
+
+/** ディスクイメージ（D88）・テープイメージ（TAP）の使い方 */
+export type DiskTarget =
+  | 'none'   // ディスクイメージを使わない（ファイルを直接保存/読み込み）
+  | 'new'    // 新しいディスクイメージに保存
+  | 'open'   // 既存のディスクイメージに保存/から読み込み
+  | 'tape';  // テープイメージに保存
+
 /** TRANSFER操作のパラメータ */
 export interface TransferParams {
   start: number;
@@ -48,8 +140,111 @@ export interface FileParams {
   start: number;
   end: number;
   basLoadMode?: 'start' | 'original';
+  basDialect?: BasDialect;
   reduceMode?: ColorReduceMode;
+  imageImport?: ImageImportParams;
+  binLayout?: BinLayoutParams;
   basFormat?: BasSaveFormat;
+  basProgram?: BasProgramParams;
+  asm?: AsmExportParams;
+  cHeader?: CHeaderExportParams;
+  disk?: DiskTarget;
+  /** ディスク/テープイメージ内のファイル名（拡張子なし） */
+  diskFileName?: string;
+  /** ディスク/テープイメージに書き込むBINの読み込み・実行アドレス */
+  loadAddress?: number;
+  execAddress?: number;
+}
+
+/** ディスクイメージ内のファイル（一覧表示用） */
+export interface DiskFileInfo {
+  /** ディレクトリ内の位置 */
+  index: number;
+  name: string;
+  /** 属性（BIN / BAS / ASC） */
+  type: string;
+  size: number;
+}
+
+/** 読み込み結果の報告の1項目 */
+export interface LoadIssueInfo {
+  kind: 'skipped' | 'out-of-range' | 'trailing' | 'clipped' | 'merged';
+  /** BASICの行番号（行番号のないテキストの場合は何行目か） */
+  line?: number;
+  message: string;
+}
+
+/** 似た文字をまとめた結果の1文字（画像のSCREENのみ） */
+export interface TileMergeInfo {
+  /** 書き込む文字コード */
+  code: number;
+  /** 書き込む文字（64ドット） */
+  tile: X1Color[];
+  /** まとめる前の元の文字 */
+  sources: X1Color[][];
+}
+
+/** BASICプログラムの一覧表示の1行 */
+export interface BasListingLineInfo {
+  /** 行番号（行番号のないテキストの場合は何行目か） */
+  number: number;
+  /** 行番号を除いたテキスト */
+  text: string;
+  /** DEFCHR$で文字を定義する行か（'skipped'は定義できなかった文を含む行） */
+  status: 'defined' | 'skipped' | null;
+  /** 定義できなかった理由 */
+  message?: string;
+}
+
+/** 読み込みプレビューの内容（確定するまでPCGには書き込まない） */
+export interface LoadPreviewInfo {
+  /** 読み込むファイル名 */
+  source: string;
+  /** 開始文字コード（nullならファイル内のコードのまま読み込むため変更できない） */
+  start: number | null;
+  /** 読み込む文字コード（昇順） */
+  codes: number[];
+  /** 定義済みの文字を書き換える文字コード（昇順） */
+  overwritten: number[];
+  /** 読み込めなかった行や余ったデータなどの報告 */
+  issues: LoadIssueInfo[];
+  /** 読み込めない場合の理由 */
+  error?: string;
+  /** 中間コードの方言（BASのバイナリ形式のみ） */
+  dialect?: string;
+  /** プログラムの一覧（BASのみ） */
+  listing?: BasListingLineInfo[];
+  /** 似た文字をまとめた文字（画像のSCREENのみ） */
+  merges?: TileMergeInfo[];
+}
+
+/** クリップボード操作の対象 */
+export type ClipboardTarget = 'edit' | 'code';
+
+/** クリップボード操作のパラメータ */
+export interface ClipboardParams {
+  target: ClipboardTarget;
+  start: number;
+  end: number;
+  reduceMode: ColorReduceMode;
+}
+
+/** アニメーションパネルで編集するフレーム列 */
+export interface AnimationParams {
+  frames: AnimationFrame[];
+  loop: boolean;
+}
+
+/** アニメーションGIF書き出しのパラメータ */
+export interface GifExportParams {
+  scale: number;
+  transparent: boolean;
+}
+
+/** pasteイベントから取り出したクリップボードの内容 */
+export interface ClipboardPasteContent {
+  text: string | null;
+  image: Blob | null;
 }
 
 /** マウス座標（ドット座標） */
@@ -58,6 +253,12 @@ export interface MouseDotPosition {
   dotY: number;
 }
 
+/** マウス座標（テキスト画面のセル座標） */
+export interface MouseCellPosition {
+  col: number;
+  row: number;
+}
+
 /**
  * Discriminated Union型の入力イベント
  * 各イベントタイプに固有のデータ構造を持つ
@@ -79,11 +280,31 @@ export type InputEvent =
   | { type: 'color-change'; data: { colorMap: number[] } }
   | { type: 'toggle-input-mode' }
   | { type: 'mouse-draw'; data: { mousePos: MouseDotPosition } }
+  | { type: 'mouse-draw-end' }
   | { type: 'file-save'; data: { file: FileParams } }
   | { type: 'file-load'; data: { file: FileParams } }
+  | { type: 'disk-file-load'; data: { index: number } }
+  | { type: 'load-preview-update'; data: { start: number; clip: boolean } }
+  | { type: 'load-preview-confirm' }
+  | { type: 'load-preview-cancel' }
+  | { type: 'clipboard-copy'; data: { clipboard: ClipboardParams } }
+  | { type: 'clipboard-paste'; data: { clipboard: ClipboardParams; content?: ClipboardPasteContent } }
+  | { type: 'animation-update'; data: { animation: AnimationParams } }
+  | { type: 'animation-play' }
+  | { type: 'animation-export'; data: { gif: GifExportParams } }
   | { type: 'toggle-width' }
   | { type: 'load-font' }
   | { type: 'home' }
+  | { type: 'tool-change' }
+  | { type: 'selection'; data: { op: SelectionOp } }
+  | { type: 'screen'; data: { op: ScreenOp } }
+  | { type: 'screen-cursor-move'; data: { direction: Direction; fast: boolean } }
+  | { type: 'screen-brush'; data: { delta: number } }
+  | { type: 'screen-color'; data: { color: X1Color } }
+  | { type: 'screen-attr'; data: { flag: ScreenAttrToggle } }
+  | { type: 'screen-mouse'; data: { cell: MouseCellPosition } }
+  | { type: 'undo' }
+  | { type: 'redo' }
   | { type: 'cancel' };
 
 /** 入力イベントのタイプ一覧（型推論用） */
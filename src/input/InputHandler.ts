@@ -7,9 +7,27 @@ import {
   InputMode,
   InputDeviceMode,
   FileFormat,
+  FileParams,
   ColorReduceMode,
   RotationType,
   BasSaveFormat,
+  BasDialect,
+  BasProgramParams,
+  BinLayoutParams,
+  ImageImportParams,
+  ImageTarget,
+  AsmExportParams,
+  CHeaderExportParams,
+  DiskTarget,
+  DiskFileInfo,
+  LoadPreviewInfo,
+  TileMergeInfo,
+  LoadIssueInfo,
+  SelectionOp,
+  ClipboardParams,
+  ScreenOp,
+  AnimationParams,
+  GifExportParams,
   InputEvent,
   InputEventCallback
 } from './InputEventTypes';
@@ -22,9 +40,27 @@ export type {
   InputMode,
   InputDeviceMode,
   FileFormat,
+  FileParams,
   ColorReduceMode,
   RotationType,
   BasSaveFormat,
+  BasDialect,
+  BasProgramParams,
+  BinLayoutParams,
+  ImageImportParams,
+  ImageTarget,
+  AsmExportParams,
+  CHeaderExportParams,
+  DiskTarget,
+  DiskFileInfo,
+  LoadPreviewInfo,
+  TileMergeInfo,
+  LoadIssueInfo,
+  SelectionOp,
+  ClipboardParams,
+  ScreenOp,
+  AnimationParams,
+  GifExportParams,
   InputEvent,
   InputEventCallback
 };
@@ -94,6 +130,56 @@ export class InputHandler {
     this.mouseHandler.setEditorAreaInfo(offsetX, offsetY, dotSize, scale);
   }
 
+  /**
+   * テキスト画面の桁数を設定（マウス座標計算用）
+   */
+  setScreenColumns(columns: number): void {
+    this.mouseHandler.setScreenColumns(columns);
+  }
+
+  /**
+   * アニメーションパネルのフレーム一覧を設定（保存データの復元時など）
+   */
+  setAnimation(animation: AnimationParams): void {
+    this.panelManager.setAnimation(animation);
+  }
+
+  /**
+   * アニメーションパネルに再生状態を表示
+   * @param frameIndex 表示中のフレーム番号
+   * @param playing 再生中か
+   */
+  setAnimationState(frameIndex: number, playing: boolean): void {
+    this.panelManager.setAnimationState(frameIndex, playing);
+  }
+
+  /**
+   * ディスクイメージのファイル一覧を表示して、読み込むファイルを選ばせる
+   * @param diskName ディスクイメージのファイル名
+   * @param files ファイル一覧
+   */
+  showDiskFiles(diskName: string, files: DiskFileInfo[]): void {
+    this.setMode('menu');
+    this.panelManager.showDiskUI(diskName, files);
+  }
+
+  /**
+   * 読み込みプレビューを表示して、読み込むかどうかを確認する
+   * @param info プレビューの内容
+   */
+  showLoadPreview(info: LoadPreviewInfo): void {
+    this.setMode('menu');
+    this.panelManager.showLoadPreviewUI(info);
+  }
+
+  /**
+   * 読み込みプレビューの内容を更新（開始文字コードやCLIPを変えたとき）
+   * @param info プレビューの内容
+   */
+  updateLoadPreview(info: LoadPreviewInfo): void {
+    this.panelManager.updateLoadPreview(info);
+  }
+
   /**
    * 入力デバイスモードを取得
    */
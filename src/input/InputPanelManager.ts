@@ -7,9 +7,30 @@ import {
   InputEvent,
   FileFormat,
   ColorReduceMode,
-  BasSaveFormat
+  BasSaveFormat,
+  BasDialect,
+  BasProgramParams,
+  BinLayoutParams,
+  ImageImportParams,
+  ImageTarget,
+  AsmExportParams,
+  CHeaderExportParams,
+  AsmSyntax,
+  DiskTarget,
+  DiskFileInfo,
+  LoadPreviewInfo,
+  LoadIssueInfo,
+  BasListingLineInfo,
+  ClipboardTarget,
+  ClipboardParams,
+  ClipboardPasteContent,
+  AnimationParams,
+  GifExportParams
 } from './InputEventTypes';
 import { getRotationTypeFromNumber } from './KeyBindings';
+import { AnimationSequence } from '../core/AnimationSequence';
+import { AnimationFrame } from '../core/types';
+import { ANIMATION_DURATION, ANIMATION_MAX_FRAMES } from '../core/constants';
 
 /** プロンプトコールバック */
 type PromptCallback = (value: string | null) => void;
@@ -60,9 +81,97 @@ export class InputPanelManager {
   private basLoadModeRow: HTMLElement | null = null;
   private basSaveFormatRow: HTMLElement | null = null;
   private basSaveFormatRadios: NodeListOf<HTMLInputElement> | null = null;
+  private binLayoutRow: HTMLElement | null = null;
+  private binLayoutRadios: NodeListOf<HTMLInputElement> | null = null;
+  private binCustomRow: HTMLElement | null = null;
+  private binPlaneOrderField: HTMLInputElement | null = null;
+  private binArrangementRadios: NodeListOf<HTMLInputElement> | null = null;
+  private binHeaderRow: HTMLElement | null = null;
+  private binHeaderField: HTMLInputElement | null = null;
+  private basLinesRow: HTMLElement | null = null;
+  private basLineStartField: HTMLInputElement | null = null;
+  private basLineStepField: HTMLInputElement | null = null;
+  private basLoaderRow: HTMLElement | null = null;
+  private basLoaderRadios: NodeListOf<HTMLInputElement> | null = null;
+  private basTestGridCheckbox: HTMLInputElement | null = null;
+  private basMergeCheckbox: HTMLInputElement | null = null;
   private imageReduceModeRow: HTMLElement | null = null;
   private imageReduceModeRadios: NodeListOf<HTMLInputElement> | null = null;
+  private imageTargetRow: HTMLElement | null = null;
+  private imageTargetRadios: NodeListOf<HTMLInputElement> | null = null;
+  private imageToleranceGroup: HTMLElement | null = null;
+  private imageToleranceField: HTMLInputElement | null = null;
+  private imageMergeLabel: HTMLElement | null = null;
+  private imageMergeCheckbox: HTMLInputElement | null = null;
+  private imageScaleFitLabel: HTMLElement | null = null;
+  private imageCropRow: HTMLElement | null = null;
+  private imageCropFields: HTMLInputElement[] = [];
+  private imageScaleRow: HTMLElement | null = null;
+  private imageScaleRadios: NodeListOf<HTMLInputElement> | null = null;
+  private imageOrderRow: HTMLElement | null = null;
+  private imageOrderRadios: NodeListOf<HTMLInputElement> | null = null;
   private basLoadModeRadios: NodeListOf<HTMLInputElement> | null = null;
+  private basDialectRow: HTMLElement | null = null;
+  private basDialectRadios: NodeListOf<HTMLInputElement> | null = null;
+  private asmSyntaxRow: HTMLElement | null = null;
+  private asmSyntaxRadios: NodeListOf<HTMLInputElement> | null = null;
+  private exportLayoutRow: HTMLElement | null = null;
+  private exportLayoutRadios: NodeListOf<HTMLInputElement> | null = null;
+  private asmRoutineCheckbox: HTMLInputElement | null = null;
+  private asmRoutineLabel: HTMLElement | null = null;
+  private progDiskRow: HTMLElement | null = null;
+  private progDiskRadios: NodeListOf<HTMLInputElement> | null = null;
+  private progDiskNameRow: HTMLElement | null = null;
+  private progDiskNameField: HTMLInputElement | null = null;
+  private progAddressRow: HTMLElement | null = null;
+  private progError: HTMLElement | null = null;
+  private progLoadAddressField: HTMLInputElement | null = null;
+  private progExecAddressField: HTMLInputElement | null = null;
+  private progExecAddressGroup: HTMLElement | null = null;
+
+  // D88ファイル選択 エリア
+  private diskArea: HTMLElement | null = null;
+  private diskTitle: HTMLElement | null = null;
+  private diskFileList: HTMLElement | null = null;
+
+  // 読み込みプレビュー
+  private loadPreviewArea: HTMLElement | null = null;
+  private loadPreviewTitle: HTMLElement | null = null;
+  private loadPreviewStartField: HTMLInputElement | null = null;
+  private loadPreviewClipCheckbox: HTMLInputElement | null = null;
+  private loadPreviewClipLabel: HTMLElement | null = null;
+  private loadPreviewLog: HTMLElement | null = null;
+  private loadPreviewSummary: HTMLElement | null = null;
+  private loadPreviewOkBtn: HTMLButtonElement | null = null;
+  private loadPreviewListing: HTMLElement | null = null;
+  private loadPreviewListBtn: HTMLButtonElement | null = null;
+  private loadPreviewMerges: HTMLElement | null = null;
+  private loadPreviewMergeBtn: HTMLButtonElement | null = null;
+
+  // CLIPBOARD エリア
+  private clipboardArea: HTMLElement | null = null;
+  private clipModeRadios: NodeListOf<HTMLInputElement> | null = null;
+  private clipTargetRadios: NodeListOf<HTMLInputElement> | null = null;
+  private clipRangeRow: HTMLElement | null = null;
+  private clipStartField: HTMLInputElement | null = null;
+  private clipEndField: HTMLInputElement | null = null;
+  private clipReduceModeRow: HTMLElement | null = null;
+  private clipReduceModeRadios: NodeListOf<HTMLInputElement> | null = null;
+
+  // ANIMATION エリア
+  private animationArea: HTMLElement | null = null;
+  private animFrameList: HTMLElement | null = null;
+  private animLoopCheckbox: HTMLInputElement | null = null;
+  private animAddBtn: HTMLButtonElement | null = null;
+  private animPlayBtn: HTMLButtonElement | null = null;
+  private animGifScaleRadios: NodeListOf<HTMLInputElement> | null = null;
+  private animGifTransparentCheckbox: HTMLInputElement | null = null;
+
+  /** 編集中のフレーム列（パネルを閉じても保持） */
+  private animation: AnimationParams = { frames: [], loop: true };
+
+  /** 表示中のフレーム番号（一覧を作り直した時に強調し直す） */
+  private animationFrameIndex: number = 0;
 
   // コールバック
   private promptCallback: PromptCallback | null = null;
@@ -91,6 +200,10 @@ export class InputPanelManager {
     this.setupClearArea();
     this.setupColorChangeArea();
     this.setupProgrammingArea();
+    this.setupDiskArea();
+    this.setupLoadPreviewArea();
+    this.setupClipboardArea();
+    this.setupAnimationArea();
   }
 
   /**
@@ -210,8 +323,53 @@ export class InputPanelManager {
     this.basLoadModeRadios = document.querySelectorAll('input[name="bas-load-mode"]') as NodeListOf<HTMLInputElement>;
     this.basSaveFormatRow = document.getElementById('bas-save-format-row');
     this.basSaveFormatRadios = document.querySelectorAll('input[name="bas-save-format"]') as NodeListOf<HTMLInputElement>;
+    this.binLayoutRow = document.getElementById('bin-layout-row');
+    this.binLayoutRadios = document.querySelectorAll('input[name="bin-layout"]') as NodeListOf<HTMLInputElement>;
+    this.binCustomRow = document.getElementById('bin-custom-row');
+    this.binPlaneOrderField = document.getElementById('bin-plane-order') as HTMLInputElement;
+    this.binArrangementRadios = document.querySelectorAll('input[name="bin-arrangement"]') as NodeListOf<HTMLInputElement>;
+    this.binHeaderRow = document.getElementById('bin-header-row');
+    this.binHeaderField = document.getElementById('bin-header') as HTMLInputElement;
+    this.basLinesRow = document.getElementById('bas-lines-row');
+    this.basLineStartField = document.getElementById('bas-line-start') as HTMLInputElement;
+    this.basLineStepField = document.getElementById('bas-line-step') as HTMLInputElement;
+    this.basLoaderRow = document.getElementById('bas-loader-row');
+    this.basLoaderRadios = document.querySelectorAll('input[name="bas-loader"]') as NodeListOf<HTMLInputElement>;
+    this.basTestGridCheckbox = document.getElementById('bas-test-grid') as HTMLInputElement;
+    this.basMergeCheckbox = document.getElementById('bas-merge') as HTMLInputElement;
+    this.basDialectRow = document.getElementById('bas-dialect-row');
+    this.basDialectRadios = document.querySelectorAll('input[name="bas-dialect"]') as NodeListOf<HTMLInputElement>;
     this.imageReduceModeRow = document.getElementById('image-reduce-mode-row');
     this.imageReduceModeRadios = document.querySelectorAll('input[name="image-reduce-mode"]') as NodeListOf<HTMLInputElement>;
+    this.imageTargetRow = document.getElementById('image-target-row');
+    this.imageTargetRadios = document.querySelectorAll('input[name="image-target"]') as NodeListOf<HTMLInputElement>;
+    this.imageToleranceGroup = document.getElementById('image-tolerance-group');
+    this.imageToleranceField = document.getElementById('image-tolerance') as HTMLInputElement;
+    this.imageMergeLabel = document.getElementById('image-merge-label');
+    this.imageMergeCheckbox = document.getElementById('image-merge') as HTMLInputElement;
+    this.imageScaleFitLabel = document.getElementById('image-scale-fit-label');
+    this.imageCropRow = document.getElementById('image-crop-row');
+    this.imageCropFields = ['image-crop-x', 'image-crop-y', 'image-crop-width', 'image-crop-height']
+      .map(id => document.getElementById(id) as HTMLInputElement);
+    this.imageScaleRow = document.getElementById('image-scale-row');
+    this.imageScaleRadios = document.querySelectorAll('input[name="image-scale"]') as NodeListOf<HTMLInputElement>;
+    this.imageOrderRow = document.getElementById('image-order-row');
+    this.imageOrderRadios = document.querySelectorAll('input[name="image-order"]') as NodeListOf<HTMLInputElement>;
+    this.asmSyntaxRow = document.getElementById('asm-syntax-row');
+    this.asmSyntaxRadios = document.querySelectorAll('input[name="asm-syntax"]') as NodeListOf<HTMLInputElement>;
+    this.exportLayoutRow = document.getElementById('export-layout-row');
+    this.exportLayoutRadios = document.querySelectorAll('input[name="export-layout"]') as NodeListOf<HTMLInputElement>;
+    this.asmRoutineCheckbox = document.getElementById('asm-routine') as HTMLInputElement;
+    this.asmRoutineLabel = document.getElementById('asm-routine-label');
+    this.progDiskRow = document.getElementById('prog-disk-row');
+    this.progDiskRadios = document.querySelectorAll('input[name="prog-disk"]') as NodeListOf<HTMLInputElement>;
+    this.progDiskNameRow = document.getElementById('prog-disk-name-row');
+    this.progDiskNameField = document.getElementById('prog-disk-name') as HTMLInputElement;
+    this.progAddressRow = document.getElementById('prog-address-row');
+    this.progError = document.getElementById('prog-error');
+    this.progLoadAddressField = document.getElementById('prog-load-address') as HTMLInputElement;
+    this.progExecAddressField = document.getElementById('prog-exec-address') as HTMLInputElement;
+    this.progExecAddressGroup = document.getElementById('prog-exec-address-group');
 
     // フォーマット変更時の処理
     this.progFormatRadios?.forEach(radio => {
@@ -223,6 +381,29 @@ export class InputPanelManager {
       radio.addEventListener('change', () => this.updateProgrammingUI(), { signal: this.abortController!.signal });
     });
 
+    // BAS保存形式変更時の処理
+    this.basSaveFormatRadios?.forEach(radio => {
+      radio.addEventListener('change', () => this.updateProgrammingUI(), { signal: this.abortController!.signal });
+    });
+
+    // 既存のプログラムへの書き足し切り替え時の処理
+    this.basMergeCheckbox?.addEventListener('change', () => this.updateProgrammingUI(), { signal: this.abortController!.signal });
+
+    // BINのデータの並び変更時の処理
+    this.binLayoutRadios?.forEach(radio => {
+      radio.addEventListener('change', () => this.updateProgrammingUI(), { signal: this.abortController!.signal });
+    });
+
+    // 画像の読み込み先変更時の処理
+    this.imageTargetRadios?.forEach(radio => {
+      radio.addEventListener('change', () => this.updateProgrammingUI(), { signal: this.abortController!.signal });
+    });
+
+    // ディスク/テープイメージ変更時の処理
+    this.progDiskRadios?.forEach(radio => {
+      radio.addEventListener('change', () => this.updateProgrammingUI(), { signal: this.abortController!.signal });
+    });
+
     // EXECボタン
     this.progExecBtn?.addEventListener('click', () => this.executeProgramming(), { signal: this.abortController!.signal });
 
@@ -230,8 +411,133 @@ export class InputPanelManager {
     this.progCancelBtn?.addEventListener('click', () => this.cancelProgramming(), { signal: this.abortController!.signal });
   }
 
+  /**
+   * D88ファイル選択エリアの初期化
+   */
+  private setupDiskArea(): void {
+    this.diskArea = document.getElementById('disk-area');
+    this.diskTitle = document.getElementById('disk-title');
+    this.diskFileList = document.getElementById('disk-file-list');
+    const signal = this.abortController!.signal;
+
+    document.getElementById('disk-load-btn')?.addEventListener('click', () => this.executeDiskLoad(), { signal });
+    document.getElementById('disk-cancel-btn')?.addEventListener('click', () => this.cancelDiskLoad(), { signal });
+  }
+
+  /**
+   * 読み込みプレビューエリアの初期化
+   */
+  private setupLoadPreviewArea(): void {
+    this.loadPreviewArea = document.getElementById('load-preview-area');
+    this.loadPreviewTitle = document.getElementById('load-preview-title');
+    this.loadPreviewStartField = document.getElementById('load-preview-start') as HTMLInputElement;
+    this.loadPreviewSummary = document.getElementById('load-preview-summary');
+    this.loadPreviewClipCheckbox = document.getElementById('load-preview-clip') as HTMLInputElement;
+    this.loadPreviewClipLabel = document.getElementById('load-preview-clip-label');
+    this.loadPreviewLog = document.getElementById('load-preview-log');
+    this.loadPreviewOkBtn = document.getElementById('load-preview-ok-btn') as HTMLButtonElement;
+    this.loadPreviewListing = document.getElementById('load-preview-listing');
+    this.loadPreviewListBtn = document.getElementById('load-preview-list-btn') as HTMLButtonElement;
+    this.loadPreviewMerges = document.getElementById('load-preview-merges');
+    this.loadPreviewMergeBtn = document.getElementById('load-preview-merge-btn') as HTMLButtonElement;
+    const signal = this.abortController!.signal;
+
+    // 開始文字コードやCLIPを変えたらプレビューを作り直す
+    const update = () => {
+      const value = this.loadPreviewStartField?.value ?? '';
+      if (!/^[0-9A-Fa-f]{1,2}$/.test(value)) return;
+      const clip = this.loadPreviewClipCheckbox?.checked ?? false;
+      this.emit({ type: 'load-preview-update', data: { start: parseInt(value, 16), clip } });
+    };
+    this.loadPreviewStartField?.addEventListener('input', update, { signal });
+    this.loadPreviewClipCheckbox?.addEventListener('change', update, { signal });
+
+    this.loadPreviewOkBtn?.addEventListener('click', () => this.executeLoadPreview(), { signal });
+    this.loadPreviewListBtn?.addEventListener('click', () => {
+      if (this.loadPreviewListing) {
+        this.loadPreviewListing.style.display = this.loadPreviewListing.style.display === 'none' ? 'block' : 'none';
+      }
+    }, { signal });
+    this.loadPreviewMergeBtn?.addEventListener('click', () => {
+      if (this.loadPreviewMerges) {
+        this.loadPreviewMerges.style.display = this.loadPreviewMerges.style.display === 'none' ? 'block' : 'none';
+      }
+    }, { signal });
+    document.getElementById('load-preview-cancel-btn')?.addEventListener('click', () => this.cancelLoadPreview(), { signal });
+  }
+
+  /**
+   * CLIPBOARDエリアの初期化
+   */
+  private setupClipboardArea(): void {
+    this.clipboardArea = document.getElementById('clipboard-area');
+    this.clipModeRadios = document.querySelectorAll('input[name="clip-mode"]') as NodeListOf<HTMLInputElement>;
+    this.clipTargetRadios = document.querySelectorAll('input[name="clip-target"]') as NodeListOf<HTMLInputElement>;
+    this.clipRangeRow = document.getElementById('clip-range-row');
+    this.clipStartField = document.getElementById('clip-start') as HTMLInputElement;
+    this.clipEndField = document.getElementById('clip-end') as HTMLInputElement;
+    this.clipReduceModeRow = document.getElementById('clip-reduce-mode-row');
+    this.clipReduceModeRadios = document.querySelectorAll('input[name="clip-reduce-mode"]') as NodeListOf<HTMLInputElement>;
+    const signal = this.abortController!.signal;
+
+    this.clipModeRadios?.forEach(radio => {
+      radio.addEventListener('change', () => this.updateClipboardUI(), { signal });
+    });
+    this.clipTargetRadios?.forEach(radio => {
+      radio.addEventListener('change', () => this.updateClipboardUI(), { signal });
+    });
+
+    document.getElementById('clip-exec-btn')?.addEventListener('click', () => this.executeClipboard(), { signal });
+    document.getElementById('clip-cancel-btn')?.addEventListener('click', () => this.cancelClipboard(), { signal });
+
+    // パネル表示中のCtrl+Vは、pasteイベントの内容をそのまま貼り付ける（Clipboard APIの許可が不要）
+    document.addEventListener('paste', (e) => {
+      if (!this.isClipboardPanelVisible()) return;
+      e.preventDefault();
+      this.executeClipboardPaste(this.getPasteContent(e));
+    }, { signal });
+  }
+
   // ==================== 表示/非表示 ====================
 
+  /**
+   * ANIMATIONエリアの初期化
+   */
+  private setupAnimationArea(): void {
+    this.animationArea = document.getElementById('animation-area');
+    this.animFrameList = document.getElementById('anim-frame-list');
+    this.animLoopCheckbox = document.getElementById('anim-loop') as HTMLInputElement;
+    this.animAddBtn = document.getElementById('anim-add-btn') as HTMLButtonElement;
+    this.animPlayBtn = document.getElementById('anim-play-btn') as HTMLButtonElement;
+    this.animGifScaleRadios = document.querySelectorAll('input[name="anim-gif-scale"]') as NodeListOf<HTMLInputElement>;
+    this.animGifTransparentCheckbox = document.getElementById('anim-gif-transparent') as HTMLInputElement;
+
+    const signal = this.abortController!.signal;
+
+    // フレームの行は作り直すため、一覧でまとめて受け取る
+    this.animFrameList?.addEventListener('change', (e) => {
+      const row = (e.target as HTMLElement).closest('.anim-frame-row') as HTMLElement | null;
+      if (row) this.updateAnimationFrame(row);
+    }, { signal });
+    this.animFrameList?.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const row = target.closest('.anim-frame-row') as HTMLElement | null;
+      if (row && target.classList.contains('anim-del-btn')) this.removeAnimationFrame(row);
+    }, { signal });
+
+    this.animLoopCheckbox?.addEventListener('change', () => {
+      this.animation.loop = this.animLoopCheckbox!.checked;
+      this.emitAnimation();
+    }, { signal });
+
+    this.animAddBtn?.addEventListener('click', () => this.addAnimationFrame(), { signal });
+    this.animPlayBtn?.addEventListener('click', () => this.emit({ type: 'animation-play' }), { signal });
+    document.getElementById('anim-gif-btn')?.addEventListener('click', () => {
+      this.emit({ type: 'animation-export', data: { gif: this.getGifExportParams() } });
+    }, { signal });
+    document.getElementById('anim-close-btn')?.addEventListener('click', () => this.closeAnimation(), { signal });
+  }
+
   /**
    * 全パネルを非表示
    */
@@ -242,6 +548,10 @@ export class InputPanelManager {
     if (this.clearArea) this.clearArea.classList.remove('visible');
     if (this.colorChangeArea) this.colorChangeArea.classList.remove('visible');
     if (this.programmingArea) this.programmingArea.classList.remove('visible');
+    if (this.diskArea) this.diskArea.classList.remove('visible');
+    if (this.loadPreviewArea) this.loadPreviewArea.classList.remove('visible');
+    if (this.clipboardArea) this.clipboardArea.classList.remove('visible');
+    if (this.animationArea) this.animationArea.classList.remove('visible');
   }
 
   /**
@@ -327,14 +637,160 @@ export class InputPanelManager {
       this.progModeRadios?.forEach(radio => {
         radio.checked = radio.value === 'save';
       });
+      this.progDiskRadios?.forEach(radio => {
+        radio.checked = radio.value === 'none';
+      });
       if (this.progStartField) this.progStartField.value = '00';
       if (this.progEndField) this.progEndField.value = 'FF';
+      this.showProgrammingError('');
 
       this.updateProgrammingUI();
       this.programmingArea.classList.add('visible');
     }
   }
 
+  /**
+   * D88ファイル選択UIを表示
+   * @param diskName ディスクイメージのファイル名
+   * @param files ファイル一覧（最初のファイルを選択した状態にする）
+   */
+  showDiskUI(diskName: string, files: DiskFileInfo[]): void {
+    this.hideAllPanels();
+    if (this.diskArea && this.diskFileList) {
+      if (this.diskTitle) this.diskTitle.textContent = `## D88: ${diskName} ##`;
+
+      this.diskFileList.replaceChildren(...files.map((file, i) => {
+        const label = document.createElement('label');
+        label.className = 'radio-label';
+        const radio = document.createElement('input');
+        radio.type = 'radio';
+        radio.name = 'disk-file';
+        radio.value = file.index.toString();
+        radio.checked = i === 0;
+        label.append(radio, `${file.name.padEnd(17)} ${file.type.toUpperCase().padEnd(3)} ${file.size.toString().padStart(5)} bytes`);
+        return label;
+      }));
+
+      this.diskArea.classList.add('visible');
+      (document.activeElement as HTMLElement)?.blur();
+    }
+  }
+
+  /**
+   * 読み込みプレビューUIを表示
+   * @param info プレビューの内容
+   */
+  showLoadPreviewUI(info: LoadPreviewInfo): void {
+    this.hideAllPanels();
+    if (this.loadPreviewArea) {
+      if (this.loadPreviewTitle) this.loadPreviewTitle.textContent = `## Load: ${info.source} ##`;
+      if (this.loadPreviewStartField) {
+        this.loadPreviewStartField.value = (info.start ?? 0).toString(16).toUpperCase().padStart(2, '0');
+        this.loadPreviewStartField.disabled = info.start === null;
+      }
+      if (this.loadPreviewClipCheckbox) {
+        this.loadPreviewClipCheckbox.checked = false;
+        this.loadPreviewClipCheckbox.disabled = info.start === null;
+        this.loadPreviewClipLabel?.classList.toggle('disabled', info.start === null);
+      }
+      this.renderLoadPreviewListing(info.listing);
+      // まとめた文字はアプリ側でキャンバスに描画する（MERGEDボタンで表示を切り替える）
+      if (this.loadPreviewMergeBtn) {
+        this.loadPreviewMergeBtn.style.display = info.merges && info.merges.length > 0 ? '' : 'none';
+      }
+      if (this.loadPreviewMerges) this.loadPreviewMerges.style.display = 'none';
+      this.updateLoadPreview(info);
+      this.loadPreviewArea.classList.add('visible');
+      (document.activeElement as HTMLElement)?.blur();
+    }
+  }
+
+  /**
+   * 読み込みプレビューの文字数と書き換える文字数を更新
+   * @param info プレビューの内容
+   */
+  updateLoadPreview(info: LoadPreviewInfo): void {
+    const loadable = !info.error && info.codes.length > 0;
+    if (this.loadPreviewSummary) {
+      const hex = (code: number) => `&H${code.toString(16).toUpperCase().padStart(2, '0')}`;
+      this.loadPreviewSummary.textContent = info.error
+        ?? (info.codes.length === 0
+          ? 'No characters to load'
+          : `${info.codes.length} chars (${hex(info.codes[0])}-${hex(info.codes[info.codes.length - 1])}), ${info.overwritten.length} overwritten`)
+        + (info.dialect ? ` [${info.dialect}]` : '');
+      this.loadPreviewSummary.classList.toggle('error', !loadable);
+    }
+    if (this.loadPreviewOkBtn) {
+      this.loadPreviewOkBtn.disabled = !loadable;
+    }
+    if (this.loadPreviewLog) {
+      this.loadPreviewLog.textContent = info.issues.map(issue => InputPanelManager.formatLoadIssue(issue)).join('\n');
+      this.loadPreviewLog.style.display = info.issues.length > 0 ? 'block' : 'none';
+    }
+  }
+
+  /**
+   * BASICプログラムの一覧を描画（LISTボタンで表示を切り替える）
+   * 読み込むDEFCHR$行と読めなかった行は色を変え、読めなかった理由を行末に付ける
+   * @param listing プログラムの一覧（BAS以外はundefined）
+   */
+  private renderLoadPreviewListing(listing: BasListingLineInfo[] | undefined): void {
+    if (this.loadPreviewListBtn) {
+      this.loadPreviewListBtn.style.display = listing ? '' : 'none';
+    }
+    if (!this.loadPreviewListing) return;
+
+    this.loadPreviewListing.style.display = 'none';
+    this.loadPreviewListing.replaceChildren(...(listing ?? []).map(line => {
+      const row = document.createElement('div');
+      row.textContent = `${line.number.toString().padStart(5)} ${line.text}${line.message ? `   <- ${line.message}` : ''}`;
+      if (line.status) row.className = line.status;
+      return row;
+    }));
+  }
+
+  /**
+   * 読み込み結果の報告を1行にする（例: "[SKIP]  60970: DEFCHR$ not recognized"）
+   */
+  private static formatLoadIssue(issue: LoadIssueInfo): string {
+    const labels: Record<LoadIssueInfo['kind'], string> = {
+      'skipped': 'SKIP',
+      'out-of-range': 'RANGE',
+      'trailing': 'TRAIL',
+      'clipped': 'CLIP',
+      'merged': 'MERGE'
+    };
+    const line = issue.line !== undefined ? `${issue.line.toString().padStart(5)}: ` : '';
+    return `${`[${labels[issue.kind]}]`.padEnd(7)} ${line}${issue.message}`;
+  }
+
+  /**
+   * CLIPBOARD UIを表示
+   * モード・対象・範囲は前回の値を保持する
+   */
+  showClipboardUI(): void {
+    this.hideAllPanels();
+    if (this.clipboardArea) {
+      this.updateClipboardUI();
+      this.clipboardArea.classList.add('visible');
+      // フォーカスをドキュメントに戻してpasteイベントを受け取れるようにする
+      (document.activeElement as HTMLElement)?.blur();
+    }
+  }
+
+  /**
+   * ANIMATION UIを表示
+   * フレーム一覧は前回の内容を保持する
+   */
+  showAnimationUI(): void {
+    this.hideAllPanels();
+    if (this.animationArea) {
+      this.renderAnimationFrames();
+      this.animationArea.classList.add('visible');
+      (document.activeElement as HTMLElement)?.blur();
+    }
+  }
+
   // ==================== パネル状態チェック ====================
 
   /**
@@ -351,6 +807,34 @@ export class InputPanelManager {
     return this.programmingArea?.classList.contains('visible') || false;
   }
 
+  /**
+   * D88ファイル選択パネルが表示中か
+   */
+  isDiskPanelVisible(): boolean {
+    return this.diskArea?.classList.contains('visible') || false;
+  }
+
+  /**
+   * 読み込みプレビューパネルが表示中か
+   */
+  isLoadPreviewPanelVisible(): boolean {
+    return this.loadPreviewArea?.classList.contains('visible') || false;
+  }
+
+  /**
+   * CLIPBOARDパネルが表示中か
+   */
+  isClipboardPanelVisible(): boolean {
+    return this.clipboardArea?.classList.contains('visible') || false;
+  }
+
+  /**
+   * ANIMATIONパネルが表示中か
+   */
+  isAnimationPanelVisible(): boolean {
+    return this.animationArea?.classList.contains('visible') || false;
+  }
+
   /**
    * COLOR CHANGEパネルが表示中か
    */
@@ -370,6 +854,19 @@ export class InputPanelManager {
            activeElement === this.transferTarget ||
            activeElement === this.progStartField ||
            activeElement === this.progEndField ||
+           activeElement === this.progDiskNameField ||
+           activeElement === this.progLoadAddressField ||
+           activeElement === this.progExecAddressField ||
+           activeElement === this.loadPreviewStartField ||
+           activeElement === this.basLineStartField ||
+           activeElement === this.basLineStepField ||
+           activeElement === this.binPlaneOrderField ||
+           activeElement === this.binHeaderField ||
+           activeElement === this.imageToleranceField ||
+           this.imageCropFields.includes(activeElement as HTMLInputElement) ||
+           activeElement === this.clipStartField ||
+           activeElement === this.clipEndField ||
+           (activeElement !== null && this.animFrameList?.contains(activeElement) === true) ||
            this.colorInputs.includes(activeElement as HTMLInputElement);
   }
 
@@ -380,26 +877,47 @@ export class InputPanelManager {
    */
   private updateProgrammingUI(): void {
     const selectedFormat = this.getSelectedFormat();
-    const selectedMode = this.getSelectedMode();
 
-    // 全フォーマットでLOADを有効化
+    // 書き出し専用のフォーマット（ASM / C）ではLOADを無効化してSAVEに戻す
+    const saveOnly = selectedFormat === 'asm' || selectedFormat === 'c';
     if (this.progModeLoadRadio && this.progModeLoadLabel) {
-      this.progModeLoadRadio.disabled = false;
-      this.progModeLoadLabel.classList.remove('disabled');
+      if (saveOnly && this.progModeLoadRadio.checked) {
+        this.progModeRadios?.forEach(radio => {
+          radio.checked = radio.value === 'save';
+        });
+      }
+      this.progModeLoadRadio.disabled = saveOnly;
+      this.progModeLoadLabel.classList.toggle('disabled', saveOnly);
     }
+    const selectedMode = this.getSelectedMode();
 
-    // IMAGEの場合、範囲入力を非表示
+    // IMAGE + SAVEの場合、範囲入力を非表示（IMAGE + LOADはPCGなら開始コードのみ、SCREENなら使う文字の範囲）
     if (this.progRangeRow) {
-      if (selectedFormat === 'image') {
+      if (selectedFormat === 'image' && selectedMode === 'save') {
         this.progRangeRow.classList.add('hidden');
       } else {
         this.progRangeRow.classList.remove('hidden');
       }
     }
 
-    // LOADモードの場合、終了コードを無効化
+    // LOADモードの場合、終了コードを無効化（画像をテキスト画面に変換する場合を除く）
+    const imageScreen = selectedFormat === 'image' && selectedMode === 'load' &&
+      this.getCheckedValue(this.imageTargetRadios, 'pcg') === 'screen';
     if (this.progEndField) {
-      this.progEndField.disabled = selectedMode === 'load';
+      this.progEndField.disabled = selectedMode === 'load' && !imageScreen;
+    }
+
+    // BINの場合、データの並びを表示（BIN(x3)は三倍速定義の並びでヘッダのみ指定できる）
+    const binFormat = selectedFormat === 'bin' || selectedFormat === 'bin3';
+    if (this.binLayoutRow) {
+      this.binLayoutRow.style.display = selectedFormat === 'bin' ? 'flex' : 'none';
+    }
+    if (this.binCustomRow) {
+      this.binCustomRow.style.display =
+        (selectedFormat === 'bin' && this.getCheckedValue(this.binLayoutRadios, 'normal') === 'custom') ? 'flex' : 'none';
+    }
+    if (this.binHeaderRow) {
+      this.binHeaderRow.style.display = binFormat ? 'flex' : 'none';
     }
 
     // BAS + SAVEの場合、BAS保存形式選択を表示
@@ -408,19 +926,130 @@ export class InputPanelManager {
         (selectedFormat === 'bas' && selectedMode === 'save') ? 'flex' : 'none';
     }
 
+    // BAS + SAVEの場合、行番号と定義の書き方を表示（DATAローダーとテスト表示はASCのみ）
+    // 既存のプログラムに書き足す場合は、元のプログラムの形式で1文字1行のDEFCHR$を書き足す
+    const basSave = selectedFormat === 'bas' && selectedMode === 'save';
+    const merge = this.isBasMerge();
+    this.basSaveFormatRadios?.forEach(radio => {
+      radio.disabled = merge;
+      radio.closest('.radio-label')?.classList.toggle('disabled', merge);
+    });
+    if (this.basLinesRow) {
+      this.basLinesRow.style.display = basSave ? 'flex' : 'none';
+    }
+    if (this.basLoaderRow) {
+      this.basLoaderRow.style.display = basSave ? 'flex' : 'none';
+      const defchrOnly = merge || this.getCheckedValue(this.basSaveFormatRadios, 'asc') === 'bin';
+      this.basLoaderRow.querySelectorAll('input').forEach(input => {
+        input.disabled = defchrOnly;
+        input.closest('.radio-label')?.classList.toggle('disabled', defchrOnly);
+      });
+    }
+
     // BAS + LOADの場合、BASロードモード選択を表示
     if (this.basLoadModeRow) {
       this.basLoadModeRow.style.display =
         (selectedFormat === 'bas' && selectedMode === 'load') ? 'flex' : 'none';
     }
 
-    // IMAGE + LOADの場合、減色モード選択を表示
-    if (this.imageReduceModeRow) {
-      this.imageReduceModeRow.style.display =
-        (selectedFormat === 'image' && selectedMode === 'load') ? 'flex' : 'none';
+    // BAS + LOADと、バイナリ形式・書き足しの保存では方言を表示（自動判定はLOADのみ）
+    const saving = selectedMode === 'save';
+    if (this.basDialectRow) {
+      const binarySave = basSave && (merge || this.getCheckedValue(this.basSaveFormatRadios, 'asc') === 'bin');
+      this.basDialectRow.style.display =
+        ((selectedFormat === 'bas' && !saving) || binarySave) ? 'flex' : 'none';
+    }
+    this.basDialectRadios?.forEach(radio => {
+      const loadOnly = radio.value === 'auto';
+      if (saving && loadOnly && radio.checked) {
+        this.basDialectRadios?.forEach(other => {
+          other.checked = other.value === 'hu';
+        });
+      }
+      radio.disabled = saving && loadOnly;
+      radio.closest('.radio-label')?.classList.toggle('disabled', saving && loadOnly);
+    });
+
+    // ASMの場合は書式・データの並び・ルーチンの有無、Cの場合はデータの並びを表示
+    if (this.asmSyntaxRow) {
+      this.asmSyntaxRow.style.display = selectedFormat === 'asm' ? 'flex' : 'none';
+    }
+    if (this.exportLayoutRow) {
+      this.exportLayoutRow.style.display = saveOnly ? 'flex' : 'none';
+    }
+    if (this.asmRoutineLabel) {
+      this.asmRoutineLabel.style.display = selectedFormat === 'asm' ? '' : 'none';
+    }
+
+    // BIN / BASの場合、ディスク/テープイメージ選択を表示
+    const media = InputPanelManager.supportsMedia(selectedFormat);
+    if (this.progDiskRow) {
+      this.progDiskRow.style.display = media ? 'flex' : 'none';
+    }
+
+    // LOADは既存のディスクイメージからのみ（新規とテープは保存専用）
+    const loading = selectedMode === 'load';
+    this.progDiskRadios?.forEach(radio => {
+      const saveOnly = radio.value === 'new' || radio.value === 'tape';
+      if (loading && saveOnly && radio.checked) {
+        this.progDiskRadios?.forEach(other => {
+          other.checked = other.value === 'open';
+        });
+      }
+      radio.disabled = loading && saveOnly;
+      radio.closest('.radio-label')?.classList.toggle('disabled', loading && saveOnly);
+    });
+    const disk = this.getCheckedValue(this.progDiskRadios, 'none') as DiskTarget;
+
+    // 書き足しはFILEのみ（元のプログラムとディスクイメージを続けて選べないため）
+    if (this.basMergeCheckbox) {
+      const mergeable = disk === 'none';
+      if (!mergeable) this.basMergeCheckbox.checked = false;
+      this.basMergeCheckbox.disabled = !mergeable;
+      this.basMergeCheckbox.closest('.radio-label')?.classList.toggle('disabled', !mergeable);
+    }
+
+    // D88 / TAP + SAVEの場合、イメージ内のファイル名を表示
+    if (this.progDiskNameRow) {
+      this.progDiskNameRow.style.display =
+        (media && selectedMode === 'save' && disk !== 'none') ? 'flex' : 'none';
+    }
+
+    // BIN + D88 / TAP + SAVEの場合、読み込み・実行アドレスを表示
+    if (this.progAddressRow) {
+      const binFile = selectedFormat === 'bin' || selectedFormat === 'bin3';
+      this.progAddressRow.style.display =
+        (binFile && selectedMode === 'save' && disk !== 'none') ? 'flex' : 'none';
+    }
+    // TAPは読み込みアドレスから実行するプログラムになるため、実行アドレスは指定しない
+    if (this.progExecAddressGroup) {
+      this.progExecAddressGroup.style.display = disk === 'tape' ? 'none' : '';
+    }
+
+    // IMAGE + LOADの場合、減色モード・読み込み先・切り出す範囲・拡大縮小を表示
+    // （文字の並びはPCG、似た文字のドット数はSCREENのみ）
+    const imageLoad = selectedFormat === 'image' && selectedMode === 'load';
+    [this.imageReduceModeRow, this.imageTargetRow, this.imageCropRow, this.imageScaleRow].forEach(row => {
+      if (row) row.style.display = imageLoad ? 'flex' : 'none';
+    });
+    if (this.imageOrderRow) {
+      this.imageOrderRow.style.display = imageLoad && !imageScreen ? 'flex' : 'none';
+    }
+    [this.imageToleranceGroup, this.imageMergeLabel].forEach(element => {
+      if (element) element.style.display = imageScreen ? '' : 'none';
+    });
+    if (this.imageScaleFitLabel) {
+      this.imageScaleFitLabel.textContent = imageScreen ? 'FIT (320x200)' : 'FIT (128x128)';
     }
   }
 
+  /**
+   * ディスク/テープイメージに読み書きできるフォーマットか（BIN / BIN(x3) / BAS）
+   */
+  private static supportsMedia(format: FileFormat): boolean {
+    return format === 'bin' || format === 'bin3' || format === 'bas';
+  }
+
   /**
    * 選択されているフォーマットを取得
    */
@@ -443,6 +1072,236 @@ export class InputPanelManager {
     return mode;
   }
 
+  // ==================== CLIPBOARD UI 状態更新 ====================
+
+  /**
+   * CLIPBOARD UIの状態を更新
+   */
+  private updateClipboardUI(): void {
+    const mode = this.getCheckedValue(this.clipModeRadios, 'copy');
+    const target = this.getCheckedValue(this.clipTargetRadios, 'edit');
+
+    // EDIT AREAの場合、範囲入力を非表示
+    this.clipRangeRow?.classList.toggle('hidden', target === 'edit');
+
+    // PASTEの場合、終了コードを無効化（開始コードから順に書き込む）
+    if (this.clipEndField) {
+      this.clipEndField.disabled = mode === 'paste';
+    }
+
+    // PASTEの場合、減色モード選択を表示
+    if (this.clipReduceModeRow) {
+      this.clipReduceModeRow.style.display = mode === 'paste' ? 'flex' : 'none';
+    }
+  }
+
+  // ==================== ANIMATION UI 状態更新 ====================
+
+  /**
+   * フレーム一覧を設定（main.tsから保存データを反映する時に使う）
+   */
+  setAnimation(animation: AnimationParams): void {
+    this.animation = {
+      frames: animation.frames.map(frame => ({ ...frame })),
+      loop: animation.loop
+    };
+    if (this.animLoopCheckbox) this.animLoopCheckbox.checked = animation.loop;
+    this.renderAnimationFrames();
+  }
+
+  /**
+   * 再生状態を表示（表示中のフレームの強調とPLAY/STOPボタン）
+   */
+  setAnimationState(frameIndex: number, playing: boolean): void {
+    this.animationFrameIndex = frameIndex;
+    this.highlightAnimationFrame();
+    if (this.animPlayBtn) this.animPlayBtn.textContent = playing ? 'STOP' : 'PLAY';
+  }
+
+  /**
+   * 表示中のフレームの行を強調
+   */
+  private highlightAnimationFrame(): void {
+    this.animFrameList?.querySelectorAll('.anim-frame-row').forEach((row, index) => {
+      row.classList.toggle('current', index === this.animationFrameIndex);
+    });
+  }
+
+  /**
+   * フレーム一覧を作り直す
+   */
+  private renderAnimationFrames(): void {
+    if (!this.animFrameList) return;
+    this.animFrameList.replaceChildren(
+      ...this.animation.frames.map((frame, index) => this.createAnimationFrameRow(frame, index))
+    );
+    this.highlightAnimationFrame();
+    if (this.animAddBtn) {
+      this.animAddBtn.disabled = this.animation.frames.length >= ANIMATION_MAX_FRAMES;
+    }
+  }
+
+  /**
+   * フレーム1行分の入力欄（番号 / 文字コード / 大きさ / 表示時間 / 削除）を作成
+   */
+  private createAnimationFrameRow(frame: AnimationFrame, index: number): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'anim-frame-row';
+    row.dataset.index = index.toString();
+
+    const label = document.createElement('span');
+    label.className = 'anim-index';
+    label.textContent = index.toString();
+
+    const code = document.createElement('input');
+    code.type = 'text';
+    code.className = 'anim-code';
+    code.maxLength = 2;
+    code.value = frame.code.toString(16).toUpperCase().padStart(2, '0');
+
+    const size = document.createElement('select');
+    size.className = 'anim-size';
+    for (const [value, text] of [['1', '1x1'], ['4', '2x2']]) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = text;
+      size.appendChild(option);
+    }
+    size.value = frame.quad ? '4' : '1';
+
+    const duration = document.createElement('input');
+    duration.type = 'text';
+    duration.className = 'anim-duration';
+    duration.maxLength = 4;
+    duration.value = frame.duration.toString();
+
+    const del = document.createElement('button');
+    del.type = 'button';
+    del.className = 'cancel-btn anim-del-btn';
+    del.textContent = 'DEL';
+
+    row.append(label, code, size, duration, del);
+    return row;
+  }
+
+  /**
+   * フレーム1行分の入力値を反映（不正な値は直前の値に戻す）
+   */
+  private updateAnimationFrame(row: HTMLElement): void {
+    const index = parseInt(row.dataset.index ?? '', 10);
+    const current = this.animation.frames[index];
+    if (!current) return;
+
+    const codeField = row.querySelector('.anim-code') as HTMLInputElement;
+    const sizeField = row.querySelector('.anim-size') as HTMLSelectElement;
+    const durationField = row.querySelector('.anim-duration') as HTMLInputElement;
+
+    const code = parseInt(codeField.value, 16);
+    const duration = parseInt(durationField.value, 10);
+    const frame = AnimationSequence.normalizeFrame({
+      code: isNaN(code) ? current.code : code,
+      quad: sizeField.value === '4',
+      duration: isNaN(duration) ? current.duration : duration
+    });
+
+    codeField.value = frame.code.toString(16).toUpperCase().padStart(2, '0');
+    durationField.value = frame.duration.toString();
+    this.animation.frames[index] = frame;
+    this.emitAnimation();
+  }
+
+  /**
+   * フレームを追加（最後のフレームの次の文字を同じ大きさ・時間で並べる）
+   */
+  private addAnimationFrame(): void {
+    const frames = this.animation.frames;
+    if (frames.length >= ANIMATION_MAX_FRAMES) return;
+
+    const last = frames[frames.length - 1];
+    frames.push(last
+      ? { code: (last.code + (last.quad ? 2 : 1)) & 0xFF, quad: last.quad, duration: last.duration }
+      : { code: 0, quad: false, duration: ANIMATION_DURATION.DEFAULT });
+    this.renderAnimationFrames();
+    this.emitAnimation();
+  }
+
+  /**
+   * フレームを削除
+   */
+  private removeAnimationFrame(row: HTMLElement): void {
+    const index = parseInt(row.dataset.index ?? '', 10);
+    if (isNaN(index)) return;
+    this.animation.frames.splice(index, 1);
+    this.renderAnimationFrames();
+    this.emitAnimation();
+  }
+
+  /**
+   * GIF書き出しの設定を取得
+   */
+  private getGifExportParams(): GifExportParams {
+    return {
+      scale: parseInt(this.getCheckedValue(this.animGifScaleRadios, '4'), 10),
+      transparent: this.animGifTransparentCheckbox?.checked ?? false
+    };
+  }
+
+  /**
+   * 編集中のフレーム列を通知
+   */
+  private emitAnimation(): void {
+    this.emit({
+      type: 'animation-update',
+      data: { animation: { frames: this.animation.frames.map(frame => ({ ...frame })), loop: this.animation.loop } }
+    });
+  }
+
+  /**
+   * ラジオボタン群の選択値を取得
+   */
+  private getCheckedValue(radios: NodeListOf<HTMLInputElement> | null, defaultValue: string): string {
+    let value = defaultValue;
+    radios?.forEach(radio => {
+      if (radio.checked) value = radio.value;
+    });
+    return value;
+  }
+
+  /**
+   * CLIPBOARDパネルの入力値を取得
+   * @returns 範囲が不正な場合はnull
+   */
+  private getClipboardParams(): ClipboardParams | null {
+    const target = this.getCheckedValue(this.clipTargetRadios, 'edit') as ClipboardTarget;
+    const reduceMode = this.getCheckedValue(this.clipReduceModeRadios, 'reduce') as ColorReduceMode;
+    const start = parseInt(this.clipStartField?.value || '00', 16);
+    const end = parseInt(this.clipEndField?.value || '00', 16);
+
+    if (target === 'code' &&
+        (isNaN(start) || isNaN(end) || start < 0 || start > 255 || end < 0 || end > 255)) {
+      return null;
+    }
+    return { target, start, end, reduceMode };
+  }
+
+  /**
+   * pasteイベントからクリップボードの内容を取り出す
+   */
+  private getPasteContent(event: ClipboardEvent): ClipboardPasteContent {
+    const content: ClipboardPasteContent = { text: null, image: null };
+    const data = event.clipboardData;
+    if (!data) return content;
+
+    for (const item of Array.from(data.items)) {
+      if (item.kind === 'file' && item.type.startsWith('image/') && !content.image) {
+        content.image = item.getAsFile();
+      }
+    }
+    const text = data.getData('text/plain');
+    content.text = text !== '' ? text : null;
+    return content;
+  }
+
   // ==================== 完了/キャンセル処理 ====================
 
   /**
@@ -575,8 +1434,9 @@ export class InputPanelManager {
     const start = parseInt(startVal, 16);
     const end = parseInt(endVal, 16);
 
-    // バリデーション
+    // バリデーション（誤りがあればパネルを開いたまま表示する）
     if (isNaN(start) || isNaN(end) || start < 0 || start > 255 || end < 0 || end > 255) {
+      this.showProgrammingError('Invalid range: START/END must be 00-FF');
       return;
     }
 
@@ -586,28 +1446,181 @@ export class InputPanelManager {
       if (radio.checked) basLoadMode = radio.value as 'start' | 'original';
     });
 
+    // BASICの方言を取得（保存時はAUTOを選べない）
+    const basDialect = this.getCheckedValue(this.basDialectRadios, 'auto') as BasDialect;
+
     // BAS保存形式を取得
     let basFormat: BasSaveFormat = 'asc';
     this.basSaveFormatRadios?.forEach(radio => {
       if (radio.checked) basFormat = radio.value as BasSaveFormat;
     });
 
+    // BASプログラムの生成設定を取得（行番号は10進数）
+    const basProgram = this.getBasProgramParams(basFormat);
+    if (format === 'bas' && mode === 'save' && !basProgram) {
+      this.showProgrammingError('Invalid lines: START must be 0 or more, STEP 1 or more');
+      return;
+    }
+
+    // BINのデータの並びを取得
+    const binLayout = this.getBinLayoutParams(format);
+    if ((format === 'bin' || format === 'bin3') && !binLayout) {
+      this.showProgrammingError('Invalid layout: order must use B, R and G once, header 0 or more');
+      return;
+    }
+
     // 画像減色モードを取得
     let reduceMode: ColorReduceMode = 'none';
     this.imageReduceModeRadios?.forEach(radio => {
       if (radio.checked) reduceMode = radio.value as ColorReduceMode;
     });
 
+    // 画像の読み込み設定を取得
+    const imageImport = this.getImageImportParams();
+    if (format === 'image' && mode === 'load' && !imageImport) {
+      this.showProgrammingError('Invalid image settings: crop 0 or more, similar 0-64');
+      return;
+    }
+    if (format === 'image' && mode === 'load' && imageImport?.target === 'screen' && start > end) {
+      this.showProgrammingError('Invalid range: START must not exceed END');
+      return;
+    }
+
+    // ディスク/テープイメージ（BIN / BASのみ）
+    const disk = InputPanelManager.supportsMedia(format)
+      ? this.getCheckedValue(this.progDiskRadios, 'none') as DiskTarget
+      : 'none';
+
+    // アセンブラソースの設定を取得
+    const asm: AsmExportParams = {
+      syntax: this.getCheckedValue(this.asmSyntaxRadios, 'generic') as AsmSyntax,
+      x3mode: this.getCheckedValue(this.exportLayoutRadios, 'normal') === 'x3',
+      routine: this.asmRoutineCheckbox?.checked ?? false
+    };
+    const cHeader: CHeaderExportParams = { x3mode: asm.x3mode };
+    const diskFileName = this.progDiskNameField?.value.trim() || 'PCG';
+
+    // BINをD88 / TAPに書き込む場合の読み込み・実行アドレス（16進数）
+    const loadAddress = parseInt(this.progLoadAddressField?.value || '0', 16);
+    const execAddress = parseInt(this.progExecAddressField?.value || '0', 16);
+    const binMedia = (format === 'bin' || format === 'bin3') && mode === 'save' && disk !== 'none';
+    if (binMedia && (isNaN(loadAddress) || isNaN(execAddress) ||
+        loadAddress < 0 || loadAddress > 0xFFFF || execAddress < 0 || execAddress > 0xFFFF)) {
+      this.showProgrammingError('Invalid address: LOAD/EXEC must be 0000-FFFF');
+      return;
+    }
+
     this.hideAllPanels();
     this.setMode('edit');
 
     if (mode === 'save') {
-      this.emit({ type: 'file-save', data: { file: { format, start, end, basFormat } } });
+      this.emit({ type: 'file-save', data: { file: { format, start, end, basFormat, binLayout: binLayout ?? undefined, basProgram: basProgram ?? undefined, asm, cHeader, disk, diskFileName, loadAddress, execAddress } } });
     } else {
-      this.emit({ type: 'file-load', data: { file: { format, start, end, basLoadMode, reduceMode } } });
+      this.emit({ type: 'file-load', data: { file: { format, start, end, basLoadMode, basDialect, reduceMode, imageImport: imageImport ?? undefined, binLayout: binLayout ?? undefined, disk } } });
     }
   }
 
+  /**
+   * PROGRAMMINGパネルに入力値の誤りを表示
+   * @param message メッセージ（空文字列なら消す）
+   */
+  private showProgrammingError(message: string): void {
+    if (this.progError) this.progError.textContent = message;
+  }
+
+  /**
+   * BINのデータの並びを取得
+   * @param format フォーマット（BIN(x3)は三倍速定義の並び）
+   * @returns データの並び（プレーンの順序やヘッダのバイト数が不正ならnull）
+   */
+  private getBinLayoutParams(format: FileFormat): BinLayoutParams | null {
+    const offset = parseInt(this.binHeaderField?.value || '0', 10);
+    if (isNaN(offset) || offset < 0) {
+      return null;
+    }
+
+    if (format === 'bin3') {
+      return { planeOrder: 'BRG', arrangement: 'row', offset };
+    }
+
+    switch (this.getCheckedValue(this.binLayoutRadios, 'normal')) {
+      case 'plane':
+        return { planeOrder: 'BRG', arrangement: 'plane', offset };
+      case 'custom': {
+        const planeOrder = (this.binPlaneOrderField?.value || 'BRG').trim().toUpperCase();
+        if (planeOrder.length !== 3 || ![...'BRG'].every(plane => planeOrder.includes(plane))) {
+          return null;
+        }
+        return {
+          planeOrder: planeOrder as BinLayoutParams['planeOrder'],
+          arrangement: this.getCheckedValue(this.binArrangementRadios, 'char') as BinLayoutParams['arrangement'],
+          offset
+        };
+      }
+      default:
+        return { planeOrder: 'BRG', arrangement: 'char', offset };
+    }
+  }
+
+  /**
+   * 画像の読み込み設定を取得
+   * @returns 設定（切り出す範囲や似た文字のドット数が不正ならnull）
+   */
+  private getImageImportParams(): ImageImportParams | null {
+    const [x, y, width, height] = this.imageCropFields.map(field => parseInt(field.value || '0', 10));
+    if ([x, y, width, height].some(value => isNaN(value) || value < 0)) {
+      return null;
+    }
+    const tolerance = parseInt(this.imageToleranceField?.value || '0', 10);
+    if (isNaN(tolerance) || tolerance < 0 || tolerance > 64) {
+      return null;
+    }
+    return {
+      target: this.getCheckedValue(this.imageTargetRadios, 'pcg') as ImageTarget,
+      tolerance,
+      merge: this.imageMergeCheckbox?.checked ?? false,
+      x,
+      y,
+      width,
+      height,
+      scale: this.getCheckedValue(this.imageScaleRadios, 'fit') as ImageImportParams['scale'],
+      order: this.getCheckedValue(this.imageOrderRadios, 'row') as ImageImportParams['order']
+    };
+  }
+
+  /**
+   * BASプログラムの生成設定を取得
+   * @param basFormat BAS保存形式（バイナリ形式と書き足しでは1文字1行のDEFCHR$のみ）
+   * @returns 設定（行番号が不正ならnull）
+   */
+  private getBasProgramParams(basFormat: BasSaveFormat): BasProgramParams | null {
+    const lineStart = parseInt(this.basLineStartField?.value || '60960', 10);
+    const lineStep = parseInt(this.basLineStepField?.value || '10', 10);
+    if (isNaN(lineStart) || isNaN(lineStep) || lineStart < 0 || lineStep < 1) {
+      return null;
+    }
+
+    const merge = this.isBasMerge();
+    const dialect = this.getCheckedValue(this.basDialectRadios, 'hu') as BasDialect;
+    const defchrOnly = merge || basFormat === 'bin';
+    return {
+      lineStart,
+      lineStep,
+      loader: defchrOnly ? 'defchr' : this.getCheckedValue(this.basLoaderRadios, 'defchr') as BasProgramParams['loader'],
+      testGrid: !defchrOnly && (this.basTestGridCheckbox?.checked ?? false),
+      merge,
+      dialect: dialect === 'auto' ? 'hu' : dialect
+    };
+  }
+
+  /**
+   * 既存のプログラムに書き足すか（FILEのみ）
+   */
+  private isBasMerge(): boolean {
+    return (this.basMergeCheckbox?.checked ?? false) &&
+      this.getCheckedValue(this.progDiskRadios, 'none') === 'none';
+  }
+
   /**
    * PROGRAMMINGキャンセル
    */
@@ -617,6 +1630,94 @@ export class InputPanelManager {
     this.emit({ type: 'cancel' });
   }
 
+  /**
+   * D88から選択したファイルを読み込む
+   */
+  executeDiskLoad(): void {
+    const value = this.getCheckedValue(this.diskFileList?.querySelectorAll<HTMLInputElement>('input[name="disk-file"]') ?? null, '');
+    if (value === '') return;
+
+    this.hideAllPanels();
+    this.setMode('edit');
+    this.emit({ type: 'disk-file-load', data: { index: parseInt(value, 10) } });
+  }
+
+  /**
+   * D88ファイル選択キャンセル
+   */
+  cancelDiskLoad(): void {
+    this.hideAllPanels();
+    this.setMode('edit');
+    this.emit({ type: 'cancel' });
+  }
+
+  /**
+   * プレビューした内容で読み込む
+   */
+  executeLoadPreview(): void {
+    if (this.loadPreviewOkBtn?.disabled) return;
+
+    this.hideAllPanels();
+    this.setMode('edit');
+    this.emit({ type: 'load-preview-confirm' });
+  }
+
+  /**
+   * 読み込みキャンセル
+   */
+  cancelLoadPreview(): void {
+    this.hideAllPanels();
+    this.setMode('edit');
+    this.emit({ type: 'load-preview-cancel' });
+  }
+
+  /**
+   * CLIPBOARD実行（EXECボタン）
+   */
+  private executeClipboard(): void {
+    if (this.getCheckedValue(this.clipModeRadios, 'copy') === 'paste') {
+      this.executeClipboardPaste();
+      return;
+    }
+
+    const clipboard = this.getClipboardParams();
+    if (!clipboard) return;
+
+    this.hideAllPanels();
+    this.setMode('edit');
+    this.emit({ type: 'clipboard-copy', data: { clipboard } });
+  }
+
+  /**
+   * クリップボードから貼り付け
+   * @param content pasteイベントの内容（省略時はClipboard APIで読み込む）
+   */
+  private executeClipboardPaste(content?: ClipboardPasteContent): void {
+    const clipboard = this.getClipboardParams();
+    if (!clipboard) return;
+
+    this.hideAllPanels();
+    this.setMode('edit');
+    this.emit({ type: 'clipboard-paste', data: { clipboard, content } });
+  }
+
+  /**
+   * CLIPBOARDキャンセル
+   */
+  cancelClipboard(): void {
+    this.hideAllPanels();
+    this.setMode('edit');
+    this.emit({ type: 'cancel' });
+  }
+
+  /**
+   * ANIMATIONパネルを閉じる（編集内容は変更のたびに通知済み）
+   */
+  closeAnimation(): void {
+    this.hideAllPanels();
+    this.setMode('edit');
+  }
+
   /**
    * リソースを解放
    */
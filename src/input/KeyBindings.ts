@@ -4,7 +4,7 @@
  */
 
 import { Direction, X1Color } from '../core/types';
-import { RotationType } from './InputEventTypes';
+import { RotationType, SelectionOp, ScreenOp, ScreenAttrToggle } from './InputEventTypes';
 
 /** 修飾キーの状態 */
 export interface Modifiers {
@@ -32,7 +32,14 @@ export type KeyAction =
   | { action: 'toggle-width' }
   | { action: 'load-font' }
   | { action: 'cancel' }
-  | { action: 'clear' };
+  | { action: 'clear' }
+  | { action: 'tool-change' }
+  | { action: 'clipboard' }
+  | { action: 'animation' }
+  | { action: 'selection'; op: SelectionOp }
+  | { action: 'screen' }
+  | { action: 'undo' }
+  | { action: 'redo' };
 
 /** キーバインディングエントリ */
 interface KeyBindingEntry {
@@ -63,12 +70,70 @@ const KEY_BINDINGS: KeyBindingEntry[] = [
   { codes: ['KeyK'], action: { action: 'toggle-input-mode' } },
   { codes: ['KeyW'], action: { action: 'toggle-width' } },
   { codes: ['KeyL'], action: { action: 'load-font' } },
+  { codes: ['KeyB'], action: { action: 'tool-change' } },
+  { codes: ['KeyX'], action: { action: 'clipboard' } },
+  { codes: ['KeyA'], action: { action: 'animation' } },
+  { codes: ['KeyV'], action: { action: 'screen' } },
+  { codes: ['Enter', 'NumpadEnter'], action: { action: 'selection', op: 'commit' } },
+  { codes: ['Delete'], action: { action: 'selection', op: 'delete' } },
   { codes: ['Escape'], action: { action: 'cancel' } },
 
   // Ctrl+L: CLR
   { codes: ['KeyL'], action: { action: 'clear' }, requireCtrl: true },
+
+  // Ctrl+C/X/V/A: 矩形選択のコピー・切り取り・貼り付け・全選択
+  { codes: ['KeyC'], action: { action: 'selection', op: 'copy' }, requireCtrl: true },
+  { codes: ['KeyX'], action: { action: 'selection', op: 'cut' }, requireCtrl: true },
+  { codes: ['KeyV'], action: { action: 'selection', op: 'paste' }, requireCtrl: true },
+  { codes: ['KeyA'], action: { action: 'selection', op: 'all' }, requireCtrl: true },
+
+  // Ctrl+Shift+Z / Ctrl+Y: REDO（Shift付きを先に判定）
+  { codes: ['KeyZ'], action: { action: 'redo' }, requireCtrl: true, requireShift: true },
+  { codes: ['KeyY'], action: { action: 'redo' }, requireCtrl: true },
+
+  // Ctrl+Z: UNDO
+  { codes: ['KeyZ'], action: { action: 'undo' }, requireCtrl: true },
+];
+
+/** テキスト画面エディタのキーアクション */
+export type ScreenKeyAction =
+  | { action: 'cursor-move'; direction: Direction; fast: boolean }
+  | { action: 'brush'; delta: number }
+  | { action: 'color'; color: X1Color }
+  | { action: 'attr'; flag: ScreenAttrToggle }
+  | { action: 'op'; op: ScreenOp };
+
+/**
+ * テキスト画面エディタのキーバインディング定義
+ * 注: カーソル移動と文字コードの増減は動的に処理するため含まない
+ */
+const SCREEN_KEY_BINDINGS: { codes: string[]; op: ScreenOp }[] = [
+  { codes: ['Space', 'Enter', 'NumpadEnter'], op: 'put' },
+  { codes: ['Delete', 'Backspace'], op: 'erase' },
+  { codes: ['KeyP'], op: 'pick' },
+  { codes: ['KeyG'], op: 'toggle-source' },
+  { codes: ['KeyW'], op: 'toggle-width' },
+  { codes: ['KeyA'], op: 'paint-attr' },
+  { codes: ['KeyS'], op: 'save' },
+  { codes: ['KeyL'], op: 'load' },
+  { codes: ['KeyE'], op: 'export-vram' },
+  { codes: ['KeyV', 'Escape'], op: 'exit' },
 ];
 
+/** テキスト画面エディタでアトリビュートを切り替えるキー */
+const SCREEN_ATTR_KEYS: Record<string, ScreenAttrToggle> = {
+  'KeyR': 'reverse',
+  'KeyB': 'blink',
+  'KeyH': 'double-height',
+  'KeyD': 'double-width',
+};
+
+/** 置く文字コードを増減するキー（Shiftで16ずつ） */
+const BRUSH_KEYS: Record<string, number> = {
+  'Comma': -1,
+  'Period': 1,
+};
+
 /** カーソル移動キーの定義 */
 const CURSOR_KEYS: Record<string, Direction> = {
   'ArrowUp': Direction.UP,
@@ -98,7 +163,7 @@ const COLOR_KEYS: Record<string, X1Color> = {
 };
 
 /** リピートを許可するキー */
-const ALLOW_REPEAT_CODES = new Set(['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight']);
+const ALLOW_REPEAT_CODES = new Set(['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Comma', 'Period']);
 
 /**
  * キーコードと修飾キーからアクションを取得
@@ -110,7 +175,7 @@ export function getActionFromKeyCode(code: string, modifiers: Modifiers): KeyAct
   // Ctrl+キーの処理（他より優先）
   if (modifiers.ctrl) {
     const ctrlBinding = KEY_BINDINGS.find(
-      b => b.requireCtrl && b.codes.includes(code)
+      b => b.requireCtrl && b.codes.includes(code) && (!b.requireShift || modifiers.shift)
     );
     if (ctrlBinding) {
       return ctrlBinding.action;
@@ -145,6 +210,36 @@ export function getActionFromKeyCode(code: string, modifiers: Modifiers): KeyAct
   return null;
 }
 
+/**
+ * テキスト画面エディタのキーコードからアクションを取得
+ * @param code キーコード（event.code）
+ * @param modifiers 修飾キーの状態
+ * @returns キーアクション、またはnull（マッチしない場合）
+ */
+export function getScreenActionFromKeyCode(code: string, modifiers: Modifiers): ScreenKeyAction | null {
+  // Ctrl付きはブラウザに任せる
+  if (modifiers.ctrl) return null;
+
+  if (code in CURSOR_KEYS) {
+    return { action: 'cursor-move', direction: CURSOR_KEYS[code], fast: modifiers.shift };
+  }
+
+  if (code in BRUSH_KEYS) {
+    return { action: 'brush', delta: BRUSH_KEYS[code] * (modifiers.shift ? 16 : 1) };
+  }
+
+  if (code in COLOR_KEYS) {
+    return { action: 'color', color: COLOR_KEYS[code] };
+  }
+
+  if (code in SCREEN_ATTR_KEYS) {
+    return { action: 'attr', flag: SCREEN_ATTR_KEYS[code] };
+  }
+
+  const binding = SCREEN_KEY_BINDINGS.find(b => b.codes.includes(code));
+  return binding ? { action: 'op', op: binding.op } : null;
+}
+
 /**
  * キーがリピートを許可されているかチェック
  */
@@ -6,7 +6,7 @@
 import { X1Color } from '../core/types';
 import { InputEvent, InputMode, InputDeviceMode } from './InputEventTypes';
 import { InputPanelManager } from './InputPanelManager';
-import { getActionFromKeyCode, isRepeatAllowed, Modifiers } from './KeyBindings';
+import { getActionFromKeyCode, getScreenActionFromKeyCode, isRepeatAllowed, Modifiers } from './KeyBindings';
 
 /** イベント発火用コールバック */
 type EmitCallback = (event: InputEvent) => void;
@@ -111,6 +111,48 @@ export class KeyboardInputHandler {
       return;
     }
 
+    // D88ファイル選択パネル表示中の処理
+    if (this.panelManager.isDiskPanelVisible()) {
+      if (event.code === 'Enter') {
+        event.preventDefault();
+        this.panelManager.executeDiskLoad();
+      } else if (event.code === 'Escape') {
+        event.preventDefault();
+        this.panelManager.cancelDiskLoad();
+      }
+      return;
+    }
+
+    // 読み込みプレビューパネル表示中の処理
+    if (this.panelManager.isLoadPreviewPanelVisible()) {
+      if (event.code === 'Enter') {
+        event.preventDefault();
+        this.panelManager.executeLoadPreview();
+      } else if (event.code === 'Escape') {
+        event.preventDefault();
+        this.panelManager.cancelLoadPreview();
+      }
+      return;
+    }
+
+    // CLIPBOARDパネル表示中の処理
+    if (this.panelManager.isClipboardPanelVisible()) {
+      if (event.code === 'Escape') {
+        event.preventDefault();
+        this.panelManager.cancelClipboard();
+      }
+      return;
+    }
+
+    // ANIMATIONパネル表示中の処理
+    if (this.panelManager.isAnimationPanelVisible()) {
+      if (event.code === 'Escape') {
+        event.preventDefault();
+        this.panelManager.closeAnimation();
+      }
+      return;
+    }
+
     // COLOR CHANGEパネル表示中の処理
     if (this.panelManager.isColorChangePanelVisible()) {
       if (event.code === 'Escape') {
@@ -142,6 +184,9 @@ export class KeyboardInputHandler {
       case 'menu':
         this.handleMenuMode(event);
         break;
+      case 'screen':
+        this.handleScreenMode(event);
+        break;
     }
   }
 
@@ -243,6 +288,35 @@ export class KeyboardInputHandler {
       case 'clear':
         this.startClearInput();
         break;
+
+      case 'tool-change':
+        this.emit({ type: 'tool-change' });
+        break;
+
+      case 'selection':
+        this.emit({ type: 'selection', data: { op: keyAction.op } });
+        break;
+
+      case 'clipboard':
+        this.startClipboardInput();
+        break;
+
+      case 'animation':
+        this.startAnimationInput();
+        break;
+
+      case 'screen':
+        this.setMode('screen');
+        this.emit({ type: 'screen', data: { op: 'enter' } });
+        break;
+
+      case 'undo':
+        this.emit({ type: 'undo' });
+        break;
+
+      case 'redo':
+        this.emit({ type: 'redo' });
+        break;
     }
   }
 
@@ -285,6 +359,48 @@ export class KeyboardInputHandler {
     }
   }
 
+  /**
+   * テキスト画面エディタのキー処理
+   */
+  private handleScreenMode(event: KeyboardEvent): void {
+    const keyAction = getScreenActionFromKeyCode(event.code, {
+      shift: event.shiftKey,
+      ctrl: event.ctrlKey || event.metaKey,
+      alt: event.altKey
+    });
+    if (!keyAction) return;
+
+    event.preventDefault();
+
+    switch (keyAction.action) {
+      case 'cursor-move':
+        this.emit({
+          type: 'screen-cursor-move',
+          data: { direction: keyAction.direction, fast: keyAction.fast }
+        });
+        break;
+
+      case 'brush':
+        this.emit({ type: 'screen-brush', data: { delta: keyAction.delta } });
+        break;
+
+      case 'color':
+        this.emit({ type: 'screen-color', data: { color: keyAction.color } });
+        break;
+
+      case 'attr':
+        this.emit({ type: 'screen-attr', data: { flag: keyAction.flag } });
+        break;
+
+      case 'op':
+        if (keyAction.op === 'exit') {
+          this.setMode('edit');
+        }
+        this.emit({ type: 'screen', data: { op: keyAction.op } });
+        break;
+    }
+  }
+
   // ==================== 入力開始メソッド ====================
 
   /**
@@ -392,6 +508,22 @@ export class KeyboardInputHandler {
     this.panelManager.showProgrammingUI();
   }
 
+  /**
+   * CLIPBOARD機能の入力開始
+   */
+  private startClipboardInput(): void {
+    this.setMode('menu');
+    this.panelManager.showClipboardUI();
+  }
+
+  /**
+   * ANIMATION機能の入力開始
+   */
+  private startAnimationInput(): void {
+    this.setMode('menu');
+    this.panelManager.showAnimationUI();
+  }
+
   /**
    * COLOR CHANGE機能の入力開始
    */
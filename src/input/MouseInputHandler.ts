@@ -3,7 +3,8 @@
  * マウスによる描画操作を処理
  */
 
-import { InputEvent, InputMode } from './InputEventTypes';
+import { InputEvent, InputMode, MouseCellPosition } from './InputEventTypes';
+import { TEXT_ROWS } from '../core/types';
 
 /** 編集エリアの情報（座標計算用） */
 export interface EditorAreaInfo {
@@ -43,6 +44,9 @@ export class MouseInputHandler {
     scale: 2
   };
 
+  /** テキスト画面の桁数（テキスト画面エディタ用） */
+  private screenColumns: number = 40;
+
   /** イベント発火コールバック */
   private emit: EmitCallback;
 
@@ -84,6 +88,34 @@ export class MouseInputHandler {
     this.editorAreaInfo = { offsetX, offsetY, dotSize, scale };
   }
 
+  /**
+   * テキスト画面の桁数を設定
+   */
+  setScreenColumns(columns: number): void {
+    this.screenColumns = columns;
+  }
+
+  /**
+   * マウス座標からテキスト画面のセル座標を計算
+   * テキスト画面はキャンバス全体に表示されるので、表示サイズの比率で求める
+   * @returns セル座標、範囲外の場合はnull
+   */
+  private getMouseCellPosition(e: MouseEvent): MouseCellPosition | null {
+    if (!this.canvas) return null;
+
+    const rect = this.canvas.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+
+    const col = Math.floor((e.clientX - rect.left) / rect.width * this.screenColumns);
+    const row = Math.floor((e.clientY - rect.top) / rect.height * TEXT_ROWS);
+
+    if (col < 0 || col >= this.screenColumns || row < 0 || row >= TEXT_ROWS) {
+      return null;
+    }
+
+    return { col, row };
+  }
+
   /**
    * マウス座標からドット座標を計算
    * @returns ドット座標（0-15）、範囲外の場合はnull
@@ -118,6 +150,16 @@ export class MouseInputHandler {
    * マウスダウンイベント処理
    */
   private handleMouseDown(e: MouseEvent): void {
+    // テキスト画面エディタではセル単位で文字を置く
+    if (this.getMode() === 'screen') {
+      const cell = this.getMouseCellPosition(e);
+      if (cell) {
+        this.isMouseDrawing = true;
+        this.emit({ type: 'screen-mouse', data: { cell } });
+      }
+      return;
+    }
+
     // メニューモードやパネル表示中は無視
     if (this.getMode() !== 'edit') return;
 
@@ -133,6 +175,15 @@ export class MouseInputHandler {
    */
   private handleMouseMove(e: MouseEvent): void {
     if (!this.isMouseDrawing) return;
+
+    if (this.getMode() === 'screen') {
+      const cell = this.getMouseCellPosition(e);
+      if (cell) {
+        this.emit({ type: 'screen-mouse', data: { cell } });
+      }
+      return;
+    }
+
     if (this.getMode() !== 'edit') return;
 
     const pos = this.getMouseDotPosition(e);
@@ -143,9 +194,12 @@ export class MouseInputHandler {
 
   /**
    * マウスアップイベント処理
+   * ドラッグ中だった場合はストローク終了を通知（UNDOの1ステップ区切り）
    */
   private handleMouseUp(): void {
+    if (!this.isMouseDrawing) return;
     this.isMouseDrawing = false;
+    this.emit({ type: 'mouse-draw-end' });
   }
 
   /**
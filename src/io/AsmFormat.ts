@@ -0,0 +1,216 @@
+/**
+ * Z80アセンブラソースの書き出し
+ * PCGデータを1文字ごとのラベル付きのバイト定義にし、PCGへ書き込むルーチンを付けられる
+ *
+ * - データの並びはBIN形式と同じ（通常: B[8],R[8],G[8]、三倍速: 行ごとにB,R,G）
+ * - 書き込みルーチンはテキストVRAMの先頭（&H3000）に文字コードを置き、
+ *   垂直帰線期間を待ってからPCGのポート（B: &H1500、R: &H1600、G: &H1700 + 行）に書き込む
+ * - ラベルはM80のように先頭6文字しか区別しないアセンブラでも重ならないよう、6文字以内にする
+ */
+
+import { PCGData } from '../core/PCGData';
+import { BinFormat } from './BinFormat';
+
+/** アセンブラの書式 */
+export type AsmSyntax =
+  | 'generic'    // DB / 0FFH（M80・ZASMなど）
+  | 'sjasmplus'  // db / $FF
+  | 'z80asm';    // defb / 0xFF（z88dk）
+
+/** アセンブラソース書き出しのオプション */
+export interface AsmOptions {
+  syntax: AsmSyntax;
+  /** 三倍速定義の並びにするか */
+  x3mode: boolean;
+  /** PCGへ書き込むルーチンを付けるか */
+  routine: boolean;
+}
+
+/** 書式ごとの違い */
+interface SyntaxRule {
+  byteDirective: string;
+  hex: (value: number, digits: number) => string;
+}
+
+const SYNTAX_RULES: Record<AsmSyntax, SyntaxRule> = {
+  generic: {
+    byteDirective: 'DB',
+    hex: (value, digits) => {
+      const text = value.toString(16).toUpperCase().padStart(digits, '0');
+      return /^[A-F]/.test(text) ? `0${text}H` : `${text}H`;
+    }
+  },
+  sjasmplus: {
+    byteDirective: 'db',
+    hex: (value, digits) => `$${value.toString(16).toUpperCase().padStart(digits, '0')}`
+  },
+  z80asm: {
+    byteDirective: 'defb',
+    hex: (value, digits) => `0x${value.toString(16).toUpperCase().padStart(digits, '0')}`
+  }
+};
+
+/** 1文字のバイト数 */
+const BYTES_PER_CHAR = 24;
+
+/** 1行に並べるバイト数（通常: 1プレーン、三倍速: 4行分） */
+const BYTES_PER_LINE = 8;
+const BYTES_PER_LINE_X3 = 12;
+
+/** X1のI/Oアドレス */
+export const X1_PORT = {
+  PCG_B: 0x1500,
+  PCG_R: 0x1600,
+  PCG_G: 0x1700,
+  TEXT_VRAM: 0x3000,
+  ATTR_VRAM: 0x2000,
+  PPI_B: 0x1A01  // bit7: 0 = 垂直帰線期間
+} as const;
+
+/**
+ * アセンブラソースの書き出しユーティリティ
+ */
+export class AsmFormat {
+  /**
+   * PCGデータをアセンブラソースに変換
+   * @param pcgData PCGデータ
+   * @param start 開始文字コード
+   * @param end 終了文字コード
+   * @param options 書式・並び・ルーチンの有無
+   * @returns Blob
+   */
+  static save(pcgData: PCGData, start: number, end: number, options: AsmOptions): Blob {
+    const data = BinFormat.toBytes(pcgData, start, end, BinFormat.getPreset(options.x3mode ? 'x3' : 'normal'));
+    const rule = SYNTAX_RULES[options.syntax];
+    const count = end - start + 1;
+    const lines: string[] = [
+      `; X1 PCG data ${rule.hex(start, 2)}-${rule.hex(end, 2)} (${count} chars, ${options.x3mode ? 'x3 interleaved B,R,G per row' : 'B[8],R[8],G[8] per char'})`,
+      '',
+      `PCGTOP\tEQU\t${rule.hex(start, 2)}`,
+      `PCGCNT\tEQU\t${count}`,
+      ''
+    ];
+
+    if (options.routine) {
+      lines.push(...AsmFormat.createRoutine(rule, count, options.x3mode), '');
+    }
+
+    const bytesPerLine = options.x3mode ? BYTES_PER_LINE_X3 : BYTES_PER_LINE;
+    lines.push('PCGDAT:');
+    for (let i = 0; i < count; i++) {
+      lines.push(`PCG_${(start + i).toString(16).toUpperCase().padStart(2, '0')}:`);
+      for (let offset = 0; offset < BYTES_PER_CHAR; offset += bytesPerLine) {
+        const bytes = data.subarray(i * BYTES_PER_CHAR + offset, i * BYTES_PER_CHAR + offset + bytesPerLine);
+        const comment = options.x3mode
+          ? `rows ${offset / 3}-${(offset + bytesPerLine) / 3 - 1}`
+          : ['B', 'R', 'G'][offset / bytesPerLine];
+        lines.push(`\t${rule.byteDirective}\t${Array.from(bytes, value => rule.hex(value, 2)).join(',')}\t; ${comment}`);
+      }
+    }
+
+    return new Blob([lines.join('\n') + '\n'], { type: 'text/plain' });
+  }
+
+  /**
+   * PCGに書き込むルーチン
+   * PCGINI: PCGDATの全文字を定義する
+   * PCGDEF:  HL = データ、D = 最初の文字コード、E = 文字数（0 = 256文字）
+   * （出力するコメントはアセンブラの文字コードに依存しないよう英語にする）
+   */
+  private static createRoutine(rule: SyntaxRule, count: number, x3mode: boolean): string[] {
+    const hex = (value: number) => rule.hex(value, 4);
+    const lines = [
+      '; Define all characters in PCGDAT',
+      'PCGINI:',
+      '\tld\thl,PCGDAT',
+      '\tld\td,PCGTOP',
+      `\tld\te,${count & 0xFF}\t\t; PCGCNT (0 = 256)`,
+      '',
+      '; Define E characters (0 = 256) from D using the data at HL',
+      'PCGDEF:',
+      '\tld\ta,d',
+      `\tld\tbc,${hex(X1_PORT.TEXT_VRAM)}`,
+      '\tout\t(c),a\t\t; put the code at the top of text VRAM',
+      '\tcall\tPCGVS'
+    ];
+
+    if (x3mode) {
+      // 行ごとにB,R,Gの順で並んでいる
+      lines.push(
+        `\tld\tbc,${hex(X1_PORT.PCG_B)}`,
+        'PCGROW:',
+        '\tld\ta,(hl)',
+        '\tout\t(c),a\t\t; B',
+        '\tinc\thl',
+        '\tinc\tb',
+        '\tld\ta,(hl)',
+        '\tout\t(c),a\t\t; R',
+        '\tinc\thl',
+        '\tinc\tb',
+        '\tld\ta,(hl)',
+        '\tout\t(c),a\t\t; G',
+        '\tinc\thl',
+        `\tld\tb,${rule.hex(X1_PORT.PCG_B >> 8, 2)}`,
+        '\tinc\tc',
+        '\tld\ta,c',
+        `\tcp\t${rule.hex(8, 2)}`,
+        '\tjr\tnz,PCGROW'
+      );
+    } else {
+      // プレーンごとに8行ずつ並んでいる
+      lines.push(
+        `\tld\tbc,${hex(X1_PORT.PCG_B)}`,
+        '\tcall\tPCGPUT',
+        `\tld\tbc,${hex(X1_PORT.PCG_R)}`,
+        '\tcall\tPCGPUT',
+        `\tld\tbc,${hex(X1_PORT.PCG_G)}`,
+        '\tcall\tPCGPUT'
+      );
+    }
+
+    lines.push(
+      '\tinc\td',
+      '\tdec\te',
+      '\tjr\tnz,PCGDEF',
+      '\tret'
+    );
+
+    if (!x3mode) {
+      lines.push(
+        '',
+        '; Write 8 rows of one plane (BC = port, C = row)',
+        'PCGPUT:',
+        '\tld\ta,(hl)',
+        '\tout\t(c),a',
+        '\tinc\thl',
+        '\tinc\tc',
+        '\tld\ta,c',
+        `\tcp\t${rule.hex(8, 2)}`,
+        '\tjr\tnz,PCGPUT',
+        '\tret'
+      );
+    }
+
+    lines.push(
+      '',
+      '; Wait for the start of the vertical blank',
+      'PCGVS:',
+      `\tld\tbc,${hex(X1_PORT.PPI_B)}`,
+      'PCGVS1:',
+      '\tin\ta,(c)',
+      '\tjp\tp,PCGVS1\t; wait for the display period',
+      'PCGVS2:',
+      '\tin\ta,(c)',
+      '\tjp\tm,PCGVS2\t; wait until the display period ends',
+      '\tret'
+    );
+    return lines;
+  }
+
+  /**
+   * デフォルトのファイル名を取得
+   */
+  static getDefaultFileName(): string {
+    return 'pcg.asm';
+  }
+}
@@ -1,167 +1,386 @@
 /**
  * BAS形式（X1 BASIC）の保存・読み込み
  * ASCII形式とバイナリ形式に対応
+ *
+ * ASCII形式では、DATA文とループで定義するローダーと、定義した文字を並べて表示する
+ * テストを付けられる（バイナリ形式はDEFCHR$/HEXCHR$以外のトークンを扱わないため1文字1行のみ）
+ *
+ * 読み込みはプログラムを字句解析して簡易インタプリタで実行し、DEFCHR$の定義を取り出す
+ * （式・マルチステートメント・FORループ・READ/DATA・CHR$の連結に対応）
  */
 
 import { PCGData } from '../core/PCGData';
-import { BAS_LINE_START } from '../core/constants';
-
-/** X1 BASICトークン定義 */
-const TOKENS = {
-  DEFCHR: 0xB2,
-  DOLLAR: 0xFF,       // $ (文字列関数拡張プレフィックス)
-  FUNC_CALL: 0xA0,    // 関数呼び出し (DEFCHR$の後)
-  LPAREN: 0x28,       // (
-  RPAREN: 0x29,       // )
-  EQUAL: 0xF4,        // =
-  HEXCHR: 0xBF,       // HEXCHR (0xFFの後)
-  QUOTE: 0x22,        // "
-  INT16: 0x12,        // 16ビット整数プレフィックス
-  LINE_END: 0x00,     // 行終端
-} as const;
+import { BAS_LINE_START, BAS_LINE_STEP, BAS_LINE_MAX } from '../core/constants';
+import { LoadIssue, LoadReport } from './LoadReport';
+import { TOKENS, BasicToken, BasicTokenizer } from './BasicTokenizer';
+import { BASIC_DIALECTS, DEFAULT_DIALECT, BasicDialect, BasicDialectId } from './BasicDialect';
+import { BasicLine, DefchrHandler, DefchrInterpreter } from './DefchrInterpreter';
+
+/** 定義の書き方 */
+export type BasLoaderStyle =
+  | 'defchr'  // 1文字1行のDEFCHR$文
+  | 'data';   // DATA文をREADしてDEFCHR$するループ
+
+/** BASICプログラムの生成オプション */
+export interface BasProgramOptions {
+  /** 最初の行番号 */
+  lineStart: number;
+  /** 行番号の増分 */
+  lineStep: number;
+  /** 定義の書き方 */
+  loader: BasLoaderStyle;
+  /** 定義した文字を16x16に並べて表示するテストを付けるか */
+  testGrid: boolean;
+  /** 中間コードの方言（バイナリ形式のみ） */
+  dialect: BasicDialectId;
+}
+
+/** 既存のプログラムに書き足した結果 */
+export interface BasMergeResult {
+  blob: Blob;
+  /** 元のプログラムがバイナリ形式か（書き足した結果も同じ形式になる） */
+  binary: boolean;
+  /** バイナリ形式の場合の方言（元のプログラムから判定できなければ指定の方言） */
+  dialect?: BasicDialectId;
+  /** 新しく追加した行数 */
+  inserted: number;
+  /** 同じ行番号の行を置き換えた数 */
+  replaced: number;
+  /** 範囲内の文字を定義していた別の行番号のDEFCHR$行を削除した数 */
+  removed: number;
+}
+
+/** プログラムの一覧表示の1行 */
+export interface BasListingLine {
+  /** 行番号（行番号のないテキストの場合は何行目か） */
+  number: number;
+  /** 行番号を除いたテキスト */
+  text: string;
+  /** DEFCHR$で文字を定義する行か（'skipped'は定義できなかった文を含む行） */
+  status: 'defined' | 'skipped' | null;
+  /** 定義できなかった理由 */
+  message?: string;
+}
+
+/** プログラムの一覧表示 */
+export interface BasListing {
+  lines: BasListingLine[];
+  /** 中間コードの方言（バイナリ形式のみ） */
+  dialect?: string;
+}
+
+/** バイナリ形式の1行（行データは行番号と行終端を除いた中間コード） */
+interface BinaryLine {
+  number: number;
+  body: Uint8Array | number[];
+}
+
+/** ASCII形式の1行（テキストは行番号を含む） */
+interface TextLine {
+  number: number;
+  text: string;
+}
+
+/** テスト表示のアトリビュート（PCG + 白） */
+const TEST_GRID_ATTR = '&H27';
 
 /** プログラム終端 */
 const PROGRAM_END = [0x00, 0x00];
 
+/**
+ * 読み込んだ定義の書き込み先を決めて、読み込めなかった定義を記録する
+ * 'start'モードでは開始コードから順に、'original'モードではファイル内のコードに書き込む
+ */
+class DefinitionReader implements DefchrHandler {
+  private pcgData: PCGData;
+  private mode: 'start' | 'original';
+  private current: number;
+  private count = 0;
+  /** &HFFを超えたため読み込まなかった定義の数 */
+  private overflow = 0;
+  private issues: LoadIssue[] = [];
+  /** 定義を読み込んだ行の行番号 */
+  readonly definedLines = new Set<number>();
+
+  constructor(pcgData: PCGData, start: number, mode: 'start' | 'original') {
+    this.pcgData = pcgData;
+    this.mode = mode;
+    this.current = start;
+  }
+
+  /**
+   * 1文字分の定義を書き込む
+   * @param line 行番号
+   * @param code ファイル内の文字コード
+   * @param charData DEFCHR$に代入された文字列のバイト列
+   */
+  define(line: number, code: number, charData: Uint8Array): void {
+    // 24バイトでない場合はスキップ
+    if (charData.length !== 24) {
+      this.skip(line, `Definition is ${charData.length} bytes (expected 24)`);
+      return;
+    }
+
+    if (this.mode === 'start') {
+      if (this.current > 255) {
+        this.overflow++;
+        return;
+      }
+      this.pcgData.setCharacter(this.current++, charData);
+    } else {
+      if (code < 0 || code > 255) {
+        this.issues.push({ kind: 'out-of-range', line, message: `Code ${code} is out of range` });
+        return;
+      }
+      this.pcgData.setCharacter(code, charData);
+    }
+    this.count++;
+    this.definedLines.add(line);
+  }
+
+  /**
+   * 定義として読めなかった行を記録
+   */
+  skip(line: number, message: string): void {
+    this.issues.push({ kind: 'skipped', line, message });
+  }
+
+  /**
+   * プログラムの後ろの余ったデータを記録
+   */
+  trailing(message: string): void {
+    this.issues.push({ kind: 'trailing', message });
+  }
+
+  /**
+   * 読み込み結果を返す
+   * @param clip &HFFを超えた定義を読み込まずに済ませるか
+   * @throws clipしない場合に&HFFを超えた定義がある
+   */
+  finish(clip: boolean): LoadReport {
+    if (this.overflow > 0) {
+      if (!clip) {
+        throw new Error('Data exceeds 256 chars');
+      }
+      this.issues.push({ kind: 'clipped', message: `${this.overflow} chars past &HFF not loaded` });
+    }
+    return { count: this.count, issues: this.issues };
+  }
+}
+
 /**
  * BAS形式の保存・読み込みユーティリティ
  */
 export class BasFormat {
   /**
    * ASCII形式で保存
+   * オプション省略時は1文字1行のDEFCHR$文だけを出力する
    * @param pcgData PCGデータ
    * @param start 開始文字コード
    * @param end 終了文字コード
+   * @param options 行番号・定義の書き方・テスト表示
    * @returns Blob
    */
-  static saveAscii(pcgData: PCGData, start: number, end: number): Blob {
+  static saveAscii(pcgData: PCGData, start: number, end: number, options: Partial<BasProgramOptions> = {}): Blob {
     const count = end - start + 1;
     if (count <= 0) {
       throw new Error('Invalid range');
     }
 
-    const lines: string[] = [];
+    const program = BasFormat.resolveOptions(options);
 
+    // B[8], R[8], G[8] を16進文字列に変換
+    const hexStrings: string[] = [];
     for (let i = 0; i < count; i++) {
-      const charCode = start + i;
-      const charData = pcgData.getCharacter(charCode);
-
-      // B[8], R[8], G[8] を16進文字列に変換
-      let hexStr = '';
-      for (let j = 0; j < 24; j++) {
-        hexStr += charData[j].toString(16).toUpperCase().padStart(2, '0');
-      }
+      hexStrings.push(BasFormat.toHexString(pcgData.getCharacter(start + i)));
+    }
 
+    const statements: string[] = [];
+    if (program.loader === 'data') {
+      statements.push(`FOR I=${start} TO ${end}:READ A$:DEFCHR$(I)=HEXCHR$(A$):NEXT`);
+    } else {
       // DEFCHR$(code)=HEXCHR$("...")
-      const lineNum = BAS_LINE_START + i * 10;
-      lines.push(`${lineNum}DEFCHR$(${charCode})=HEXCHR$("${hexStr}")`);
+      hexStrings.forEach((hexStr, i) => statements.push(`DEFCHR$(${start + i})=HEXCHR$("${hexStr}")`));
+    }
+    if (program.testGrid) {
+      statements.push(...BasFormat.createTestGrid(start, end));
+    }
+    if (program.loader === 'data' || program.testGrid) {
+      statements.push('END');
+    }
+    if (program.loader === 'data') {
+      hexStrings.forEach(hexStr => statements.push(`DATA "${hexStr}"`));
     }
 
+    const lineNumbers = BasFormat.getLineNumbers(statements.length, program);
+    const lines = statements.map((statement, i) => `${lineNumbers[i]}${statement}`);
+
     // ASCファイル（X1 BASICはCRのみ）
     const content = lines.join('\r') + '\r';
     return new Blob([content], { type: 'text/plain' });
   }
 
+  /**
+   * 定義した文字をテキストVRAMに直接書き込み、文字コード順に16x16で並べて表示する文
+   * （横に+1、縦に+16なので、4Chr.スベテで定義した2x2の文字もそのままの形で並ぶ）
+   */
+  private static createTestGrid(start: number, end: number): string[] {
+    return [
+      'WIDTH 40:CLS',
+      'LOCATE 12,1:PRINT "0123456789ABCDEF"',
+      'FOR Y=0 TO 15:LOCATE 10,Y+2:PRINT HEX$(Y):NEXT',
+      `FOR C=${start} TO ${end}:A=(INT(C/16)+2)*40+C-INT(C/16)*16+12`,
+      `OUT &H3000+A,C:OUT &H2000+A,${TEST_GRID_ATTR}:NEXT`,
+      'LOCATE 0,19'
+    ];
+  }
+
+  /**
+   * オプションの省略値を補い、行番号を有効な範囲に丸める
+   */
+  private static resolveOptions(options: Partial<BasProgramOptions>): BasProgramOptions {
+    const lineStart = Math.floor(options.lineStart ?? BAS_LINE_START);
+    const lineStep = Math.floor(options.lineStep ?? BAS_LINE_STEP);
+    return {
+      lineStart: isNaN(lineStart) ? BAS_LINE_START : Math.max(0, Math.min(BAS_LINE_MAX, lineStart)),
+      lineStep: isNaN(lineStep) ? BAS_LINE_STEP : Math.max(1, lineStep),
+      loader: options.loader ?? 'defchr',
+      testGrid: options.testGrid ?? false,
+      dialect: options.dialect ?? DEFAULT_DIALECT
+    };
+  }
+
+  /**
+   * 行番号の列を作成
+   * @throws 最後の行番号が上限を超える場合
+   */
+  private static getLineNumbers(count: number, options: BasProgramOptions): number[] {
+    const last = options.lineStart + (count - 1) * options.lineStep;
+    if (last > BAS_LINE_MAX) {
+      throw new Error(`Line number exceeds ${BAS_LINE_MAX}: ${last}`);
+    }
+    return Array.from({ length: count }, (_, i) => options.lineStart + i * options.lineStep);
+  }
+
   /**
    * バイナリ形式で保存
    * @param pcgData PCGデータ
    * @param start 開始文字コード
    * @param end 終了文字コード
+   * @param options 行番号と方言（定義の書き方とテスト表示はASCII形式のみ）
    * @returns Blob
    */
-  static saveBinary(pcgData: PCGData, start: number, end: number): Blob {
+  static saveBinary(
+    pcgData: PCGData,
+    start: number,
+    end: number,
+    options: Partial<Pick<BasProgramOptions, 'lineStart' | 'lineStep' | 'dialect'>> = {}
+  ): Blob {
     const count = end - start + 1;
     if (count <= 0) {
       throw new Error('Invalid range');
     }
 
-    // 1行のデータを生成する関数
-    const generateLine = (lineNum: number, charCode: number, hexStr: string): number[] => {
-      const lineData: number[] = [];
+    const program = BasFormat.resolveOptions(options);
+    const lineNumbers = BasFormat.getLineNumbers(count, program);
+    const dialect = BASIC_DIALECTS[program.dialect];
 
-      // 行番号 (リトルエンディアン 2バイト)
-      lineData.push(lineNum & 0xFF);
-      lineData.push((lineNum >> 8) & 0xFF);
+    // 全行のデータを生成
+    const lines: BinaryLine[] = [];
 
-      // DEFCHR$ トークン: b2 ff a0
-      lineData.push(TOKENS.DEFCHR);
-      lineData.push(TOKENS.DOLLAR);
-      lineData.push(TOKENS.FUNC_CALL);
+    for (let i = 0; i < count; i++) {
+      const charCode = start + i;
+      const charData = pcgData.getCharacter(charCode);
 
-      // (
-      lineData.push(TOKENS.LPAREN);
+      // B[8], R[8], G[8] を16進文字列に変換
+      const hexStr = BasFormat.toHexString(charData);
 
-      // 文字コード (16ビット整数): 12 xx xx
-      lineData.push(TOKENS.INT16);
-      lineData.push(charCode & 0xFF);
-      lineData.push((charCode >> 8) & 0xFF);
+      lines.push({ number: lineNumbers[i], body: BasFormat.encodeDefchrLine(charCode, hexStr, dialect) });
+    }
 
-      // )
-      lineData.push(TOKENS.RPAREN);
+    const data = BasFormat.linkLines(lines);
+    return new Blob([data.buffer as ArrayBuffer], { type: 'application/octet-stream' });
+  }
 
-      // =
-      lineData.push(TOKENS.EQUAL);
+  /**
+   * DEFCHR$(code)=HEXCHR$("...") の1行を中間コードにする（行番号と行終端を除く）
+   */
+  private static encodeDefchrLine(charCode: number, hexStr: string, dialect: BasicDialect): number[] {
+    const lineData: number[] = [];
 
-      // HEXCHR$: ff bf
-      lineData.push(TOKENS.DOLLAR);
-      lineData.push(TOKENS.HEXCHR);
+    // DEFCHR$ トークン（Hu-BASIC: b2 ff a0）
+    lineData.push(...BasFormat.getTokenBytes(dialect, 'DEFCHR$'));
 
-      // (
-      lineData.push(TOKENS.LPAREN);
+    // (
+    lineData.push(TOKENS.LPAREN);
 
-      // "文字列"
-      lineData.push(TOKENS.QUOTE);
-      for (let i = 0; i < hexStr.length; i++) {
-        lineData.push(hexStr.charCodeAt(i));
-      }
-      lineData.push(TOKENS.QUOTE);
+    // 文字コード（Hu-BASIC: 16ビット整数 12 xx xx）
+    lineData.push(...dialect.encodeNumber(charCode));
 
-      // )
-      lineData.push(TOKENS.RPAREN);
+    // )
+    lineData.push(TOKENS.RPAREN);
 
-      // 行終端
-      lineData.push(TOKENS.LINE_END);
+    // =
+    lineData.push(...BasFormat.getTokenBytes(dialect, '='));
 
-      return lineData;
-    };
+    // HEXCHR$（Hu-BASIC: ff bf）
+    lineData.push(...BasFormat.getTokenBytes(dialect, 'HEXCHR$'));
 
-    // 全行のデータを生成
-    const allLines: number[][] = [];
+    // (
+    lineData.push(TOKENS.LPAREN);
 
-    for (let i = 0; i < count; i++) {
-      const charCode = start + i;
-      const charData = pcgData.getCharacter(charCode);
+    // "文字列"
+    lineData.push(TOKENS.QUOTE);
+    for (let i = 0; i < hexStr.length; i++) {
+      lineData.push(hexStr.charCodeAt(i));
+    }
+    lineData.push(TOKENS.QUOTE);
 
-      // B[8], R[8], G[8] を16進文字列に変換
-      let hexStr = '';
-      for (let j = 0; j < 24; j++) {
-        hexStr += charData[j].toString(16).toUpperCase().padStart(2, '0');
-      }
+    // )
+    lineData.push(TOKENS.RPAREN);
 
-      const lineNum = BAS_LINE_START + i * 10;
-      allLines.push(generateLine(lineNum, charCode, hexStr));
+    return lineData;
+  }
+
+  /**
+   * 方言のキーワード・記号の中間コード
+   * @throws 方言の表にない場合
+   */
+  private static getTokenBytes(dialect: BasicDialect, text: string): number[] {
+    const entry = dialect.tokens.find(token => token.text === text);
+    if (!entry) {
+      throw new Error(`${text} is not available in ${dialect.name}`);
     }
+    return entry.bytes;
+  }
 
-    // リンクポインタを計算して最終データを生成
+  /**
+   * 各行にリンクポインタ・行番号・行終端を付けてつなぎ、プログラム終端を付ける
+   */
+  private static linkLines(lines: BinaryLine[]): Uint8Array {
     const finalData: number[] = [];
 
-    for (let i = 0; i < allLines.length; i++) {
-      const lineData = allLines[i];
-      const lineSize = 2 + lineData.length;
+    for (const line of lines) {
+      // リンクポインタ(2B) + 行番号(2B) + 行データ + 行終端(1B)
+      const lineSize = 4 + line.body.length + 1;
 
       // リンクポインタを追加（リトルエンディアン）
       finalData.push(lineSize & 0xFF);
       finalData.push((lineSize >> 8) & 0xFF);
 
-      // 行データを追加
-      finalData.push(...lineData);
+      // 行番号 (リトルエンディアン 2バイト)
+      finalData.push(line.number & 0xFF);
+      finalData.push((line.number >> 8) & 0xFF);
+
+      // 行データと行終端を追加
+      finalData.push(...line.body);
+      finalData.push(TOKENS.LINE_END);
     }
 
     // プログラム終端を追加
     finalData.push(...PROGRAM_END);
 
-    const data = new Uint8Array(finalData);
-    return new Blob([data.buffer as ArrayBuffer], { type: 'application/octet-stream' });
+    return new Uint8Array(finalData);
   }
 
   /**
@@ -170,80 +389,148 @@ export class BasFormat {
    * @param pcgData 書き込み先のPCGData
    * @param start 開始文字コード（'start'モード時のみ使用）
    * @param mode 'start': STARTから連続読み込み, 'original': ファイル内のコードをそのまま使用
-   * @returns 読み込んだ文字数
+   * @param clip 'start'モードで&HFFを超える定義を読み込まずに済ませるか（falseならエラー）
+   * @param dialect バイナリ形式の方言（'auto'なら自動判定）
+   * @returns 読み込み結果
    */
-  static load(data: Uint8Array, pcgData: PCGData, start: number, mode: 'start' | 'original'): number {
+  static load(
+    data: Uint8Array,
+    pcgData: PCGData,
+    start: number,
+    mode: 'start' | 'original',
+    clip: boolean = false,
+    dialect: BasicDialectId | 'auto' = 'auto'
+  ): LoadReport {
     // バイナリ形式かASCII形式かを判定（行終端に0x00を含むかどうか）
     const isBinary = data.includes(0x00);
+    const reader = new DefinitionReader(pcgData, start, mode);
+    let dialectName: string | undefined;
+
+    // 変更通知は読み込み全体で1回にまとめる
+    pcgData.batch(() => {
+      if (isBinary) {
+        dialectName = BasFormat.loadBinary(data, reader, dialect).name;
+      } else {
+        BasFormat.loadAsciiText(BasFormat.decodeText(data), reader);
+      }
+    });
 
-    if (isBinary) {
-      return BasFormat.loadBinary(data, pcgData, start, mode);
-    } else {
-      const text = new TextDecoder().decode(data);
-      return BasFormat.loadAsciiText(text, pcgData, start, mode);
-    }
+    const report = reader.finish(clip);
+    return dialectName ? { ...report, dialect: dialectName } : report;
   }
 
   /**
    * ASCII形式のテキストを読み込み
    */
-  private static loadAsciiText(text: string, pcgData: PCGData, start: number, mode: 'start' | 'original'): number {
-    // すべての改行コードに対応（CR, LF, CRLF）
-    const lines = text.split(/\r\n|\r|\n/);
-
-    // DEFCHR$パターン
-    const defchrPattern = /DEFCHR\$\s*\(\s*(\d+)\s*\)\s*=\s*HEXCHR\$\s*\(\s*"([0-9A-Fa-f]+)"\s*\)/i;
-
-    let loadCount = 0;
-    let currentCode = start;
-
-    for (const line of lines) {
-      const match = line.match(defchrPattern);
-      if (!match) continue;
+  private static loadAsciiText(text: string, reader: DefinitionReader): void {
+    const lines: BasicLine[] = BasFormat.splitTextLines(text).map(line => ({
+      number: line.number,
+      tokens: BasicTokenizer.tokenizeText(line.text)
+    }));
+    new DefchrInterpreter(lines, reader).run();
+  }
 
-      const originalCode = parseInt(match[1], 10);
-      const hexStr = match[2];
+  /**
+   * ASCII形式のファイルをテキストにする
+   * 文字列中のかなやグラフィック文字（0x80以上）を壊さないよう、1バイトを1文字として扱う
+   */
+  private static decodeText(data: Uint8Array): string {
+    return Array.from(data, value => String.fromCharCode(value)).join('');
+  }
 
-      // 48文字（24バイト x 2）でない場合はスキップ
-      if (hexStr.length !== 48) {
-        console.warn(`Invalid hex length for code ${originalCode}: ${hexStr.length}`);
-        continue;
-      }
+  /**
+   * ASCII形式のテキストを行番号と本文に分ける（空の行は除く）
+   * 報告にはBASICの行番号（なければ何行目か）を使う
+   */
+  private static splitTextLines(text: string): { number: number; text: string }[] {
+    const lines: { number: number; text: string }[] = [];
 
-      // 16進文字列をバイト配列に変換
-      const charData = new Uint8Array(24);
-      for (let i = 0; i < 24; i++) {
-        charData[i] = parseInt(hexStr.substr(i * 2, 2), 16);
-      }
+    // すべての改行コードに対応（CR, LF, CRLF）
+    text.split(/\r\n|\r|\n/).forEach((line, index) => {
+      const lineNumber = line.match(/^\s*(\d+)/);
+      const body = lineNumber ? line.slice(lineNumber[0].length) : line;
+      if (body.trim() === '') return;
+      lines.push({ number: lineNumber ? parseInt(lineNumber[1], 10) : index + 1, text: body });
+    });
+
+    return lines;
+  }
 
-      // 書き込み先コードを決定
-      const targetCode = mode === 'original' ? originalCode : currentCode;
+  /**
+   * バイナリ形式を読み込み
+   * @param dialectId 方言（'auto'なら自動判定し、判定できなければ既定の方言）
+   * @returns 使った方言と表示名
+   */
+  private static loadBinary(
+    data: Uint8Array,
+    reader: DefinitionReader,
+    dialectId: BasicDialectId | 'auto'
+  ): { dialect: BasicDialect; name: string } {
+    const binaryLines = BasFormat.readBinaryLines(data, reader);
+    const { dialect, name } = BasFormat.resolveDialect(binaryLines, dialectId);
+
+    const lines = binaryLines.map(line => ({
+      number: line.number,
+      tokens: BasicTokenizer.tokenizeBinary(Uint8Array.from(line.body), dialect)
+    }));
+    new DefchrInterpreter(lines, reader).run();
+
+    return { dialect, name };
+  }
 
-      // 範囲チェック
-      if (targetCode < 0 || targetCode > 255) {
-        console.warn(`Code out of range: ${targetCode}`);
-        if (mode === 'start') currentCode++;
-        continue;
-      }
+  /**
+   * 使う方言を決める
+   * @param dialectId 方言（'auto'なら自動判定し、判定できなければ既定の方言）
+   * @returns 方言と表示名（自動判定の場合は判定できたか、値を確認できていないトークンを使ったかを付ける）
+   */
+  private static resolveDialect(lines: BinaryLine[], dialectId: BasicDialectId | 'auto'): { dialect: BasicDialect; name: string } {
+    const detected = dialectId === 'auto' ? BasFormat.detectDialect(lines) : null;
+    const dialect = dialectId !== 'auto' ? BASIC_DIALECTS[dialectId] : detected ?? BASIC_DIALECTS[DEFAULT_DIALECT];
 
-      pcgData.setCharacter(targetCode, charData);
-      loadCount++;
+    const notes: string[] = [];
+    if (dialectId === 'auto') {
+      notes.push(detected ? 'detected' : 'not detected');
+    }
+    if (lines.some(line => BasicTokenizer.hasUnconfirmed(Uint8Array.from(line.body), dialect))) {
+      notes.push('unconfirmed tokens');
+    }
+    return { dialect, name: notes.length > 0 ? `${dialect.name} (${notes.join(', ')})` : dialect.name };
+  }
 
-      if (mode === 'start') {
-        currentCode++;
-        if (currentCode > 255) break;
+  /**
+   * 読み込める文字がもっとも多い方言を選ぶ
+   * 同じ数なら解釈できないトークンの少ない方言、それも同じなら一覧の順に選ぶ
+   * @returns 方言（どの方言でも文字を定義できなければnull）
+   */
+  private static detectDialect(lines: BinaryLine[]): BasicDialect | null {
+    let best: BasicDialect | null = null;
+    let bestCount = 0;
+    let bestUnknown = Infinity;
+
+    for (const dialect of Object.values(BASIC_DIALECTS)) {
+      const tokenized = lines.map(line => ({
+        number: line.number,
+        tokens: BasicTokenizer.tokenizeBinary(Uint8Array.from(line.body), dialect)
+      }));
+      let count = 0;
+      new DefchrInterpreter(tokenized, { define: () => { count++; }, skip: () => {} }).run();
+      const unknown = tokenized.reduce((sum, line) => sum + line.tokens.filter(token => token.type === 'unknown').length, 0);
+
+      if (count > bestCount || (count === bestCount && count > 0 && unknown < bestUnknown)) {
+        best = dialect;
+        bestCount = count;
+        bestUnknown = unknown;
       }
     }
-
-    return loadCount;
+    return best;
   }
 
   /**
-   * バイナリ形式を読み込み
+   * バイナリ形式を行に分ける
+   * 行のつながりが壊れている場合やプログラム終端の後ろのデータは報告する
    */
-  private static loadBinary(data: Uint8Array, pcgData: PCGData, start: number, mode: 'start' | 'original'): number {
-    let loadCount = 0;
-    let currentCode = start;
+  private static readBinaryLines(data: Uint8Array, reader: Pick<DefinitionReader, 'skip' | 'trailing'>): BinaryLine[] {
+    const lines: BinaryLine[] = [];
     let offset = 0;
 
     // プログラム終端（0x00 0x00）まで処理
@@ -254,110 +541,226 @@ export class BasFormat {
 
       // プログラム終端
       if (linkPointer === 0x0000) {
-        break;
+        const trailing = data.length - (offset + 2);
+        if (trailing > 0) {
+          reader.trailing(`${trailing} bytes after program end ignored`);
+        }
+        return lines;
       }
 
       const lineStart = offset;
-      offset += 4;  // リンクポインタ(2B) + 行番号(2B)
+      const lineNumber = data[offset + 2] | (data[offset + 3] << 8);
 
       const lineEnd = lineStart + linkPointer - 1;
-
-      // DEFCHR$行かチェック（b2 ff a0 で始まる）
-      if (offset + 3 <= lineEnd &&
-          data[offset] === TOKENS.DEFCHR &&
-          data[offset + 1] === TOKENS.DOLLAR &&
-          data[offset + 2] === TOKENS.FUNC_CALL) {
-
-        const result = BasFormat.parseDefchrBinaryLine(data, offset, lineEnd);
-
-        if (result) {
-          const { charCode: originalCode, hexStr } = result;
-          const targetCode = mode === 'original' ? originalCode : currentCode;
-
-          if (targetCode >= 0 && targetCode <= 255) {
-            const charData = new Uint8Array(24);
-            for (let i = 0; i < 24; i++) {
-              charData[i] = parseInt(hexStr.substr(i * 2, 2), 16);
-            }
-
-            pcgData.setCharacter(targetCode, charData);
-            loadCount++;
-
-            if (mode === 'start') {
-              currentCode++;
-              if (currentCode > 255) break;
-            }
-          }
-        }
+      if (lineEnd >= data.length) {
+        reader.skip(lineNumber, 'Line runs past end of file');
+        return lines;
       }
 
+      // リンクポインタ(2B) + 行番号(2B) の後ろから行終端の手前まで
+      lines.push({ number: lineNumber, body: data.subarray(lineStart + 4, Math.max(lineStart + 4, lineEnd)) });
+
       offset = lineStart + linkPointer;
     }
 
-    return loadCount;
+    reader.trailing('Program end marker missing');
+    return lines;
   }
 
   /**
-   * DEFCHR$バイナリ行をパース
+   * プログラムを一覧表示用のテキストにする（ASCII/バイナリ自動判定）
+   * 読み込みと同じように実行し、DEFCHR$で文字を定義する行と定義できなかった行に印を付ける
+   * @param data バイナリデータ
+   * @param dialectId バイナリ形式の方言（'auto'なら自動判定）
+   * @returns 各行のテキストと印
    */
-  private static parseDefchrBinaryLine(data: Uint8Array, offset: number, lineEnd: number): { charCode: number; hexStr: string } | null {
-    // b2 ff a0 をスキップ（DEFCHR$）
-    offset += 3;
-
-    // ( (0x28) をスキップ
-    if (offset >= lineEnd || data[offset] !== TOKENS.LPAREN) return null;
-    offset++;
-
-    // 文字コードを読む
-    let charCode: number;
-    if (data[offset] === TOKENS.INT16) {
-      // 16ビット整数: 12 xx xx
-      if (offset + 3 > lineEnd) return null;
-      charCode = data[offset + 1] | (data[offset + 2] << 8);
-      offset += 3;
-    } else if (data[offset] >= 0x02 && data[offset] <= 0x0A) {
-      // 小さい整数: 1-9 は値+1で格納
-      charCode = data[offset] - 1;
-      offset++;
+  static list(data: Uint8Array, dialectId: BasicDialectId | 'auto' = 'auto'): BasListing {
+    // 文字コードを確かめるため、ファイル内のコードのまま作業用のPCGDataに読み込む
+    const reader = new DefinitionReader(new PCGData(), 0, 'original');
+    let lines: { number: number; text: string }[];
+    let dialectName: string | undefined;
+
+    if (data.includes(0x00)) {
+      const { dialect, name } = BasFormat.loadBinary(data, reader, dialectId);
+      dialectName = name;
+      lines = BasFormat.readBinaryLines(data, { skip: () => {}, trailing: () => {} }).map(line => ({
+        number: line.number,
+        text: BasicTokenizer.detokenizeBinary(Uint8Array.from(line.body), dialect)
+      }));
     } else {
-      return null;
+      const text = BasFormat.decodeText(data);
+      BasFormat.loadAsciiText(text, reader);
+      lines = BasFormat.splitTextLines(text).map(line => ({ number: line.number, text: line.text.trimStart() }));
+    }
+
+    const { issues } = reader.finish(true);
+    return {
+      lines: lines.map(line => {
+        const messages = issues.filter(issue => issue.line === line.number).map(issue => issue.message);
+        return {
+          number: line.number,
+          text: line.text,
+          status: messages.length > 0 ? 'skipped' : reader.definedLines.has(line.number) ? 'defined' : null,
+          message: messages.length > 0 ? messages.join('; ') : undefined
+        };
+      }),
+      dialect: dialectName
+    };
+  }
+
+  /**
+   * 既存のプログラムに範囲の文字のDEFCHR$行を書き足す
+   * 範囲内の文字を定数のコードで定義している1文だけの行は、置き換える（同じ行番号）か削除する
+   * それ以外の行はそのまま残し、元のプログラムと同じ形式（ASCII/バイナリ）で書き出す
+   * @param program 既存のプログラム
+   * @param pcgData PCGデータ
+   * @param start 開始文字コード
+   * @param end 終了文字コード
+   * @param options 行番号と方言（方言は元のプログラムから判定できない場合に使う）
+   * @returns 書き足したプログラムと、追加・置き換え・削除した行数
+   * @throws 行のつながりが壊れている、行番号のない行がある、書き足す行番号がほかの行と重なる場合
+   */
+  static merge(
+    program: Uint8Array,
+    pcgData: PCGData,
+    start: number,
+    end: number,
+    options: Partial<Pick<BasProgramOptions, 'lineStart' | 'lineStep' | 'dialect'>> = {}
+  ): BasMergeResult {
+    const count = end - start + 1;
+    if (count <= 0) {
+      throw new Error('Invalid range');
     }
 
-    // ) (0x29) をスキップ
-    if (offset >= lineEnd || data[offset] !== TOKENS.RPAREN) return null;
-    offset++;
+    const resolved = BasFormat.resolveOptions(options);
+    const lineNumbers = BasFormat.getLineNumbers(count, resolved);
+    const hexStrings = lineNumbers.map((_, i) => BasFormat.toHexString(pcgData.getCharacter(start + i)));
+
+    if (program.includes(0x00)) {
+      // プログラム終端の後ろのデータは書き出さない
+      const existing = BasFormat.readBinaryLines(program, {
+        skip: (_, message) => { throw new Error(message); },
+        trailing: () => {}
+      });
+      const dialect = BasFormat.detectDialect(existing) ?? BASIC_DIALECTS[resolved.dialect];
+      const added = lineNumbers.map((number, i) => ({ number, body: BasFormat.encodeDefchrLine(start + i, hexStrings[i], dialect) }));
+      const merged = BasFormat.mergeLines(existing, added, start, end,
+        line => BasicTokenizer.tokenizeBinary(Uint8Array.from(line.body), dialect));
+
+      const data = BasFormat.linkLines(merged.lines);
+      return {
+        blob: new Blob([data.buffer as ArrayBuffer], { type: 'application/octet-stream' }),
+        binary: true,
+        dialect: dialect.id,
+        inserted: merged.inserted,
+        replaced: merged.replaced,
+        removed: merged.removed
+      };
+    }
 
-    // = (0xF4) をスキップ
-    if (offset >= lineEnd || data[offset] !== TOKENS.EQUAL) return null;
-    offset++;
+    const text = BasFormat.decodeText(program);
+    const newline = text.match(/\r\n|\r|\n/)?.[0] ?? '\r';
+    const existing: TextLine[] = [];
+    text.split(/\r\n|\r|\n/).forEach((line, index) => {
+      if (line.trim() === '') return;
+      const lineNumber = line.match(/^\s*(\d+)/);
+      if (!lineNumber) {
+        throw new Error(`Line ${index + 1} has no line number`);
+      }
+      existing.push({ number: parseInt(lineNumber[1], 10), text: line });
+    });
+    const added = lineNumbers.map((number, i) => ({ number, text: `${number}DEFCHR$(${start + i})=HEXCHR$("${hexStrings[i]}")` }));
+    const merged = BasFormat.mergeLines(existing, added, start, end,
+      line => BasicTokenizer.tokenizeText(line.text.replace(/^\s*\d+/, '')));
+
+    const content = merged.lines.map(line => line.text).join(newline) + newline;
+    return {
+      blob: new Blob([Uint8Array.from(content, ch => ch.charCodeAt(0) & 0xFF)], { type: 'text/plain' }),
+      binary: false,
+      inserted: merged.inserted,
+      replaced: merged.replaced,
+      removed: merged.removed
+    };
+  }
 
-    // HEXCHR$ (ff bf) をスキップ
-    if (offset + 2 > lineEnd || data[offset] !== TOKENS.DOLLAR || data[offset + 1] !== TOKENS.HEXCHR) return null;
-    offset += 2;
+  /**
+   * 既存の行と追加する行を行番号順にまとめる
+   * 置き換えるのは範囲内のDEFCHR$行だけで、ほかの行と行番号が重なる場合は書き足さない
+   * @param tokenize 既存の行をトークン列にする関数（範囲内のDEFCHR$行の判定に使う）
+   * @throws 追加する行番号が、範囲内のDEFCHR$行以外の行と重なる場合
+   */
+  private static mergeLines<T extends { number: number }>(
+    existing: T[],
+    added: T[],
+    start: number,
+    end: number,
+    tokenize: (line: T) => BasicToken[]
+  ): { lines: T[]; inserted: number; replaced: number; removed: number } {
+    const addedNumbers = new Set(added.map(line => line.number));
+    let replaced = 0;
+    let removed = 0;
+
+    const kept = existing.filter(line => {
+      const code = BasFormat.getDefinedCode(tokenize(line));
+      if (code !== null && code >= start && code <= end) {
+        if (addedNumbers.has(line.number)) {
+          replaced++;
+        } else {
+          removed++;
+        }
+        return false;
+      }
+      if (addedNumbers.has(line.number)) {
+        throw new Error(`Line ${line.number} is already used (change START/STEP)`);
+      }
+      return true;
+    });
+
+    return {
+      lines: [...kept, ...added].sort((a, b) => a.number - b.number),
+      inserted: added.length - replaced,
+      replaced,
+      removed
+    };
+  }
 
-    // ( (0x28) をスキップ
-    if (offset >= lineEnd || data[offset] !== TOKENS.LPAREN) return null;
-    offset++;
+  /**
+   * DEFCHR$(定数)=... の1文だけの行なら、その文字コード
+   */
+  private static getDefinedCode(tokens: BasicToken[]): number | null {
+    const isSymbol = (token: BasicToken | undefined, value: string) => token?.type === 'symbol' && token.value === value;
+    const [defchr, lparen, code, rparen, equal] = tokens;
 
-    // " (0x22) をスキップ
-    if (offset >= lineEnd || data[offset] !== TOKENS.QUOTE) return null;
-    offset++;
+    if (defchr?.type !== 'word' || defchr.value !== 'DEFCHR$' || code?.type !== 'number' ||
+        !isSymbol(lparen, '(') || !isSymbol(rparen, ')') || !isSymbol(equal, '=') ||
+        tokens.some(token => isSymbol(token, ':'))) {
+      return null;
+    }
+    return code.value;
+  }
 
-    // 48文字のHEX文字列を読む
-    if (offset + 48 > lineEnd) return null;
+  /**
+   * 1文字分のデータ（B[8], R[8], G[8]）をHEXCHR$の16進文字列（48桁）に変換
+   */
+  static toHexString(charData: Uint8Array): string {
     let hexStr = '';
-    for (let i = 0; i < 48; i++) {
-      hexStr += String.fromCharCode(data[offset + i]);
+    for (let i = 0; i < 24; i++) {
+      hexStr += charData[i].toString(16).toUpperCase().padStart(2, '0');
     }
-    offset += 48;
-
-    // " (0x22) を確認
-    if (offset >= lineEnd || data[offset] !== TOKENS.QUOTE) return null;
+    return hexStr;
+  }
 
-    // HEX文字列の検証
+  /**
+   * HEXCHR$の16進文字列（48桁）を1文字分のデータに変換
+   * @returns 48桁の16進数でない場合はnull
+   */
+  static parseHexString(hexStr: string): Uint8Array | null {
     if (!/^[0-9A-Fa-f]{48}$/.test(hexStr)) return null;
-
-    return { charCode, hexStr };
+    const charData = new Uint8Array(24);
+    for (let i = 0; i < 24; i++) {
+      charData[i] = parseInt(hexStr.substr(i * 2, 2), 16);
+    }
+    return charData;
   }
 
   /**
@@ -0,0 +1,217 @@
+/**
+ * X1系BASICの中間コードの方言
+ * 方言ごとに、キーワード・記号のトークンの表と数値の格納形式を定義する
+ *
+ * トークンの値を実際のプログラムと照合して確認できているのは、Hu-BASICの
+ * DEFCHR$（B2 FF A0）・CHR$（FF A0）・HEXCHR$（FF BF）・=（F4）と数値の形式だけ。
+ * ほかのキーワード・演算子は確認できている値の並びに合わせて置いた未確認の値で、
+ * 確認できていない値を使った場合は読み込み結果にそのことを表示する（確認できた値は confirmed に加える）
+ */
+
+/** 方言の種類 */
+export type BasicDialectId = 'hu' | 'disk' | 'turbo';
+
+/** 中間コードの1つのトークン */
+export interface DialectToken {
+  /** キーワード・記号（"DEFCHR$"・"=" など） */
+  text: string;
+  bytes: number[];
+}
+
+/** 中間コードの方言 */
+export interface BasicDialect {
+  id: BasicDialectId;
+  /** 表示名 */
+  name: string;
+  /** キーワード・記号の中間コード */
+  tokens: DialectToken[];
+  /** 値を確認できているキーワード・記号（ほかは未確認） */
+  confirmed: string[];
+  /** 数値の格納形式を確認できているか */
+  numbersConfirmed: boolean;
+  /** 次のバイトと組で1つのトークンになる拡張プレフィックス */
+  prefixes: number[];
+  /** 数値定数を中間コードにする */
+  encodeNumber(value: number): number[];
+  /**
+   * 指定位置の数値定数を読む
+   * @returns 値とバイト数（数値定数でなければnull）
+   */
+  decodeNumber(bytes: Uint8Array, index: number): { value: number; length: number } | null;
+}
+
+/** 関数などの拡張プレフィックス */
+const PREFIX_FUNCTION = 0xFF;
+/** ディスク・turbo拡張の命令のプレフィックス */
+const PREFIX_EXTENSION = 0xFE;
+
+/**
+ * 1バイトのトークンを並べる
+ * @param first 最初のトークンのコード（以降は1ずつ増える）
+ */
+function sequence(first: number, texts: string[]): DialectToken[] {
+  return texts.map((text, i) => ({ text, bytes: [first + i] }));
+}
+
+/**
+ * プレフィックスと1バイトの組のトークンを並べる
+ */
+function prefixed(prefix: number, entries: [string, number][]): DialectToken[] {
+  return entries.map(([text, code]) => ({ text, bytes: [prefix, code] }));
+}
+
+/**
+ * Hu-BASICのトークン
+ * - 命令: &H80〜（DEFはB2）
+ * - 命令の一部・演算子: &HE0〜（=はF4）
+ * - 関数: FF + &H80〜（CHR$はFF A0、HEXCHR$はFF BF）
+ * DEFCHR$はDEF(B2)とCHR$(FF A0)の組として格納される
+ */
+const HU_TOKENS: DialectToken[] = [
+  { text: 'DEFCHR$', bytes: [0xB2, PREFIX_FUNCTION, 0xA0] },
+  ...sequence(0x80, [
+    'END', 'FOR', 'NEXT', 'DATA', 'INPUT', 'DIM', 'READ', 'LET',
+    'GOTO', 'RUN', 'IF', 'RESTORE', 'GOSUB', 'RETURN', 'REM', 'STOP',
+    'PRINT', 'CLEAR', 'LIST', 'NEW', 'ON', 'WAIT', 'POKE', 'CONT',
+    'OUT', 'LPRINT', 'LLIST', 'CLS', 'WIDTH', 'TRON', 'TROFF', 'SWAP',
+    'ERASE', 'ERROR', 'RESUME', 'DELETE', 'AUTO', 'RENUM', 'LOCATE', 'COLOR',
+    'CONSOLE', 'LINE', 'PSET', 'PRESET', 'CIRCLE', 'PAINT', 'LOAD', 'SAVE',
+    'MERGE', 'VERIFY', 'DEF', 'KEY', 'BEEP', 'SOUND', 'MUSIC', 'TEMPO',
+    'CGEN', 'CREV', 'LABEL', 'MON', 'DEVICE', 'WHILE', 'WEND', 'REPEAT',
+    'UNTIL', 'PAUSE', 'CLICK', 'LIMIT', 'OPTION'
+  ]),
+  ...sequence(0xE0, [
+    'TO', 'STEP', 'THEN', 'ELSE', 'TAB', 'SPC', 'USING', 'FN',
+    'NOT', 'AND', 'OR', 'XOR', 'MOD', '\\', '^', '*',
+    '/', '+', '-', '>', '=', '<'
+  ]),
+  ...prefixed(PREFIX_FUNCTION, [
+    ['INT', 0x80], ['ABS', 0x81], ['SGN', 0x82], ['SQR', 0x83], ['SIN', 0x84], ['COS', 0x85],
+    ['TAN', 0x86], ['ATN', 0x87], ['EXP', 0x88], ['LOG', 0x89], ['RND', 0x8A], ['FIX', 0x8B],
+    ['PEEK', 0x8C], ['INP', 0x8D], ['FRE', 0x8E], ['POS', 0x8F], ['CSRLIN', 0x90], ['LEN', 0x91],
+    ['VAL', 0x92], ['ASC', 0x93], ['INSTR', 0x94], ['POINT', 0x95], ['ERL', 0x96], ['ERR', 0x97],
+    ['USR', 0x98],
+    ['CHR$', 0xA0], ['STR$', 0xA1], ['HEX$', 0xA2], ['OCT$', 0xA3], ['LEFT$', 0xA4], ['RIGHT$', 0xA5],
+    ['MID$', 0xA6], ['SPACE$', 0xA7], ['STRING$', 0xA8], ['INKEY$', 0xA9], ['TIME$', 0xAA], ['DATE$', 0xAB],
+    ['SCRN$', 0xAC], ['ATTR$', 0xAD],
+    ['HEXCHR$', 0xBF]
+  ])
+];
+
+/** X1 Disk BASICで追加された命令・関数（未確認） */
+const DISK_TOKENS: DialectToken[] = [
+  ...prefixed(PREFIX_EXTENSION, [
+    ['FILES', 0x80], ['KILL', 0x81], ['NAME', 0x82], ['OPEN', 0x83], ['CLOSE', 0x84],
+    ['FIELD', 0x85], ['GET', 0x86], ['PUT', 0x87], ['LSET', 0x88], ['RSET', 0x89],
+    ['MOUNT', 0x8A], ['REMOVE', 0x8B], ['INIT', 0x8C], ['SET', 0x8D], ['RESET', 0x8E]
+  ]),
+  ...prefixed(PREFIX_FUNCTION, [
+    ['DSKF', 0xD0], ['EOF', 0xD1], ['LOC', 0xD2], ['LOF', 0xD3], ['CVI', 0xD4], ['CVS', 0xD5],
+    ['CVD', 0xD6], ['MKI$', 0xD7], ['MKS$', 0xD8], ['MKD$', 0xD9]
+  ])
+];
+
+/** X1turbo BASICで追加された命令・関数（未確認） */
+const TURBO_TOKENS: DialectToken[] = [
+  ...prefixed(PREFIX_EXTENSION, [
+    ['PALET', 0xA0], ['SCREEN', 0xA1], ['WINDOW', 0xA2], ['VIEW', 0xA3], ['GRAPH', 0xA4],
+    ['CANVAS', 0xA5], ['PRW', 0xA6], ['KANJI', 0xA7], ['CALL', 0xA8], ['BANK', 0xA9]
+  ]),
+  ...prefixed(PREFIX_FUNCTION, [['KNJ$', 0xE0], ['JIS$', 0xE1], ['KTN$', 0xE2]])
+];
+
+/** Hu-BASICで確認できているトークン */
+const HU_CONFIRMED = ['DEFCHR$', 'CHR$', 'HEXCHR$', '='];
+
+/** Hu-BASIC・X1 Disk BASICの数値定数 */
+const INT16 = 0x12;  // 16ビット整数プレフィックス（リトルエンディアン）
+const INT8 = 0x11;   // 8ビット整数プレフィックス（X1 Disk BASIC）
+
+/** X1turbo BASICの数値定数 */
+const TURBO_INT8 = 0x0F;
+const TURBO_INT16 = 0x1C;
+const TURBO_DIGIT_MIN = 0x11;  // 0-9は値+0x11で格納
+const TURBO_DIGIT_MAX = 0x1A;
+
+/**
+ * 1バイトで格納する小さい整数を読む
+ * @param first 最小値を格納するコード
+ * @param last 最大値を格納するコード
+ * @param offset コードから値を引く量
+ */
+function decodeSmallInt(value: number, first: number, last: number, offset: number): { value: number; length: number } | null {
+  return value >= first && value <= last ? { value: value - offset, length: 1 } : null;
+}
+
+/**
+ * プレフィックスの後ろの8/16ビット整数を読む
+ * @param int8 8ビット整数のプレフィックス（なければnull）
+ * @param int16 16ビット整数のプレフィックス
+ */
+function decodePrefixed(
+  bytes: Uint8Array,
+  index: number,
+  int8: number | null,
+  int16: number
+): { value: number; length: number } | null {
+  const value = bytes[index];
+  if (value === int16 && index + 2 < bytes.length) {
+    return { value: bytes[index + 1] | (bytes[index + 2] << 8), length: 3 };
+  }
+  if (value === int8 && index + 1 < bytes.length) {
+    return { value: bytes[index + 1], length: 2 };
+  }
+  return null;
+}
+
+/** Hu-BASIC */
+const HU_BASIC: BasicDialect = {
+  id: 'hu',
+  name: 'Hu-BASIC',
+  tokens: HU_TOKENS,
+  confirmed: HU_CONFIRMED,
+  numbersConfirmed: true,
+  prefixes: [PREFIX_FUNCTION],
+  encodeNumber: value => [INT16, value & 0xFF, (value >> 8) & 0xFF],
+  // 1-9は値+1で格納
+  decodeNumber: (bytes, index) =>
+    decodePrefixed(bytes, index, null, INT16) ?? decodeSmallInt(bytes[index], 0x02, 0x0A, 1)
+};
+
+/** X1 Disk BASIC（Hu-BASICにディスク命令を加えたもの。追加分と数値の形式は未確認） */
+const DISK_BASIC: BasicDialect = {
+  id: 'disk',
+  name: 'X1 Disk BASIC',
+  tokens: [...HU_TOKENS, ...DISK_TOKENS],
+  confirmed: HU_CONFIRMED,
+  numbersConfirmed: false,
+  prefixes: [PREFIX_FUNCTION, PREFIX_EXTENSION],
+  encodeNumber: value => [INT16, value & 0xFF, (value >> 8) & 0xFF],
+  // 0-9は値+1で格納
+  decodeNumber: (bytes, index) =>
+    decodePrefixed(bytes, index, INT8, INT16) ?? decodeSmallInt(bytes[index], 0x01, 0x0A, 1)
+};
+
+/** X1turbo BASIC（X1 Disk BASICに拡張命令を加えたもの。追加分と数値の形式は未確認） */
+const TURBO_BASIC: BasicDialect = {
+  id: 'turbo',
+  name: 'X1turbo BASIC',
+  tokens: [...HU_TOKENS, ...DISK_TOKENS, ...TURBO_TOKENS],
+  confirmed: HU_CONFIRMED,
+  numbersConfirmed: false,
+  prefixes: [PREFIX_FUNCTION, PREFIX_EXTENSION],
+  encodeNumber: value => [TURBO_INT16, value & 0xFF, (value >> 8) & 0xFF],
+  decodeNumber: (bytes, index) =>
+    decodePrefixed(bytes, index, TURBO_INT8, TURBO_INT16) ??
+    decodeSmallInt(bytes[index], TURBO_DIGIT_MIN, TURBO_DIGIT_MAX, TURBO_DIGIT_MIN)
+};
+
+/** 方言の一覧（自動判定で同じ結果ならこの順に選ぶ） */
+export const BASIC_DIALECTS: Record<BasicDialectId, BasicDialect> = {
+  hu: HU_BASIC,
+  disk: DISK_BASIC,
+  turbo: TURBO_BASIC
+};
+
+/** 既定の方言 */
+export const DEFAULT_DIALECT: BasicDialectId = 'hu';
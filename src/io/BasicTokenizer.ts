@@ -0,0 +1,306 @@
+/**
+ * X1 BASICプログラムの字句解析
+ * ASCII形式のテキストと中間コード（バイナリ形式）の1行を、同じトークン列に変換する
+ *
+ * - ASCII形式: キーワードは大文字小文字を区別せず、変数名の途中でもキーワードを優先する（BASICと同じ）
+ * - 中間コード: 方言ごとに分かっているトークンと数値の格納形式だけを変換し、それ以外のトークンは unknown にする
+ *   （英字や記号などASCIIのままの部分はASCII形式と同じように解析する）
+ *   トークンの表は方言ごとに BasicDialect で定義し、値を確認できているかも記録している
+ */
+
+import { BASIC_DIALECTS, BasicDialect } from './BasicDialect';
+
+/** トークン */
+export type BasicToken =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'word'; value: string }       // キーワード・変数名（大文字）
+  | { type: 'symbol'; value: string }     // 演算子・括弧・区切り（: , ; など）
+  | { type: 'data'; value: string[] }     // DATA文の項目
+  | { type: 'unknown'; value: string };   // 解釈できない中間コード（"FF 8A" など）
+
+/** 方言によらない中間コード */
+export const TOKENS = {
+  LPAREN: 0x28,       // (
+  RPAREN: 0x29,       // )
+  QUOTE: 0x22,        // "
+  COLON: 0x3A,        // :
+  LINE_END: 0x00,     // 行終端
+} as const;
+
+/**
+ * 中間コードの1行の区切り（ASCIIのままの部分か、1つのトークン）
+ * - rawはトークンにせずそのまま格納されている部分（REMのコメント・DATAの項目）
+ * - closedは文字列が"で閉じているか、unconfirmedは値を確認できていない方言のトークン・数値か
+ */
+type BinarySegment =
+  | { ascii: string; raw?: 'comment' | 'data' }
+  | { token: BasicToken; closed?: boolean; unconfirmed?: boolean };
+
+/** ASCII形式で認識するキーワード（長いものから照合する） */
+const KEYWORDS = [
+  'DEFCHR$', 'HEXCHR$', 'RESTORE', 'RETURN', 'GOSUB', 'CHR$', 'DATA', 'ELSE', 'GOTO',
+  'NEXT', 'READ', 'STEP', 'STOP', 'THEN', 'AND', 'END', 'FOR', 'LET', 'MOD', 'NOT',
+  'REM', 'XOR', 'IF', 'OR', 'TO'
+];
+
+/** 中間コードの方言の表にあるキーワード（関数名なども変数名にならないようにする） */
+const DIALECT_KEYWORDS = new Set(
+  Object.values(BASIC_DIALECTS).flatMap(dialect => dialect.tokens.map(token => token.text)).filter(text => /^[A-Z]/.test(text))
+);
+
+/** 2文字の演算子 */
+const DOUBLE_SYMBOLS = ['<>', '<=', '>=', '=<', '=>'];
+
+/**
+ * BASICプログラムの字句解析ユーティリティ
+ */
+export class BasicTokenizer {
+  /**
+   * ASCII形式の1行（行番号を除く）をトークン列に変換
+   * @param text 1行のテキスト
+   * @param keywords キーワードを認識するか（中間コード内のASCII部分ではfalse）
+   */
+  static tokenizeText(text: string, keywords: boolean = true): BasicToken[] {
+    const tokens: BasicToken[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+      const ch = text[i];
+
+      if (ch === ' ' || ch === '\t') {
+        i++;
+      } else if (ch === '"') {
+        // 閉じる"がなければ行末まで
+        const end = text.indexOf('"', i + 1);
+        const close = end < 0 ? text.length : end;
+        tokens.push({ type: 'string', value: text.slice(i + 1, close) });
+        i = close + 1;
+      } else if (ch === "'") {
+        // コメント
+        break;
+      } else if (/[0-9.]/.test(ch)) {
+        const match = text.slice(i).match(/^\d*\.?\d*/)!;
+        tokens.push({ type: 'number', value: parseFloat(match[0]) || 0 });
+        i += match[0].length;
+      } else if (ch === '&' && /[HBO]/i.test(text[i + 1] ?? '')) {
+        // &H（16進）、&B（2進）、&O（8進）
+        const radix = { H: 16, B: 2, O: 8 }[text[i + 1].toUpperCase() as 'H' | 'B' | 'O'];
+        const digits = text.slice(i + 2).match(radix === 16 ? /^[0-9A-Fa-f]*/ : radix === 8 ? /^[0-7]*/ : /^[01]*/)!;
+        tokens.push({ type: 'number', value: parseInt(digits[0] || '0', radix) });
+        i += 2 + digits[0].length;
+      } else if (/[A-Za-z]/.test(ch)) {
+        const keyword = keywords ? BasicTokenizer.matchKeyword(text, i) : null;
+        if (keyword === 'REM') {
+          break;
+        } else if (keyword === 'DATA') {
+          const data = BasicTokenizer.readData(text, i + keyword.length);
+          tokens.push({ type: 'data', value: data.items });
+          i = data.end;
+        } else if (keyword) {
+          tokens.push({ type: 'word', value: keyword });
+          i += keyword.length;
+        } else {
+          // 変数名（キーワードが始まるところで区切る）
+          let end = i + 1;
+          while (end < text.length && /[A-Za-z0-9]/.test(text[end]) &&
+                 !(keywords && BasicTokenizer.matchKeyword(text, end))) {
+            end++;
+          }
+          if (text[end] === '$') end++;
+          tokens.push({ type: 'word', value: text.slice(i, end).toUpperCase() });
+          i = end;
+        }
+      } else {
+        const pair = text.slice(i, i + 2);
+        const symbol = DOUBLE_SYMBOLS.includes(pair) ? pair : ch;
+        tokens.push({ type: 'symbol', value: symbol });
+        i += symbol.length;
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * 中間コードの1行（リンクポインタ・行番号・行終端を除く）をトークン列に変換
+   * FOR・READ・+ などのトークンはASCII形式と同じ種類のトークンになり、DATAの項目はdataにまとめる
+   * @param bytes 1行の中間コード
+   * @param dialect 中間コードの方言
+   */
+  static tokenizeBinary(bytes: Uint8Array, dialect: BasicDialect): BasicToken[] {
+    const tokens: BasicToken[] = [];
+    for (const segment of BasicTokenizer.scanBinary(bytes, dialect)) {
+      if (!('ascii' in segment)) {
+        tokens.push(segment.token);
+      } else if (segment.raw === 'data') {
+        // DATAのトークンをASCII形式と同じく項目にまとめる
+        tokens.pop();
+        tokens.push({ type: 'data', value: BasicTokenizer.readData(segment.ascii, 0).items });
+      } else if (!segment.raw) {
+        // ASCIIのままの部分はASCII形式と同じように解析する
+        tokens.push(...BasicTokenizer.tokenizeText(segment.ascii, false));
+      }
+    }
+    return tokens;
+  }
+
+  /**
+   * 中間コードの1行をテキストに戻す（一覧表示用）
+   * ASCIIのままの部分はそのまま、解釈できないトークンは {FF 8A} のように16進で表す
+   * @param bytes 1行の中間コード
+   * @param dialect 中間コードの方言
+   */
+  static detokenizeBinary(bytes: Uint8Array, dialect: BasicDialect): string {
+    return BasicTokenizer.scanBinary(bytes, dialect).map(segment => {
+      if ('ascii' in segment) return segment.ascii;
+      const token = segment.token;
+      switch (token.type) {
+        case 'string':
+          return segment.closed ? `"${token.value}"` : `"${token.value}`;
+        case 'unknown':
+          return `{${token.value}}`;
+        default:
+          return String(token.value);
+      }
+    }).join('');
+  }
+
+  /**
+   * 中間コードの1行に、値を確認できていない方言のトークン・数値が含まれるか
+   * @param bytes 1行の中間コード
+   * @param dialect 中間コードの方言
+   */
+  static hasUnconfirmed(bytes: Uint8Array, dialect: BasicDialect): boolean {
+    return BasicTokenizer.scanBinary(bytes, dialect).some(segment => 'token' in segment && segment.unconfirmed);
+  }
+
+  /**
+   * 中間コードの1行を、ASCIIのままの部分とトークンに分ける
+   */
+  private static scanBinary(
+    bytes: Uint8Array,
+    dialect: BasicDialect
+  ): BinarySegment[] {
+    const segments: BinarySegment[] = [];
+    let ascii = '';
+    let i = 0;
+
+    // 長いものから照合する（DEFCHR$とCHR$など）
+    const known = dialect.tokens
+      .map(entry => ({
+        bytes: entry.bytes,
+        token: (/^[A-Z]/.test(entry.text)
+          ? { type: 'word', value: entry.text }
+          : { type: 'symbol', value: entry.text }) as BasicToken,
+        unconfirmed: !dialect.confirmed.includes(entry.text)
+      }))
+      .sort((a, b) => b.bytes.length - a.bytes.length);
+
+    // ASCIIのままの部分はまとめる
+    const flush = () => {
+      if (ascii) segments.push({ ascii });
+      ascii = '';
+    };
+
+    while (i < bytes.length) {
+      const value = bytes[i];
+      const keyword = known.find(entry => entry.bytes.every((byte, j) => bytes[i + j] === byte));
+      const number = keyword ? null : dialect.decodeNumber(bytes, i);
+
+      if (keyword) {
+        flush();
+        segments.push({ token: keyword.token, unconfirmed: keyword.unconfirmed });
+        i += keyword.bytes.length;
+
+        // REMは行末まで、DATAは:まで（"の中を除く）をそのまま格納している
+        const raw = keyword.token.value === 'REM' ? 'comment' : keyword.token.value === 'DATA' ? 'data' : null;
+        if (raw) {
+          let end = i;
+          let quoted = false;
+          while (end < bytes.length && (raw === 'comment' || quoted || bytes[end] !== TOKENS.COLON)) {
+            if (bytes[end] === TOKENS.QUOTE) quoted = !quoted;
+            end++;
+          }
+          segments.push({ ascii: String.fromCharCode(...bytes.subarray(i, end)), raw });
+          i = end;
+        }
+      } else if (number) {
+        flush();
+        segments.push({ token: { type: 'number', value: number.value }, unconfirmed: !dialect.numbersConfirmed });
+        i += number.length;
+      } else if (value === TOKENS.QUOTE) {
+        flush();
+        let end = i + 1;
+        while (end < bytes.length && bytes[end] !== TOKENS.QUOTE) end++;
+        segments.push({
+          token: { type: 'string', value: String.fromCharCode(...bytes.subarray(i + 1, end)) },
+          closed: end < bytes.length
+        });
+        i = end + 1;
+      } else if (value >= 0x20 && value < 0x7F) {
+        ascii += String.fromCharCode(value);
+        i++;
+      } else {
+        // 拡張プレフィックスは次のバイトと組にする
+        flush();
+        const length = dialect.prefixes.includes(value) && i + 1 < bytes.length ? 2 : 1;
+        segments.push({ token: { type: 'unknown', value: BasicTokenizer.toHex(bytes.subarray(i, i + length)) } });
+        i += length;
+      }
+    }
+    flush();
+
+    return segments;
+  }
+
+  /**
+   * キーワードか（変数名ではないか）
+   */
+  static isKeyword(word: string): boolean {
+    return KEYWORDS.includes(word) || DIALECT_KEYWORDS.has(word);
+  }
+
+  /**
+   * 指定位置から始まるキーワード
+   */
+  private static matchKeyword(text: string, index: number): string | null {
+    const rest = text.slice(index, index + 7).toUpperCase();
+    return KEYWORDS.find(keyword => rest.startsWith(keyword)) ?? null;
+  }
+
+  /**
+   * DATA文の項目を読む（:までをカンマで区切り、"で囲まれた項目はそのまま）
+   * @returns 項目と、DATA文の終わりの位置
+   */
+  private static readData(text: string, index: number): { items: string[]; end: number } {
+    const items: string[] = [];
+    let item = '';
+    let quoted = false;
+    let i = index;
+
+    for (; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '"') {
+        quoted = !quoted;
+      } else if (!quoted && ch === ',') {
+        items.push(item.trim());
+        item = '';
+      } else if (!quoted && ch === ':') {
+        break;
+      } else {
+        item += ch;
+      }
+    }
+    items.push(item.trim());
+
+    return { items, end: i };
+  }
+
+  /**
+   * バイト列を16進表記にする（例: "FF 8A"）
+   */
+  private static toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, value => value.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+  }
+}
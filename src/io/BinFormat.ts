@@ -1,59 +1,103 @@
 /**
  * BIN形式（バイナリ）の保存・読み込み
- * 通常モードと三倍速定義モードに対応
+ * データの並び（レイアウト）を指定でき、通常モード・三倍速定義モード・プレーンごとのダンプなどに対応
+ *
+ * レイアウト:
+ * - プレーンの順序: B/R/Gをファイル内で並べる順（通常はBRG）
+ * - 並べ方: 文字ごと（P0[8], P1[8], P2[8]）、行ごとのインターリーブ（P0,P1,P2 x 8行）、
+ *   プレーンごと（P0[8 x 文字数], P1[...], P2[...]、エミュレータのPCG RAMダンプなど）
+ * - ヘッダ: 先頭のバイト数（読み込み時は読み飛ばし、保存時は0で埋める）
  */
 
 import { PCGData } from '../core/PCGData';
+import { LoadIssue, LoadReport } from './LoadReport';
 
 /** BIN形式の定数 */
 const BYTES_PER_CHAR = 24;  // 1文字 = 24バイト（B[8], R[8], G[8]）
+const ROWS_PER_PLANE = 8;
+
+/** プレーンの並び順（PCGDataの並びはBRG） */
+export type BinPlaneOrder = 'BRG' | 'BGR' | 'RBG' | 'RGB' | 'GBR' | 'GRB';
+
+/** データの並べ方 */
+export type BinArrangement =
+  | 'char'    // 文字ごとにプレーン8バイトずつ
+  | 'row'     // 文字ごとに行単位でプレーンをインターリーブ（三倍速定義）
+  | 'plane';  // プレーンごとに全文字分
+
+/** BIN形式のデータの並び */
+export interface BinLayout {
+  planeOrder: BinPlaneOrder;
+  arrangement: BinArrangement;
+  /** 先頭のヘッダのバイト数 */
+  offset: number;
+}
+
+/** よく使うレイアウト */
+export type BinLayoutPreset =
+  | 'normal'  // B[8], R[8], G[8]（1文字ずつ）
+  | 'x3'      // 三倍速定義（行ごとにB, R, G）
+  | 'plane';  // B全体, R全体, G全体（PCG RAMのダンプ）
+
+const PRESETS: Record<BinLayoutPreset, BinLayout> = {
+  normal: { planeOrder: 'BRG', arrangement: 'char', offset: 0 },
+  x3: { planeOrder: 'BRG', arrangement: 'row', offset: 0 },
+  plane: { planeOrder: 'BRG', arrangement: 'plane', offset: 0 }
+};
+
+/** PCGDataのプレーン（0 = B, 1 = R, 2 = G） */
+const PLANES = 'BRG';
 
 /**
  * BIN形式の保存・読み込みユーティリティ
  */
 export class BinFormat {
+  /**
+   * プリセットのレイアウトを取得
+   * @param preset プリセット名
+   */
+  static getPreset(preset: BinLayoutPreset): BinLayout {
+    return { ...PRESETS[preset] };
+  }
+
   /**
    * BIN形式でPCGデータを保存
    * @param pcgData PCGデータ
    * @param start 開始文字コード
    * @param end 終了文字コード
-   * @param x3mode 三倍速定義モード
+   * @param layout データの並び
    * @returns Blob
    */
-  static save(pcgData: PCGData, start: number, end: number, x3mode: boolean): Blob {
+  static save(pcgData: PCGData, start: number, end: number, layout: BinLayout): Blob {
+    const data = BinFormat.toBytes(pcgData, start, end, layout);
+    return new Blob([data.buffer as ArrayBuffer], { type: 'application/octet-stream' });
+  }
+
+  /**
+   * PCGデータをBIN形式のバイト列に変換（アセンブラなどの書き出しと共用）
+   * @param pcgData PCGデータ
+   * @param start 開始文字コード
+   * @param end 終了文字コード
+   * @param layout データの並び
+   * @returns ヘッダ + 1文字24バイトのバイト列
+   */
+  static toBytes(pcgData: PCGData, start: number, end: number, layout: BinLayout): Uint8Array {
     const count = end - start + 1;
     if (count <= 0) {
       throw new Error('Invalid range');
     }
 
-    let data: Uint8Array;
-
-    if (x3mode) {
-      // 三倍速定義モード: B0,R0,G0, B1,R1,G1, ... の形式（行ごとにインターリーブ）
-      // 1文字 = 8行 x 3プレーン = 24バイト
-      data = new Uint8Array(count * BYTES_PER_CHAR);
-      let offset = 0;
-      for (let i = 0; i < count; i++) {
-        const charData = pcgData.getCharacter(start + i);
-        // 行ごとにB, R, Gをインターリーブ
-        for (let row = 0; row < 8; row++) {
-          data[offset++] = charData[row];      // B
-          data[offset++] = charData[8 + row];  // R
-          data[offset++] = charData[16 + row]; // G
+    const data = new Uint8Array(layout.offset + count * BYTES_PER_CHAR);
+    for (let i = 0; i < count; i++) {
+      const charData = pcgData.getCharacter(start + i);
+      for (let plane = 0; plane < PLANES.length; plane++) {
+        for (let row = 0; row < ROWS_PER_PLANE; row++) {
+          data[BinFormat.getIndex(layout, count, i, plane, row)] = charData[plane * ROWS_PER_PLANE + row];
         }
       }
-    } else {
-      // 通常モード: 各文字のデータをそのまま連結（B[8], R[8], G[8]）
-      data = new Uint8Array(count * BYTES_PER_CHAR);
-      let offset = 0;
-      for (let i = 0; i < count; i++) {
-        const charData = pcgData.getCharacter(start + i);
-        data.set(charData, offset);
-        offset += BYTES_PER_CHAR;
-      }
     }
 
-    return new Blob([data.buffer as ArrayBuffer], { type: 'application/octet-stream' });
+    return data;
   }
 
   /**
@@ -61,41 +105,65 @@ export class BinFormat {
    * @param data バイナリデータ
    * @param pcgData 書き込み先のPCGData
    * @param start 開始文字コード
-   * @param x3mode 三倍速定義モード
-   * @returns 読み込んだ文字数
+   * @param layout データの並び
+   * @param clip &HFFを超える分を読み込まずに済ませるか（falseならエラー）
+   * @returns 読み込み結果
    */
-  static load(data: Uint8Array, pcgData: PCGData, start: number, x3mode: boolean): number {
-    const charCount = Math.floor(data.length / BYTES_PER_CHAR);
+  static load(data: Uint8Array, pcgData: PCGData, start: number, layout: BinLayout, clip: boolean = false): LoadReport {
+    const size = Math.max(0, data.length - layout.offset);
+    const charCount = Math.floor(size / BYTES_PER_CHAR);
+    const issues: LoadIssue[] = [];
 
     if (charCount === 0) {
       throw new Error('File too small');
     }
 
+    const trailing = size % BYTES_PER_CHAR;
+    if (trailing > 0) {
+      issues.push({ kind: 'trailing', message: `${trailing} trailing bytes ignored` });
+    }
+
     if (start + charCount > 256) {
-      throw new Error('Data exceeds 256 chars');
+      if (!clip) {
+        throw new Error('Data exceeds 256 chars');
+      }
+      issues.push({ kind: 'clipped', message: `${start + charCount - 256} chars past &HFF not loaded` });
     }
 
-    for (let i = 0; i < charCount; i++) {
-      const charCode = start + i;
-      const charData = new Uint8Array(BYTES_PER_CHAR);
-
-      if (x3mode) {
-        // 三倍速定義モード: 行ごとにB, R, Gがインターリーブされている
-        const srcOffset = i * BYTES_PER_CHAR;
-        for (let row = 0; row < 8; row++) {
-          charData[row] = data[srcOffset + row * 3];      // B
-          charData[8 + row] = data[srcOffset + row * 3 + 1];  // R
-          charData[16 + row] = data[srcOffset + row * 3 + 2]; // G
+    const loadCount = Math.min(charCount, 256 - start);
+    pcgData.batch(() => {
+      for (let i = 0; i < loadCount; i++) {
+        const charData = new Uint8Array(BYTES_PER_CHAR);
+        for (let plane = 0; plane < PLANES.length; plane++) {
+          for (let row = 0; row < ROWS_PER_PLANE; row++) {
+            charData[plane * ROWS_PER_PLANE + row] = data[BinFormat.getIndex(layout, charCount, i, plane, row)];
+          }
         }
-      } else {
-        // 通常モード: そのままコピー
-        charData.set(data.slice(i * BYTES_PER_CHAR, (i + 1) * BYTES_PER_CHAR));
+        pcgData.setCharacter(start + i, charData);
       }
+    });
 
-      pcgData.setCharacter(charCode, charData);
-    }
+    return { count: loadCount, issues };
+  }
 
-    return charCount;
+  /**
+   * 1バイトのファイル内の位置
+   * @param layout データの並び
+   * @param count 文字数（プレーンごとの並びで使う）
+   * @param index 何文字目か
+   * @param plane PCGDataのプレーン（0 = B, 1 = R, 2 = G）
+   * @param row 行
+   */
+  private static getIndex(layout: BinLayout, count: number, index: number, plane: number, row: number): number {
+    const position = layout.planeOrder.indexOf(PLANES[plane]);
+    switch (layout.arrangement) {
+      case 'row':
+        return layout.offset + index * BYTES_PER_CHAR + row * PLANES.length + position;
+      case 'plane':
+        return layout.offset + (position * count + index) * ROWS_PER_PLANE + row;
+      default:
+        return layout.offset + index * BYTES_PER_CHAR + position * ROWS_PER_PLANE + row;
+    }
   }
 
   /**
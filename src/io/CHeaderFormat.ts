@@ -0,0 +1,100 @@
+/**
+ * C言語のヘッダファイルの書き出し
+ * PCGデータを static const unsigned char の配列にし、1文字ごとに文字コードとドット絵のコメントを付ける
+ *
+ * - 複数のソースから #include しても定義が重ならないよう、配列は static にする
+ * - データの並びはBIN形式と同じ（通常: B[8],R[8],G[8]、三倍速: 行ごとにB,R,G）
+ * - ドット絵は色番号（0 = 黒は '.'）で描く
+ */
+
+import { PCGData } from '../core/PCGData';
+import { FONT_WIDTH, FONT_HEIGHT } from '../core/types';
+import { BinFormat } from './BinFormat';
+
+/** C言語ヘッダ書き出しのオプション */
+export interface CHeaderOptions {
+  /** 三倍速定義の並びにするか */
+  x3mode: boolean;
+}
+
+/** 1文字のバイト数 */
+const BYTES_PER_CHAR = 24;
+
+/** 1行に並べるバイト数（通常: 1プレーン、三倍速: 4行分） */
+const BYTES_PER_LINE = 8;
+const BYTES_PER_LINE_X3 = 12;
+
+/**
+ * C言語ヘッダの書き出しユーティリティ
+ */
+export class CHeaderFormat {
+  /**
+   * PCGデータをC言語のヘッダに変換
+   * @param pcgData PCGデータ
+   * @param start 開始文字コード
+   * @param end 終了文字コード
+   * @param options データの並び
+   * @returns Blob
+   */
+  static save(pcgData: PCGData, start: number, end: number, options: CHeaderOptions): Blob {
+    const data = BinFormat.toBytes(pcgData, start, end, BinFormat.getPreset(options.x3mode ? 'x3' : 'normal'));
+    const count = end - start + 1;
+    const bytesPerLine = options.x3mode ? BYTES_PER_LINE_X3 : BYTES_PER_LINE;
+    const lines: string[] = [
+      `/* X1 PCG data ${hex(start)}-${hex(end)} (${count} chars, ${options.x3mode ? 'x3 interleaved B,R,G per row' : 'B[8],R[8],G[8] per char'}) */`,
+      '#ifndef PCG_DATA_H',
+      '#define PCG_DATA_H',
+      '',
+      `#define PCG_START ${hex(start)}`,
+      `#define PCG_COUNT ${count}`,
+      '',
+      'static const unsigned char pcg_data[PCG_COUNT * 24] = {'
+    ];
+
+    for (let i = 0; i < count; i++) {
+      lines.push(...CHeaderFormat.createPreview(pcgData, start + i));
+      for (let offset = 0; offset < BYTES_PER_CHAR; offset += bytesPerLine) {
+        const bytes = data.subarray(i * BYTES_PER_CHAR + offset, i * BYTES_PER_CHAR + offset + bytesPerLine);
+        const comment = options.x3mode
+          ? `rows ${offset / 3}-${(offset + bytesPerLine) / 3 - 1}`
+          : ['B', 'R', 'G'][offset / bytesPerLine];
+        const last = i === count - 1 && offset + bytesPerLine >= BYTES_PER_CHAR;
+        lines.push(`    ${Array.from(bytes, value => hex(value)).join(', ')}${last ? ' ' : ','}  /* ${comment} */`);
+      }
+    }
+
+    lines.push('};', '', '#endif /* PCG_DATA_H */');
+    return new Blob([lines.join('\n') + '\n'], { type: 'text/plain' });
+  }
+
+  /**
+   * 文字コードとドット絵のコメント
+   */
+  private static createPreview(pcgData: PCGData, code: number): string[] {
+    const lines = [`    /* ${hex(code)}`];
+    for (let y = 0; y < FONT_HEIGHT; y++) {
+      let row = '';
+      for (let x = 0; x < FONT_WIDTH; x++) {
+        const color = pcgData.getPixel(code, x, y);
+        row += color === 0 ? '.' : color.toString();
+      }
+      lines.push(`     * ${row}`);
+    }
+    lines.push('     */');
+    return lines;
+  }
+
+  /**
+   * デフォルトのファイル名を取得
+   */
+  static getDefaultFileName(): string {
+    return 'pcg.h';
+  }
+}
+
+/**
+ * 1バイトをCの16進数リテラルにする
+ */
+function hex(value: number): string {
+  return `0x${value.toString(16).toUpperCase().padStart(2, '0')}`;
+}
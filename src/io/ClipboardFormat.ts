@@ -0,0 +1,218 @@
+/**
+ * OSクリップボードとのやり取り
+ * 文字データをHEXCHR$形式の16進テキスト（1文字48桁）とPNG画像の両方で扱う
+ *
+ * - コピー時はテキストと画像を同時に書き込む（画像非対応の環境ではテキストのみ）
+ * - 貼り付け時は画像を優先し、なければテキストから16進文字列を探す
+ */
+
+import { PCGData } from '../core/PCGData';
+import { X1_PALETTE } from '../core/constants';
+import { X1Color } from '../core/types';
+import { reduceColors, ColorReduceMode } from '../core/ColorReducer';
+import { BasFormat } from './BasFormat';
+
+/** クリップボードから読み込んだ内容 */
+export interface ClipboardContent {
+  text: string | null;
+  image: Blob | null;
+}
+
+/** 16進文字列（48桁）の検出パターン（前後が16進数でないもの） */
+const HEX_CHAR_PATTERN = /(?<![0-9A-Fa-f])[0-9A-Fa-f]{48}(?![0-9A-Fa-f])/g;
+
+/**
+ * クリップボード形式の変換・読み書きユーティリティ
+ */
+export class ClipboardFormat {
+  /**
+   * 文字データを16進テキストに変換（1行1文字）
+   * @param pcgData PCGデータ
+   * @param codes 文字コード（この順に出力）
+   */
+  static toHexText(pcgData: PCGData, codes: number[]): string {
+    return codes
+      .map(code => BasFormat.toHexString(pcgData.getCharacter(code)))
+      .join('\n') + '\n';
+  }
+
+  /**
+   * テキストから48桁の16進文字列をすべて取り出す
+   * DEFCHR$行やソースコード中の文字列もそのまま受け付ける
+   * @returns 1文字分（24バイト）のデータの配列（出現順）
+   */
+  static parseHexText(text: string): Uint8Array[] {
+    const result: Uint8Array[] = [];
+    for (const match of text.matchAll(HEX_CHAR_PATTERN)) {
+      const charData = BasFormat.parseHexString(match[0]);
+      if (charData) result.push(charData);
+    }
+    return result;
+  }
+
+  /**
+   * 文字データをPNG画像に変換
+   * @param pcgData PCGデータ
+   * @param codes 文字コード（左上から横方向に並べる）
+   * @param columns 横に並べる文字数
+   */
+  static async toPng(pcgData: PCGData, codes: number[], columns: number): Promise<Blob> {
+    const rows = Math.ceil(codes.length / columns);
+    const canvas = document.createElement('canvas');
+    canvas.width = columns * 8;
+    canvas.height = rows * 8;
+    const ctx = canvas.getContext('2d')!;
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    codes.forEach((code, index) => {
+      const charX = (index % columns) * 8;
+      const charY = Math.floor(index / columns) * 8;
+
+      for (let py = 0; py < 8; py++) {
+        for (let px = 0; px < 8; px++) {
+          const color = pcgData.getPixel(code, px, py);
+          if (color !== 0) {
+            const [r, g, b] = X1_PALETTE[color];
+            ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+            ctx.fillRect(charX + px, charY + py, 1, 1);
+          }
+        }
+      }
+    });
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to create PNG blob'));
+        }
+      }, 'image/png');
+    });
+  }
+
+  /**
+   * 画像をX1の8色に変換
+   * @param image 画像データ（PNG等）
+   * @param reduceMode 減色モード（'none'は'reduce'として扱う）
+   * @returns X1色の2次元配列（[y][x]）
+   */
+  static async decodeImage(image: Blob, reduceMode: ColorReduceMode): Promise<X1Color[][]> {
+    const bitmap = await createImageBitmap(image);
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(bitmap, 0, 0);
+      const imageData = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+      return reduceColors(imageData, reduceMode === 'none' ? 'reduce' : reduceMode);
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  /**
+   * 16進テキストの文字データを書き込む（変更通知は1回）
+   * @param chars 1文字分のデータの配列
+   * @param pcgData 書き込み先
+   * @param codes 書き込み先の文字コード（データが多い場合は切り捨て）
+   * @returns 書き込んだ文字数
+   */
+  static applyHex(chars: Uint8Array[], pcgData: PCGData, codes: number[]): number {
+    const count = Math.min(chars.length, codes.length);
+    pcgData.batch(() => {
+      for (let i = 0; i < count; i++) {
+        pcgData.setCharacter(codes[i], chars[i]);
+      }
+    });
+    return count;
+  }
+
+  /**
+   * 画像を8x8ドット単位に区切って書き込む（変更通知は1回）
+   * 8ドットに満たない端の部分は使わない
+   * @param colorData X1色の2次元配列
+   * @param pcgData 書き込み先
+   * @param codes 書き込み先の文字コード（画像の左上から横方向の順）
+   * @param columns 画像を横に何文字分まで使うか（省略時は画像の幅）
+   * @returns 書き込んだ文字数
+   */
+  static applyImage(colorData: X1Color[][], pcgData: PCGData, codes: number[], columns?: number): number {
+    const height = colorData.length;
+    const width = colorData[0]?.length ?? 0;
+    const tilesX = Math.min(Math.floor(width / 8), columns ?? Infinity);
+    const tilesY = Math.floor(height / 8);
+    if (tilesX === 0) return 0;
+
+    const count = Math.min(tilesX * tilesY, codes.length);
+    pcgData.batch(() => {
+      for (let i = 0; i < count; i++) {
+        const baseX = (i % tilesX) * 8;
+        const baseY = Math.floor(i / tilesX) * 8;
+        for (let py = 0; py < 8; py++) {
+          for (let px = 0; px < 8; px++) {
+            pcgData.setPixel(codes[i], px, py, colorData[baseY + py][baseX + px]);
+          }
+        }
+      }
+    });
+    return count;
+  }
+
+  /**
+   * クリップボードに書き込む
+   * @returns 画像も書き込めた場合はtrue（テキストのみの場合はfalse）
+   */
+  static async write(text: string, png: Blob | null): Promise<boolean> {
+    if (png && typeof ClipboardItem !== 'undefined' && navigator.clipboard?.write) {
+      try {
+        await navigator.clipboard.write([
+          new ClipboardItem({
+            'text/plain': new Blob([text], { type: 'text/plain' }),
+            'image/png': png
+          })
+        ]);
+        return true;
+      } catch (e) {
+        // 画像を受け付けない環境ではテキストのみにフォールバック
+        console.warn('[ClipboardFormat] Image write failed, falling back to text:', e);
+      }
+    }
+
+    if (!navigator.clipboard?.writeText) {
+      throw new Error('Clipboard is not available');
+    }
+    await navigator.clipboard.writeText(text);
+    return false;
+  }
+
+  /**
+   * クリップボードから読み込む（Clipboard API）
+   */
+  static async read(): Promise<ClipboardContent> {
+    const content: ClipboardContent = { text: null, image: null };
+
+    if (navigator.clipboard?.read) {
+      const items = await navigator.clipboard.read();
+      for (const item of items) {
+        const imageType = item.types.find(type => type.startsWith('image/'));
+        if (imageType && !content.image) {
+          content.image = await item.getType(imageType);
+        }
+        if (item.types.includes('text/plain') && content.text === null) {
+          content.text = await (await item.getType('text/plain')).text();
+        }
+      }
+      return content;
+    }
+
+    if (!navigator.clipboard?.readText) {
+      throw new Error('Clipboard is not available');
+    }
+    content.text = await navigator.clipboard.readText();
+    return content;
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * D88形式のディスクイメージ
+ * エミュレータで使われるフロッピーディスクのイメージをセクタ単位で読み書きする
+ *
+ * ファイル構造:
+ * - ヘッダ 0x2B0バイト: ディスク名(17)、予約(9)、ライトプロテクト(1)、メディア種別(1)、
+ *   ディスクサイズ(4)、トラックのオフセット表(4 x 164)
+ * - トラックごとにセクタを並べる（各セクタは16バイトのセクタヘッダ + データ）
+ *   セクタヘッダ: C, H, R, N, トラック内のセクタ数(2)、密度(1)、削除マーク(1)、
+ *   ステータス(1)、予約(5)、データサイズ(2)
+ *
+ * セクタの指定はレコード番号（トラック*16 + セクタ番号R-1、トラック = シリンダ*2 + ヘッド）で行う
+ */
+
+/** ヘッダのバイト数 */
+const HEADER_SIZE = 0x2B0;
+
+/** トラックのオフセット表の位置と数 */
+const TRACK_TABLE_OFFSET = 0x20;
+const MAX_TRACKS = 164;
+
+/** セクタヘッダのバイト数 */
+const SECTOR_HEADER_SIZE = 16;
+
+/** X1の2Dディスク（40シリンダ x 2ヘッド、16セクタ x 256バイト） */
+const DISK_2D = {
+  TRACKS: 80,
+  SECTORS: 16,
+  SECTOR_SIZE: 256,
+  MEDIA_TYPE: 0x00
+} as const;
+
+/** 1セクタ分 */
+interface D88Sector {
+  c: number;
+  h: number;
+  r: number;
+  n: number;
+  density: number;
+  deleted: number;
+  status: number;
+  data: Uint8Array;
+}
+
+export class D88Image {
+  /** ディスク名 */
+  private name: string;
+
+  /** ライトプロテクト */
+  private writeProtected: boolean;
+
+  /** メディア種別（0x00 = 2D, 0x10 = 2DD, 0x20 = 2HD） */
+  private mediaType: number;
+
+  /** トラックごとのセクタ（未フォーマットのトラックは空配列） */
+  private tracks: D88Sector[][];
+
+  private constructor(name: string, writeProtected: boolean, mediaType: number, tracks: D88Sector[][]) {
+    this.name = name;
+    this.writeProtected = writeProtected;
+    this.mediaType = mediaType;
+    this.tracks = tracks;
+  }
+
+  // === Getters ===
+  get diskName(): string { return this.name; }
+  get isWriteProtected(): boolean { return this.writeProtected; }
+
+  /** 2Dディスク（X1標準）か */
+  get is2D(): boolean { return this.mediaType === DISK_2D.MEDIA_TYPE; }
+
+  /**
+   * D88形式のデータを読み込む
+   * @throws ヘッダやトラックの位置が壊れている場合
+   */
+  static parse(data: Uint8Array): D88Image {
+    if (data.length < HEADER_SIZE) {
+      throw new Error('Not a D88 disk image');
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const nameEnd = data.subarray(0, 17).indexOf(0);
+    const name = String.fromCharCode(...data.subarray(0, nameEnd < 0 ? 16 : nameEnd));
+    const writeProtected = data[0x1A] !== 0;
+    const mediaType = data[0x1B];
+    const diskSize = view.getUint32(0x1C, true);
+    if (diskSize > data.length) {
+      throw new Error('D88 disk image is truncated');
+    }
+
+    // 最初のトラックの位置より前までがオフセット表（ヘッダの短いイメージに対応）
+    let trackCount = MAX_TRACKS;
+    for (let i = 0; i < MAX_TRACKS; i++) {
+      const offset = view.getUint32(TRACK_TABLE_OFFSET + i * 4, true);
+      if (offset !== 0) {
+        trackCount = Math.min(MAX_TRACKS, Math.floor((offset - TRACK_TABLE_OFFSET) / 4));
+        break;
+      }
+    }
+
+    const tracks: D88Sector[][] = [];
+    for (let i = 0; i < trackCount; i++) {
+      const offset = view.getUint32(TRACK_TABLE_OFFSET + i * 4, true);
+      tracks.push(offset === 0 ? [] : D88Image.parseTrack(data, view, offset, diskSize));
+    }
+
+    return new D88Image(name, writeProtected, mediaType, tracks);
+  }
+
+  /**
+   * 1トラック分のセクタを読み込む
+   */
+  private static parseTrack(data: Uint8Array, view: DataView, offset: number, diskSize: number): D88Sector[] {
+    const sectors: D88Sector[] = [];
+    let count = 1;
+
+    for (let i = 0; i < count; i++) {
+      if (offset + SECTOR_HEADER_SIZE > diskSize) {
+        throw new Error('D88 sector header out of range');
+      }
+      if (i === 0) {
+        count = view.getUint16(offset + 4, true);
+      }
+      const size = view.getUint16(offset + 14, true);
+      const dataStart = offset + SECTOR_HEADER_SIZE;
+      if (dataStart + size > diskSize) {
+        throw new Error('D88 sector data out of range');
+      }
+
+      sectors.push({
+        c: data[offset],
+        h: data[offset + 1],
+        r: data[offset + 2],
+        n: data[offset + 3],
+        density: data[offset + 6],
+        deleted: data[offset + 7],
+        status: data[offset + 8],
+        data: data.slice(dataStart, dataStart + size)
+      });
+      offset = dataStart + size;
+    }
+    return sectors;
+  }
+
+  /**
+   * フォーマット済みの空の2Dディスクを作成（セクタの内容はすべて0）
+   * @param name ディスク名（16文字まで）
+   */
+  static createBlank2D(name: string): D88Image {
+    const tracks: D88Sector[][] = [];
+    for (let track = 0; track < DISK_2D.TRACKS; track++) {
+      const sectors: D88Sector[] = [];
+      for (let r = 1; r <= DISK_2D.SECTORS; r++) {
+        sectors.push({
+          c: track >> 1,
+          h: track & 1,
+          r,
+          n: 1,
+          density: 0,
+          deleted: 0,
+          status: 0,
+          data: new Uint8Array(DISK_2D.SECTOR_SIZE)
+        });
+      }
+      tracks.push(sectors);
+    }
+    return new D88Image(name.slice(0, 16), false, DISK_2D.MEDIA_TYPE, tracks);
+  }
+
+  /**
+   * レコード（論理セクタ）を読み込む
+   * @param record レコード番号（トラック*16 + R-1）
+   * @returns セクタのデータ（コピー）
+   * @throws セクタが存在しない場合
+   */
+  readRecord(record: number): Uint8Array {
+    return this.findSector(record).data.slice();
+  }
+
+  /**
+   * レコード（論理セクタ）に書き込む（セクタサイズに満たない分は0で埋める）
+   * @throws セクタが存在しない場合
+   */
+  writeRecord(record: number, data: Uint8Array): void {
+    const sector = this.findSector(record);
+    sector.data.fill(0);
+    sector.data.set(data.subarray(0, sector.data.length));
+  }
+
+  /**
+   * レコード番号からセクタを探す
+   */
+  private findSector(record: number): D88Sector {
+    const track = Math.floor(record / DISK_2D.SECTORS);
+    const r = (record % DISK_2D.SECTORS) + 1;
+    const sector = this.tracks[track]?.find(s => s.r === r);
+    if (!sector) {
+      throw new Error(`Sector not found: track ${track}, sector ${r}`);
+    }
+    return sector;
+  }
+
+  /**
+   * D88形式のデータに変換
+   */
+  toBytes(): Uint8Array {
+    const trackSizes = this.tracks.map(sectors =>
+      sectors.reduce((sum, sector) => sum + SECTOR_HEADER_SIZE + sector.data.length, 0)
+    );
+    const diskSize = HEADER_SIZE + trackSizes.reduce((sum, size) => sum + size, 0);
+    const data = new Uint8Array(diskSize);
+    const view = new DataView(data.buffer);
+
+    for (let i = 0; i < Math.min(16, this.name.length); i++) {
+      data[i] = this.name.charCodeAt(i) & 0xFF;
+    }
+    data[0x1A] = this.writeProtected ? 0x10 : 0x00;
+    data[0x1B] = this.mediaType;
+    view.setUint32(0x1C, diskSize, true);
+
+    let offset = HEADER_SIZE;
+    this.tracks.forEach((sectors, track) => {
+      view.setUint32(TRACK_TABLE_OFFSET + track * 4, sectors.length > 0 ? offset : 0, true);
+      for (const sector of sectors) {
+        data[offset] = sector.c;
+        data[offset + 1] = sector.h;
+        data[offset + 2] = sector.r;
+        data[offset + 3] = sector.n;
+        view.setUint16(offset + 4, sectors.length, true);
+        data[offset + 6] = sector.density;
+        data[offset + 7] = sector.deleted;
+        data[offset + 8] = sector.status;
+        view.setUint16(offset + 14, sector.data.length, true);
+        data.set(sector.data, offset + SECTOR_HEADER_SIZE);
+        offset += SECTOR_HEADER_SIZE + sector.data.length;
+      }
+    });
+
+    return data;
+  }
+
+  /**
+   * D88形式で保存
+   */
+  toBlob(): Blob {
+    return new Blob([this.toBytes().buffer as ArrayBuffer], { type: 'application/octet-stream' });
+  }
+}
@@ -0,0 +1,426 @@
+/**
+ * BASICプログラムからDEFCHR$の定義を取り出す簡易インタプリタ
+ *
+ * 文字定義に使われる範囲だけを実行する:
+ * - DEFCHR$(式)=文字列式、代入（LETは省略可）、FOR〜TO〜STEP / NEXT、READ / DATA / RESTORE
+ * - 式: 数値（10進・&H・&B・&O）、文字列、変数、+ - * / MOD、括弧、CHR$()、HEXCHR$()
+ * - GOTO・GOSUB・IF・ENDなどは解釈せず、プログラムを上から順に実行する
+ *   （IF文は行末までを1つの文とし、その中のDEFCHR$は実行せずに報告する）
+ * - 未定義の変数はBASICと同じく0（文字列は空）として扱う
+ * - 中間コードのプログラムも、BasicTokenizerがASCII形式と同じトークン列にするので同じように実行できる
+ */
+
+import { BasicToken, BasicTokenizer } from './BasicTokenizer';
+
+/** 1行分のトークン列 */
+export interface BasicLine {
+  /** 行番号（行番号のないテキストの場合は何行目か） */
+  number: number;
+  tokens: BasicToken[];
+}
+
+/** 取り出した定義の受け取り先 */
+export interface DefchrHandler {
+  /** 1文字分の定義 */
+  define(line: number, code: number, data: Uint8Array): void;
+  /** 実行できなかったDEFCHR$などの文 */
+  skip(line: number, message: string): void;
+}
+
+/** 変数の値 */
+type Value = number | string;
+
+/** 1つの文 */
+interface Statement {
+  line: number;
+  tokens: BasicToken[];
+}
+
+/** 実行中のFORループ */
+interface ForLoop {
+  name: string;
+  end: number;
+  step: number;
+  /** ループの先頭の文 */
+  body: number;
+}
+
+/** 実行する文の数の上限（無限ループ対策） */
+const MAX_STEPS = 200000;
+
+/**
+ * DEFCHR$の定義を取り出す簡易インタプリタ
+ */
+export class DefchrInterpreter {
+  private handler: DefchrHandler;
+  private statements: Statement[] = [];
+  private data: { line: number; value: string }[] = [];
+  private dataIndex = 0;
+  private variables = new Map<string, Value>();
+  private loops: ForLoop[] = [];
+
+  /** 解析中の文のトークンと位置 */
+  private tokens: BasicToken[] = [];
+  private pos = 0;
+
+  /**
+   * @param lines プログラム（行番号順）
+   * @param handler 取り出した定義の受け取り先
+   */
+  constructor(lines: BasicLine[], handler: DefchrHandler) {
+    this.handler = handler;
+
+    // :で文に分け、DATA文の項目はあらかじめ集めておく
+    // （IF文はTHEN・ELSEのあとが条件によって実行されるため、行末まで分けない）
+    for (const line of lines) {
+      let tokens: BasicToken[] = [];
+      const flush = () => {
+        if (tokens.length > 0) this.statements.push({ line: line.number, tokens });
+        tokens = [];
+      };
+      for (const token of line.tokens) {
+        const inIf = tokens[0]?.type === 'word' && tokens[0].value === 'IF';
+        if (token.type === 'symbol' && token.value === ':' && !inIf) {
+          flush();
+        } else if (token.type === 'data') {
+          token.value.forEach(value => this.data.push({ line: line.number, value }));
+        } else {
+          tokens.push(token);
+        }
+      }
+      flush();
+    }
+  }
+
+  /**
+   * プログラムを実行
+   */
+  run(): void {
+    let index = 0;
+    let steps = 0;
+
+    while (index < this.statements.length) {
+      const statement = this.statements[index];
+      if (++steps > MAX_STEPS) {
+        this.handler.skip(statement.line, 'Too many steps (stopped)');
+        return;
+      }
+
+      // IF文などの途中にあるDEFCHR$は実行しないので、読み込めなかった定義として報告する
+      const first = statement.tokens[0];
+      const defchr = statement.tokens.some(DefchrInterpreter.isDefchr);
+      if (defchr && !DefchrInterpreter.isDefchr(first)) {
+        const name = first.type === 'word' ? first.value : first.type === 'unknown' ? `{${first.value}}` : 'statement';
+        this.handler.skip(statement.line, `DEFCHR$ in ${name} not executed`);
+        index++;
+        continue;
+      }
+
+      try {
+        index = this.execute(statement, index);
+      } catch (e) {
+        // 定義に関わる文だけ報告する（それ以外の解釈できない文は無視）
+        if (defchr || (first.type === 'word' && first.value === 'READ')) {
+          this.handler.skip(statement.line, e instanceof Error ? e.message : 'Syntax error');
+        }
+        index++;
+      }
+    }
+  }
+
+  /**
+   * 1つの文を実行
+   * @returns 次に実行する文
+   */
+  private execute(statement: Statement, index: number): number {
+    this.tokens = statement.tokens;
+    this.pos = 0;
+    const first = this.tokens[0];
+    if (first.type !== 'word') return index + 1;
+
+    switch (first.value) {
+      case 'DEFCHR$': {
+        this.pos++;
+        this.expectSymbol('(');
+        const code = this.numberExpression();
+        this.expectSymbol(')');
+        this.expectSymbol('=');
+        const value = this.expression();
+        this.expectEnd();
+        if (typeof value !== 'string') throw new Error('Type mismatch');
+        this.handler.define(statement.line, Math.trunc(code), Uint8Array.from(value, ch => ch.charCodeAt(0) & 0xFF));
+        return index + 1;
+      }
+      case 'LET':
+        this.pos++;
+        this.assign();
+        return index + 1;
+      case 'FOR': {
+        this.pos++;
+        const name = this.assign(['TO']);
+        this.expectWord('TO');
+        const end = this.numberExpression();
+        let step = 1;
+        if (this.peekWord('STEP')) {
+          this.pos++;
+          step = this.numberExpression();
+        }
+        this.loops = this.loops.filter(loop => loop.name !== name);
+        this.loops.push({ name, end, step, body: index + 1 });
+        return index + 1;
+      }
+      case 'NEXT':
+        return this.next(index);
+      case 'READ':
+        this.pos++;
+        do {
+          const name = this.variableName();
+          const item = this.data[this.dataIndex++];
+          if (!item) throw new Error('Out of DATA');
+          this.variables.set(name, name.endsWith('$') ? item.value : DefchrInterpreter.parseNumber(item.value));
+        } while (this.acceptSymbol(','));
+        return index + 1;
+      case 'RESTORE': {
+        this.pos++;
+        const line = this.pos < this.tokens.length ? this.numberExpression() : 0;
+        const found = this.data.findIndex(item => item.line >= line);
+        this.dataIndex = found < 0 ? this.data.length : found;
+        return index + 1;
+      }
+      default:
+        // 変数への代入（LETの省略）
+        if (!BasicTokenizer.isKeyword(first.value) && this.tokens[1]?.type === 'symbol' && this.tokens[1].value === '=') {
+          this.assign();
+        }
+        return index + 1;
+    }
+  }
+
+  /**
+   * NEXT [変数[,変数...]]
+   * @returns ループを続ける場合はループの先頭、終わった場合は次の文
+   */
+  private next(index: number): number {
+    this.pos++;
+    const names: (string | null)[] = [];
+    if (this.pos < this.tokens.length) {
+      do {
+        names.push(this.variableName());
+      } while (this.acceptSymbol(','));
+    } else {
+      names.push(null);
+    }
+
+    for (const name of names) {
+      const position = name === null
+        ? this.loops.length - 1
+        : this.loops.map(loop => loop.name).lastIndexOf(name);
+      if (position < 0) return index + 1;
+
+      // 内側のループは終わらせる
+      this.loops.length = position + 1;
+      const loop = this.loops[position];
+      const value = (this.variables.get(loop.name) as number ?? 0) + loop.step;
+      this.variables.set(loop.name, value);
+      if (loop.step >= 0 ? value <= loop.end : value >= loop.end) {
+        return loop.body;
+      }
+      this.loops.pop();
+    }
+    return index + 1;
+  }
+
+  /**
+   * 変数 = 式
+   * @param terminators 式の終わりを示すキーワード（FOR文のTOなど）
+   * @returns 変数名
+   */
+  private assign(terminators: string[] = []): string {
+    const name = this.variableName();
+    this.expectSymbol('=');
+    const value = this.expression();
+    if (this.pos < this.tokens.length && !terminators.some(word => this.peekWord(word))) {
+      throw new Error('Syntax error');
+    }
+    if (name.endsWith('$') !== (typeof value === 'string')) {
+      throw new Error('Type mismatch');
+    }
+    this.variables.set(name, value);
+    return name;
+  }
+
+  // ==================== 式の評価 ====================
+
+  /**
+   * 式（+ -、文字列の+は連結）
+   */
+  private expression(): Value {
+    let value = this.term();
+    while (this.peekSymbol('+') || this.peekSymbol('-')) {
+      const operator = (this.tokens[this.pos++] as { value: string }).value;
+      const right = this.term();
+      if (operator === '+' && typeof value === 'string' && typeof right === 'string') {
+        value = value + right;
+      } else if (typeof value === 'number' && typeof right === 'number') {
+        value = operator === '+' ? value + right : value - right;
+      } else {
+        throw new Error('Type mismatch');
+      }
+    }
+    return value;
+  }
+
+  /**
+   * 項（* / MOD）
+   */
+  private term(): Value {
+    let value = this.unary();
+    while (this.peekSymbol('*') || this.peekSymbol('/') || this.peekWord('MOD')) {
+      const operator = (this.tokens[this.pos++] as { value: string }).value;
+      const right = this.unary();
+      if (typeof value !== 'number' || typeof right !== 'number') {
+        throw new Error('Type mismatch');
+      }
+      if (operator !== '*' && right === 0) {
+        throw new Error('Division by zero');
+      }
+      value = operator === '*' ? value * right
+        : operator === '/' ? value / right
+        : Math.trunc(value) % Math.trunc(right);
+    }
+    return value;
+  }
+
+  /**
+   * 単項の+ -
+   */
+  private unary(): Value {
+    if (this.acceptSymbol('-')) {
+      const value = this.unary();
+      if (typeof value !== 'number') throw new Error('Type mismatch');
+      return -value;
+    }
+    this.acceptSymbol('+');
+    return this.primary();
+  }
+
+  /**
+   * 数値・文字列・変数・括弧・関数
+   */
+  private primary(): Value {
+    const token = this.tokens[this.pos];
+    if (!token) throw new Error('Missing operand');
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        this.pos++;
+        return token.value;
+      case 'symbol':
+        if (token.value === '(') {
+          this.pos++;
+          const value = this.expression();
+          this.expectSymbol(')');
+          return value;
+        }
+        break;
+      case 'word':
+        if (token.value === 'CHR$') {
+          this.pos++;
+          const code = this.argument();
+          if (typeof code !== 'number' || code < 0 || code >= 256) {
+            throw new Error('Illegal function call: CHR$');
+          }
+          return String.fromCharCode(Math.trunc(code));
+        }
+        if (token.value === 'HEXCHR$') {
+          this.pos++;
+          const hex = this.argument();
+          if (typeof hex !== 'string' || !/^([0-9A-Fa-f]{2})*$/.test(hex)) {
+            throw new Error('Illegal function call: HEXCHR$');
+          }
+          return hex.replace(/../g, pair => String.fromCharCode(parseInt(pair, 16)));
+        }
+        if (!BasicTokenizer.isKeyword(token.value)) {
+          this.pos++;
+          return this.variables.get(token.value) ?? (token.value.endsWith('$') ? '' : 0);
+        }
+        break;
+    }
+    throw new Error(`Unsupported: ${token.value}`);
+  }
+
+  /**
+   * 関数の引数（括弧で囲まれた1つの式）
+   */
+  private argument(): Value {
+    this.expectSymbol('(');
+    const value = this.expression();
+    this.expectSymbol(')');
+    return value;
+  }
+
+  /**
+   * 数値の式
+   */
+  private numberExpression(): number {
+    const value = this.expression();
+    if (typeof value !== 'number') throw new Error('Type mismatch');
+    return value;
+  }
+
+  // ==================== トークンの確認 ====================
+
+  private variableName(): string {
+    const token = this.tokens[this.pos];
+    if (token?.type !== 'word' || BasicTokenizer.isKeyword(token.value)) {
+      throw new Error('Syntax error');
+    }
+    this.pos++;
+    return token.value;
+  }
+
+  private peekSymbol(symbol: string): boolean {
+    const token = this.tokens[this.pos];
+    return token?.type === 'symbol' && token.value === symbol;
+  }
+
+  private peekWord(word: string): boolean {
+    const token = this.tokens[this.pos];
+    return token?.type === 'word' && token.value === word;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (!this.peekSymbol(symbol)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) throw new Error(`Syntax error: expected ${symbol}`);
+  }
+
+  private expectWord(word: string): void {
+    if (!this.peekWord(word)) throw new Error(`Syntax error: expected ${word}`);
+    this.pos++;
+  }
+
+  private expectEnd(): void {
+    if (this.pos < this.tokens.length) throw new Error('Syntax error');
+  }
+
+  /**
+   * DEFCHR$のトークンか
+   */
+  private static isDefchr(token: BasicToken): boolean {
+    return token.type === 'word' && token.value === 'DEFCHR$';
+  }
+
+  /**
+   * READで数値変数に読み込むDATAの項目（&H・&B・&Oも可）
+   */
+  private static parseNumber(text: string): number {
+    const token = BasicTokenizer.tokenizeText(text)[0];
+    return token?.type === 'number' ? token.value : 0;
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * アニメーションGIFの書き出し
+ * フレーム列（1文字または2x2文字）をX1の8色パレットそのままでGIF89aにする
+ *
+ * ファイル構造:
+ * - ヘッダ "GIF89a"、画面サイズ、グローバルカラーテーブル（X1の8色）
+ * - NETSCAPE2.0拡張（ループ再生時のみ。ループ回数0 = 無限）
+ * - フレームごとに Graphic Control Extension（表示時間）とイメージ（LZW圧縮）
+ * - 終端 0x3B
+ */
+
+import { PCGData } from '../core/PCGData';
+import { AnimationSequence } from '../core/AnimationSequence';
+import { X1_PALETTE } from '../core/constants';
+import { AnimationFrame, FONT_WIDTH, FONT_HEIGHT } from '../core/types';
+
+/** GIF書き出しのオプション */
+export interface GifOptions {
+  /** 1ドットの大きさ（ピクセル） */
+  scale: number;
+  /** ループ再生するか */
+  loop: boolean;
+  /** 全フレーム共通の表示時間（ms、省略時はフレームごとの時間） */
+  delay?: number;
+  /** 黒（パレット0）を透明にするか */
+  transparent?: boolean;
+}
+
+/** 拡大率の上限 */
+const MAX_SCALE = 16;
+
+/** LZWの最小コードサイズ（8色 = 3ビット） */
+const MIN_CODE_SIZE = 3;
+
+/** LZWのコードの上限（12ビット） */
+const MAX_CODE = 4096;
+
+/** データサブブロックの最大長 */
+const SUB_BLOCK_SIZE = 255;
+
+/**
+ * GIF形式の書き出しユーティリティ
+ */
+export class GifFormat {
+  /**
+   * フレーム列をアニメーションGIFに変換
+   * 2x2のフレームが1つでもあれば16x16ドット、なければ8x8ドットの大きさにする
+   * （1文字のフレームは左上に置き、残りは黒）
+   * @param pcgData PCGデータ
+   * @param frames フレーム列
+   * @param options 拡大率・ループ・表示時間
+   * @returns Blob
+   */
+  static saveAnimation(pcgData: PCGData, frames: readonly AnimationFrame[], options: GifOptions): Blob {
+    if (frames.length === 0) {
+      throw new Error('No animation frames');
+    }
+
+    const scale = Math.max(1, Math.min(MAX_SCALE, Math.floor(options.scale)));
+    const chars = frames.some(frame => frame.quad) ? 2 : 1;
+    const width = chars * FONT_WIDTH * scale;
+    const height = chars * FONT_HEIGHT * scale;
+    const out: number[] = [];
+
+    // ヘッダと画面情報（グローバルカラーテーブルあり、8色）
+    writeString(out, 'GIF89a');
+    writeUint16(out, width);
+    writeUint16(out, height);
+    out.push(0x80 | (2 << 4) | 2, 0, 0);
+    for (const [r, g, b] of X1_PALETTE) {
+      out.push(r, g, b);
+    }
+
+    // ループ再生（NETSCAPE2.0拡張）
+    if (options.loop) {
+      out.push(0x21, 0xFF, 0x0B);
+      writeString(out, 'NETSCAPE2.0');
+      out.push(0x03, 0x01);
+      writeUint16(out, 0);
+      out.push(0x00);
+    }
+
+    for (const frame of frames) {
+      // Graphic Control Extension（透明時は前のフレームが残らないよう背景に戻す）
+      const delay = Math.max(2, Math.round((options.delay ?? frame.duration) / 10));
+      const disposal = options.transparent ? 2 : 1;
+      out.push(0x21, 0xF9, 0x04, (disposal << 2) | (options.transparent ? 1 : 0));
+      writeUint16(out, delay);
+      out.push(0, 0x00);
+
+      // Image Descriptor（画面全体、ローカルカラーテーブルなし）
+      out.push(0x2C);
+      writeUint16(out, 0);
+      writeUint16(out, 0);
+      writeUint16(out, width);
+      writeUint16(out, height);
+      out.push(0);
+
+      // 画像データ
+      out.push(MIN_CODE_SIZE);
+      writeSubBlocks(out, lzwEncode(GifFormat.getFrameIndices(pcgData, frame, width, scale), MIN_CODE_SIZE));
+    }
+
+    out.push(0x3B);
+    return new Blob([new Uint8Array(out)], { type: 'image/gif' });
+  }
+
+  /**
+   * フレームをパレット番号の並び（左上から横方向）に変換
+   * @param size 画像の一辺（ピクセル、正方形）
+   */
+  private static getFrameIndices(pcgData: PCGData, frame: AnimationFrame, size: number, scale: number): Uint8Array {
+    const indices = new Uint8Array(size * size);
+
+    AnimationSequence.getFrameCodes(frame).forEach((code, index) => {
+      const baseX = (index % 2) * FONT_WIDTH;
+      const baseY = Math.floor(index / 2) * FONT_HEIGHT;
+
+      for (let py = 0; py < FONT_HEIGHT; py++) {
+        for (let px = 0; px < FONT_WIDTH; px++) {
+          const color = pcgData.getPixel(code, px, py);
+          for (let sy = 0; sy < scale; sy++) {
+            const offset = ((baseY + py) * scale + sy) * size + (baseX + px) * scale;
+            indices.fill(color, offset, offset + scale);
+          }
+        }
+      }
+    });
+    return indices;
+  }
+
+  /**
+   * デフォルトのファイル名を取得
+   */
+  static getDefaultFileName(): string {
+    return 'animation.gif';
+  }
+}
+
+/**
+ * 文字列をASCIIで書き込む
+ */
+function writeString(out: number[], text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    out.push(text.charCodeAt(i));
+  }
+}
+
+/**
+ * 16ビット値をリトルエンディアンで書き込む
+ */
+function writeUint16(out: number[], value: number): void {
+  out.push(value & 0xFF, (value >> 8) & 0xFF);
+}
+
+/**
+ * データを255バイトずつのサブブロックに分けて書き込む（終端は長さ0のブロック）
+ */
+function writeSubBlocks(out: number[], data: Uint8Array): void {
+  for (let i = 0; i < data.length; i += SUB_BLOCK_SIZE) {
+    const block = data.subarray(i, i + SUB_BLOCK_SIZE);
+    out.push(block.length, ...block);
+  }
+  out.push(0x00);
+}
+
+/**
+ * GIF用の可変長LZW圧縮
+ * 辞書が12ビットを使い切ったらクリアコードを出して作り直す
+ * @param indices パレット番号の並び
+ * @param minCodeSize 最小コードサイズ
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  // コードを下位ビットから詰めて書き込む
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const writeCode = (code: number): void => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(bitBuffer & 0xFF);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  writeCode(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    writeCode(prefix);
+    if (nextCode === MAX_CODE) {
+      writeCode(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= (1 << codeSize)) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+
+  writeCode(prefix);
+  writeCode(endCode);
+  if (bitCount > 0) {
+    bytes.push(bitBuffer & 0xFF);
+  }
+  return new Uint8Array(bytes);
+}
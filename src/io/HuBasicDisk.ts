@@ -0,0 +1,357 @@
+/**
+ * Hu-BASICのファイルシステム（2Dディスク）
+ * D88イメージ上のディレクトリを一覧し、ファイルを読み書きする
+ *
+ * ディスク構造:
+ * - FAT: レコード14（1バイト = 1クラスタ、1クラスタ = 1トラック = 16セクタ）
+ *   0x00 = 空き、0x80以上 = 最後のクラスタ（下位4ビット = 使用セクタ数-1）、それ以外 = 次のクラスタ
+ * - ディレクトリ: レコード16-31（1エントリ32バイト x 128）
+ *   +0 属性、+1 ファイル名(13)、+14 拡張子(3)、+17 パスワード、+18 サイズ、
+ *   +20 読み込みアドレス、+22 実行アドレス、+24 日付(BCD 6)、+30 開始クラスタ
+ */
+
+import { D88Image } from './D88Image';
+
+/** ファイルの属性 */
+export type HuBasicFileType = 'bin' | 'bas' | 'asc';
+
+/** ディレクトリのエントリ */
+export interface HuBasicFileEntry {
+  /** ディレクトリ内の位置 */
+  index: number;
+  name: string;
+  ext: string;
+  type: HuBasicFileType;
+  size: number;
+  loadAddress: number;
+  execAddress: number;
+  startCluster: number;
+}
+
+/** FATとディレクトリのレコード番号 */
+const FAT_RECORD = 14;
+const DIRECTORY_RECORD = 16;
+const DIRECTORY_RECORDS = 16;
+
+/** ディレクトリのエントリ */
+const ENTRY_SIZE = 32;
+const ENTRIES_PER_RECORD = 8;
+const MAX_ENTRIES = DIRECTORY_RECORDS * ENTRIES_PER_RECORD;
+
+/** 属性バイト */
+const ATTR = {
+  BIN: 0x01,
+  BAS: 0x02,
+  ASC: 0x04,
+  DIRECTORY: 0x80,
+  DELETED: 0x00,
+  END: 0xFF
+} as const;
+
+/** ファイル名と拡張子の長さ */
+const NAME_LENGTH = 13;
+const EXT_LENGTH = 3;
+
+/** クラスタ（2Dは80トラック、クラスタ0-1はシステム用） */
+const CLUSTER_COUNT = 80;
+const SECTORS_PER_CLUSTER = 16;
+const SECTOR_SIZE = 256;
+const CLUSTER_SIZE = SECTORS_PER_CLUSTER * SECTOR_SIZE;
+
+/** FATの値 */
+const FAT_FREE = 0x00;
+const FAT_LAST = 0x80;
+const FAT_RESERVED = 0x8F;
+
+/** ファイルサイズの上限（サイズは16ビット） */
+const MAX_FILE_SIZE = 0xFFFF;
+
+export class HuBasicDisk {
+  private image: D88Image;
+
+  constructor(image: D88Image) {
+    if (!image.is2D) {
+      throw new Error('Only 2D disk images are supported');
+    }
+    this.image = image;
+  }
+
+  /**
+   * Hu-BASICでフォーマットした空の2Dディスクを作成
+   * @param name ディスク名
+   */
+  static createBlank(name: string): HuBasicDisk {
+    const image = D88Image.createBlank2D(name);
+
+    // システム用のクラスタ0-1と、存在しないクラスタ80以降を使用済みにする
+    const fat = new Uint8Array(SECTOR_SIZE);
+    fat.fill(FAT_RESERVED, CLUSTER_COUNT);
+    fat[0] = 0x01;
+    fat[1] = FAT_RESERVED;
+    image.writeRecord(FAT_RECORD, fat);
+
+    const directory = new Uint8Array(SECTOR_SIZE).fill(ATTR.END);
+    for (let i = 0; i < DIRECTORY_RECORDS; i++) {
+      image.writeRecord(DIRECTORY_RECORD + i, directory);
+    }
+    return new HuBasicDisk(image);
+  }
+
+  /**
+   * ディスクイメージ（D88形式で書き出す時に使う）
+   */
+  getImage(): D88Image {
+    return this.image;
+  }
+
+  /**
+   * ファイルの一覧を取得（サブディレクトリと削除済みのエントリは除く）
+   */
+  listFiles(): HuBasicFileEntry[] {
+    const files: HuBasicFileEntry[] = [];
+
+    for (let record = 0; record < DIRECTORY_RECORDS; record++) {
+      const data = this.image.readRecord(DIRECTORY_RECORD + record);
+      for (let i = 0; i < ENTRIES_PER_RECORD; i++) {
+        const entry = data.subarray(i * ENTRY_SIZE, (i + 1) * ENTRY_SIZE);
+        if (entry[0] === ATTR.END) return files;
+
+        const type = HuBasicDisk.getFileType(entry[0]);
+        if (!type) continue;
+
+        files.push({
+          index: record * ENTRIES_PER_RECORD + i,
+          name: HuBasicDisk.decodeName(entry.subarray(1, 1 + NAME_LENGTH)),
+          ext: HuBasicDisk.decodeName(entry.subarray(14, 14 + EXT_LENGTH)),
+          type,
+          size: entry[18] | (entry[19] << 8),
+          loadAddress: entry[20] | (entry[21] << 8),
+          execAddress: entry[22] | (entry[23] << 8),
+          startCluster: entry[30] | (entry[31] << 8)
+        });
+      }
+    }
+    return files;
+  }
+
+  /**
+   * ファイルの内容を読み込む
+   * @throws FATのつながりが壊れている場合
+   */
+  readFile(entry: HuBasicFileEntry): Uint8Array {
+    const fat = this.image.readRecord(FAT_RECORD);
+    const data = new Uint8Array(entry.size);
+    const visited = new Set<number>();
+    let cluster = entry.startCluster;
+    let offset = 0;
+
+    while (offset < entry.size) {
+      if (cluster >= CLUSTER_COUNT || visited.has(cluster)) {
+        throw new Error(`Broken FAT chain: ${entry.name}`);
+      }
+      visited.add(cluster);
+
+      const next = fat[cluster];
+      const isLast = next >= FAT_LAST;
+      const sectors = isLast ? (next & 0x0F) + 1 : SECTORS_PER_CLUSTER;
+      for (let s = 0; s < sectors && offset < entry.size; s++) {
+        const sector = this.image.readRecord(cluster * SECTORS_PER_CLUSTER + s);
+        const length = Math.min(sector.length, entry.size - offset);
+        data.set(sector.subarray(0, length), offset);
+        offset += length;
+      }
+
+      if (isLast) break;
+      cluster = next;
+    }
+
+    if (offset < entry.size) {
+      throw new Error(`File is truncated: ${entry.name}`);
+    }
+    return data;
+  }
+
+  /**
+   * ファイルを書き込む（同じ名前のファイルがあれば置き換える）
+   * @param name ファイル名（13文字まで）
+   * @param ext 拡張子（3文字まで）
+   * @param type 属性
+   * @param data 内容
+   * @param loadAddress 読み込みアドレス（BINのみ意味を持つ）
+   * @param execAddress 実行アドレス（BINのみ意味を持つ）
+   * @throws ディスクやディレクトリに空きがない場合
+   */
+  writeFile(
+    name: string,
+    ext: string,
+    type: HuBasicFileType,
+    data: Uint8Array,
+    loadAddress: number = 0,
+    execAddress: number = 0
+  ): void {
+    if (data.length > MAX_FILE_SIZE) {
+      throw new Error('File too large');
+    }
+
+    const fileName = HuBasicDisk.normalizeName(name, NAME_LENGTH);
+    const fileExt = HuBasicDisk.normalizeName(ext, EXT_LENGTH);
+    const fat = this.image.readRecord(FAT_RECORD);
+
+    // 同名のファイルのクラスタを解放して、そのエントリを使う
+    const existing = this.listFiles().find(file => file.name === fileName && file.ext === fileExt);
+    if (existing) {
+      this.freeClusters(fat, existing.startCluster);
+    }
+    const index = existing?.index ?? this.findFreeEntry();
+    if (index < 0) {
+      throw new Error('Directory full');
+    }
+
+    // 空きクラスタを確保（空のファイルも1セクタ使う）
+    const clusterCount = Math.max(1, Math.ceil(data.length / CLUSTER_SIZE));
+    const clusters: number[] = [];
+    for (let c = 0; c < CLUSTER_COUNT && clusters.length < clusterCount; c++) {
+      if (fat[c] === FAT_FREE) clusters.push(c);
+    }
+    if (clusters.length < clusterCount) {
+      throw new Error('Disk full');
+    }
+
+    // データを書き込んでFATをつなぐ
+    clusters.forEach((cluster, i) => {
+      const chunk = data.subarray(i * CLUSTER_SIZE, (i + 1) * CLUSTER_SIZE);
+      const sectors = Math.max(1, Math.ceil(chunk.length / SECTOR_SIZE));
+      for (let s = 0; s < sectors; s++) {
+        this.image.writeRecord(cluster * SECTORS_PER_CLUSTER + s, chunk.subarray(s * SECTOR_SIZE, (s + 1) * SECTOR_SIZE));
+      }
+      fat[cluster] = i < clusters.length - 1 ? clusters[i + 1] : FAT_LAST | (sectors - 1);
+    });
+    this.image.writeRecord(FAT_RECORD, fat);
+
+    const entry = HuBasicDisk.createFileInfo(fileName, fileExt, type, data.length, loadAddress, execAddress);
+    this.writeEntry(index, entry, clusters[0]);
+  }
+
+  /**
+   * クラスタのつながりを解放する
+   */
+  private freeClusters(fat: Uint8Array, start: number): void {
+    let cluster = start;
+    while (cluster < CLUSTER_COUNT && fat[cluster] !== FAT_FREE) {
+      const next = fat[cluster];
+      fat[cluster] = FAT_FREE;
+      if (next >= FAT_LAST) break;
+      cluster = next;
+    }
+  }
+
+  /**
+   * 空いているディレクトリエントリを探す
+   * @returns 位置（空きがなければ-1）
+   */
+  private findFreeEntry(): number {
+    for (let index = 0; index < MAX_ENTRIES; index++) {
+      const data = this.image.readRecord(DIRECTORY_RECORD + Math.floor(index / ENTRIES_PER_RECORD));
+      const attr = data[(index % ENTRIES_PER_RECORD) * ENTRY_SIZE];
+      if (attr === ATTR.END || attr === ATTR.DELETED) return index;
+    }
+    return -1;
+  }
+
+  /**
+   * ディレクトリエントリを書き込む
+   */
+  private writeEntry(index: number, entry: Uint8Array, startCluster: number): void {
+    const record = DIRECTORY_RECORD + Math.floor(index / ENTRIES_PER_RECORD);
+    const data = this.image.readRecord(record);
+    entry[30] = startCluster & 0xFF;
+    entry[31] = startCluster >> 8;
+
+    data.set(entry, (index % ENTRIES_PER_RECORD) * ENTRY_SIZE);
+    this.image.writeRecord(record, data);
+  }
+
+  /**
+   * ファイル情報（32バイト）を作成
+   * ディレクトリエントリとテープのインフォメーションブロックで共通の形式（開始クラスタは0）
+   * @param name ファイル名（13文字まで）
+   * @param ext 拡張子（3文字まで）
+   * @param type 属性
+   * @param size ファイルサイズ
+   * @param loadAddress 読み込みアドレス
+   * @param execAddress 実行アドレス
+   */
+  static createFileInfo(
+    name: string,
+    ext: string,
+    type: HuBasicFileType,
+    size: number,
+    loadAddress: number = 0,
+    execAddress: number = 0
+  ): Uint8Array {
+    const entry = new Uint8Array(ENTRY_SIZE);
+    entry[0] = type === 'bin' ? ATTR.BIN : type === 'bas' ? ATTR.BAS : ATTR.ASC;
+    HuBasicDisk.encodeName(entry.subarray(1, 1 + NAME_LENGTH), HuBasicDisk.normalizeName(name, NAME_LENGTH));
+    HuBasicDisk.encodeName(entry.subarray(14, 14 + EXT_LENGTH), HuBasicDisk.normalizeName(ext, EXT_LENGTH));
+    entry[17] = 0x20;
+    entry[18] = size & 0xFF;
+    entry[19] = size >> 8;
+    entry[20] = loadAddress & 0xFF;
+    entry[21] = (loadAddress >> 8) & 0xFF;
+    entry[22] = execAddress & 0xFF;
+    entry[23] = (execAddress >> 8) & 0xFF;
+    entry.set(HuBasicDisk.encodeDate(new Date()), 24);
+    return entry;
+  }
+
+  /**
+   * 属性バイトからファイルの種類を取得
+   * @returns 種類（ファイルでなければnull）
+   */
+  private static getFileType(attr: number): HuBasicFileType | null {
+    if (attr === ATTR.DELETED || (attr & ATTR.DIRECTORY)) return null;
+    if (attr & ATTR.BIN) return 'bin';
+    if (attr & ATTR.BAS) return 'bas';
+    if (attr & ATTR.ASC) return 'asc';
+    return null;
+  }
+
+  /**
+   * ファイル名を正規化（ASCIIの表示可能文字以外は除き、長さを切り詰める）
+   */
+  static normalizeName(name: string, maxLength: number): string {
+    return name.replace(/[^\x21-\x7E]/g, '').slice(0, maxLength);
+  }
+
+  /**
+   * 空白詰めのファイル名を読み込む
+   */
+  private static decodeName(bytes: Uint8Array): string {
+    return String.fromCharCode(...bytes).replace(/[\s\0]+$/, '');
+  }
+
+  /**
+   * ファイル名を空白詰めで書き込む
+   */
+  private static encodeName(bytes: Uint8Array, name: string): void {
+    bytes.fill(0x20);
+    for (let i = 0; i < Math.min(bytes.length, name.length); i++) {
+      bytes[i] = name.charCodeAt(i);
+    }
+  }
+
+  /**
+   * 日付をBCDで書き込む（年、月(上位4ビット)と曜日(下位4ビット)、日、時、分、秒）
+   */
+  private static encodeDate(date: Date): Uint8Array {
+    const bcd = (value: number) => ((Math.floor(value / 10) % 10) << 4) | (value % 10);
+    return new Uint8Array([
+      bcd(date.getFullYear() % 100),
+      ((date.getMonth() + 1) << 4) | date.getDay(),
+      bcd(date.getDate()),
+      bcd(date.getHours()),
+      bcd(date.getMinutes()),
+      bcd(date.getSeconds())
+    ]);
+  }
+}
@@ -1,12 +1,56 @@
 /**
  * 画像形式（PNG等）の保存・読み込み
  * 128x128ピクセル = 16x16文字 = 256文字のPCGデータ
+ *
+ * 読み込みは任意の大きさの画像から範囲を切り出し、開始文字コードから順に書き込める
+ * （スプライトシートなど。16x16ドットのかたまりは4Chr.スベテと同じ2x2の並びにもできる）
+ * テキスト画面（40x25）用に、同じ文字をまとめたPCGとマップに変換することもできる
  */
 
 import { PCGData } from '../core/PCGData';
 import { X1_PALETTE } from '../core/constants';
-import { X1Color } from '../core/types';
+import { X1Color, TEXT_ATTR, TEXT_ATTR_DEFAULT, TEXT_COLUMNS, TEXT_ROWS } from '../core/types';
+import { TEXT_BLANK_CODE } from '../core/TextScreen';
+import { ScreenConverter } from '../core/ScreenConverter';
 import { reduceColors, isExactX1Colors, ColorReduceMode } from '../core/ColorReducer';
+import { LoadIssue, LoadReport, TileMerge } from './LoadReport';
+
+/** 拡大縮小（'none': 等倍、'fit': 128x128に最近傍で拡大縮小） */
+export type ImageScaleMode = 'none' | 'fit';
+
+/** 文字の並び（'row': 左上から横に順番、'meta': 16x16ドットずつ4Chr.スベテと同じ2x2の並び） */
+export type ImageTileOrder = 'row' | 'meta';
+
+/** 画像の読み込み設定 */
+export interface ImageImportOptions {
+  reduceMode: ColorReduceMode;
+  /** 切り出す範囲（ドット、幅・高さが0なら画像の端まで） */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  scale: ImageScaleMode;
+  order: ImageTileOrder;
+}
+
+/** テキスト画面用の変換設定（拡大縮小のFITは320x200） */
+export interface ScreenImportOptions extends Omit<ImageImportOptions, 'order'> {
+  /** 似た文字としてまとめる、異なるドット数の上限（0なら同じ文字だけ） */
+  tolerance: number;
+  /** 開始〜終了文字コードに収まらない場合に、収まるまで似た文字をまとめるか */
+  merge: boolean;
+}
+
+/** テキスト画面用の変換結果 */
+export interface ScreenImportReport extends LoadReport {
+  /** 40x25のテキストVRAM（画像のない部分は空白） */
+  text: Uint8Array;
+  /** 40x25のアトリビュートVRAM（PCGのセルはPCGのビットを立てる） */
+  attr: Uint8Array;
+}
+
+/** 全256文字の画像の大きさ（ドット） */
+const IMAGE_SIZE = 128;
 
 /**
  * 画像形式の保存・読み込みユーティリティ
@@ -59,60 +103,176 @@ export class ImageFormat {
 
   /**
    * 画像形式で読み込み
+   * 切り出した範囲を8x8ドット単位に区切り、開始文字コードから順に書き込む
+   * 8ドットに満たない端の部分と、&HFFを超える文字は使わない
    * @param file 画像ファイル
    * @param pcgData 書き込み先のPCGData
-   * @param reduceMode 減色モード
-   * @returns 読み込んだ文字数（常に256）
+   * @param start 開始文字コード
+   * @param options 減色モード・切り出す範囲・拡大縮小・文字の並び
+   * @returns 読み込み結果
+   */
+  static async loadImage(file: File, pcgData: PCGData, start: number, options: ImageImportOptions): Promise<LoadReport> {
+    const { colorData, width, height } = await ImageFormat.decodeImage(file, options, IMAGE_SIZE, IMAGE_SIZE);
+
+    // 8x8ドット単位に区切って書き込む（変更通知は1回にまとめる）
+    const tilesX = Math.floor(width / 8);
+    const tilesY = Math.floor(height / 8);
+    let count = 0;
+    let overflow = 0;
+    pcgData.batch(() => {
+      for (let ty = 0; ty < tilesY; ty++) {
+        for (let tx = 0; tx < tilesX; tx++) {
+          const charCode = start + ImageFormat.getTileOffset(tx, ty, tilesX, options.order);
+          if (charCode > 255) {
+            overflow++;
+            continue;
+          }
+
+          for (let py = 0; py < 8; py++) {
+            for (let px = 0; px < 8; px++) {
+              pcgData.setPixel(charCode, px, py, colorData[ty * 8 + py][tx * 8 + px]);
+            }
+          }
+          count++;
+        }
+      }
+    });
+
+    const issues: LoadIssue[] = [];
+    if (overflow > 0) {
+      issues.push({ kind: 'clipped', message: `${overflow} tiles past &HFF not loaded` });
+    }
+    if (width % 8 !== 0 || height % 8 !== 0) {
+      issues.push({ kind: 'trailing', message: `${width % 8}x${height % 8} dots at the edges not used` });
+    }
+    return { count, issues };
+  }
+
+  /**
+   * 画像をテキスト画面（40x25）用のPCGとマップに変換
+   * 同じ文字・似た文字を1つにまとめ、開始〜終了文字コードに収まればPCGに書き込む
+   * （mergeなら収まるまで最も似た文字どうしをまとめる）
+   * @param file 画像ファイル
+   * @param pcgData 書き込み先のPCGData
+   * @param start 開始文字コード
+   * @param end 終了文字コード
+   * @param options 減色モード・切り出す範囲・拡大縮小・似た文字とみなすドット数・収まるまでまとめるか
+   * @returns 読み込み結果と、40x25のテキストVRAM・アトリビュートVRAM
+   */
+  static async convertScreen(
+    file: File,
+    pcgData: PCGData,
+    start: number,
+    end: number,
+    options: ScreenImportOptions
+  ): Promise<ScreenImportReport> {
+    const columns = TEXT_COLUMNS.WIDTH40;
+    const { colorData, width, height } = await ImageFormat.decodeImage(file, options, columns * 8, TEXT_ROWS * 8);
+    const available = end - start + 1;
+    const conversion = ScreenConverter.convert(colorData, {
+      columns,
+      rows: TEXT_ROWS,
+      tolerance: options.tolerance,
+      budget: options.merge ? available : undefined
+    });
+    if (conversion.tiles.length > available) {
+      throw new Error(`${conversion.tiles.length} unique tiles needed, but only ${available} codes in range`);
+    }
+
+    // 文字を開始文字コードから順に書き込む
+    pcgData.batch(() => {
+      conversion.tiles.forEach((tile, index) => {
+        tile.forEach((color, dot) => pcgData.setPixel(start + index, dot % 8, Math.floor(dot / 8), color));
+      });
+    });
+
+    // マップ（画像のない部分は空白）
+    const text = new Uint8Array(columns * TEXT_ROWS).fill(TEXT_BLANK_CODE);
+    const attr = new Uint8Array(columns * TEXT_ROWS).fill(TEXT_ATTR_DEFAULT);
+    conversion.map.forEach((tile, index) => {
+      const cell = Math.floor(index / conversion.columns) * columns + index % conversion.columns;
+      text[cell] = start + tile;
+      attr[cell] = TEXT_ATTR_DEFAULT | TEXT_ATTR.PCG;
+    });
+
+    const issues: LoadIssue[] = [];
+    if (conversion.identical + conversion.similar + conversion.merged > 0) {
+      issues.push({
+        kind: 'merged',
+        message: `${conversion.map.length} cells use ${conversion.tiles.length} unique tiles`
+          + ` (${conversion.identical} identical, ${conversion.similar} similar`
+          + (conversion.merged > 0 ? `, ${conversion.merged} merged to fit ${available} codes)` : ')')
+      });
+    }
+    if (width > columns * 8 || height > TEXT_ROWS * 8) {
+      issues.push({ kind: 'clipped', message: `${width}x${height} image cut to ${columns * 8}x${TEXT_ROWS * 8}` });
+    } else if (width % 8 !== 0 || height % 8 !== 0) {
+      issues.push({ kind: 'trailing', message: `${width % 8}x${height % 8} dots at the edges not used` });
+    }
+    // まとめた文字（ビジュアルな報告用）
+    const merges: TileMerge[] = [];
+    conversion.sources.forEach((sources, index) => {
+      if (sources.length > 1) {
+        merges.push({ code: start + index, tile: conversion.tiles[index], sources });
+      }
+    });
+
+    return { count: conversion.tiles.length, issues, merges, text, attr };
+  }
+
+  /**
+   * 画像ファイルを読み込み、切り出して減色する
+   * @param file 画像ファイル
+   * @param options 減色モード・切り出す範囲・拡大縮小
+   * @param fitWidth FITで拡大縮小する幅
+   * @param fitHeight FITで拡大縮小する高さ
+   * @returns 減色した画像（[y][x]）と大きさ
    */
-  static async loadImage(file: File, pcgData: PCGData, reduceMode: ColorReduceMode): Promise<number> {
+  private static decodeImage(
+    file: File,
+    options: Omit<ImageImportOptions, 'order'>,
+    fitWidth: number,
+    fitHeight: number
+  ): Promise<{ colorData: X1Color[][]; width: number; height: number }> {
     return new Promise((resolve, reject) => {
       const img = new Image();
 
       img.onload = () => {
         try {
-          // 128x128以外のサイズは警告（ただし処理は続行）
-          if (img.width !== 128 || img.height !== 128) {
-            console.warn(`Image size is ${img.width}x${img.height}, expected 128x128`);
+          // 切り出す範囲（幅・高さが0なら画像の端まで）
+          const x = Math.max(0, Math.min(img.width, options.x));
+          const y = Math.max(0, Math.min(img.height, options.y));
+          const width = Math.min(img.width - x, options.width || img.width);
+          const height = Math.min(img.height - y, options.height || img.height);
+          if (width <= 0 || height <= 0) {
+            throw new Error('Crop area is outside the image');
           }
 
-          // 画像をキャンバスに描画してピクセルデータを取得
+          // 画像をキャンバスに描画してピクセルデータを取得（FITは最近傍で拡大縮小）
           const canvas = document.createElement('canvas');
-          canvas.width = 128;
-          canvas.height = 128;
+          canvas.width = options.scale === 'fit' ? fitWidth : width;
+          canvas.height = options.scale === 'fit' ? fitHeight : height;
           const ctx = canvas.getContext('2d')!;
-          ctx.drawImage(img, 0, 0, 128, 128);
-          const imageData = ctx.getImageData(0, 0, 128, 128);
+          ctx.imageSmoothingEnabled = false;
+          ctx.drawImage(img, x, y, width, height, 0, 0, canvas.width, canvas.height);
+          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
 
           // 減色モードに応じて処理
           let colorData: X1Color[][];
-          if (reduceMode === 'none' && isExactX1Colors(imageData)) {
+          if (options.reduceMode === 'none' && isExactX1Colors(imageData)) {
             // X1の8色のみで構成されている場合はそのまま変換
             colorData = reduceColors(imageData, 'reduce');
-          } else if (reduceMode === 'none') {
+          } else if (options.reduceMode === 'none') {
             // 8色以外が含まれているが'none'が指定された場合は'reduce'にフォールバック
             console.log('[ImageFormat] Non-X1 colors detected, using reduce mode');
             colorData = reduceColors(imageData, 'reduce');
           } else {
-            colorData = reduceColors(imageData, reduceMode);
-          }
-
-          // 256文字を読み込み
-          for (let charCode = 0; charCode < 256; charCode++) {
-            const charX = (charCode % 16) * 8;
-            const charY = Math.floor(charCode / 16) * 8;
-
-            for (let py = 0; py < 8; py++) {
-              for (let px = 0; px < 8; px++) {
-                const color = colorData[charY + py][charX + px];
-                pcgData.setPixel(charCode, px, py, color);
-              }
-            }
+            colorData = reduceColors(imageData, options.reduceMode);
           }
 
           // 画像URLを解放
           URL.revokeObjectURL(img.src);
-
-          resolve(256);
+          resolve({ colorData, width: canvas.width, height: canvas.height });
         } catch (e) {
           URL.revokeObjectURL(img.src);
           reject(e);
@@ -128,6 +288,24 @@ export class ImageFormat {
     });
   }
 
+  /**
+   * 画像の文字位置から、開始文字コードからのオフセットを求める
+   * @param tx 横の文字位置
+   * @param ty 縦の文字位置
+   * @param tilesX 画像の横の文字数
+   * @param order 'row': 左上から横に順番、'meta': 16x16ドットずつ4Chr.スベテと同じ2x2の並び
+   */
+  private static getTileOffset(tx: number, ty: number, tilesX: number, order: ImageTileOrder): number {
+    if (order === 'row') {
+      return ty * tilesX + tx;
+    }
+
+    // 16x16ドットのかたまりを左上から横に順番に、文字コードの16x16の並びで2文字おきに置く
+    const meta = Math.floor(ty / 2) * Math.ceil(tilesX / 2) + Math.floor(tx / 2);
+    const base = (meta % 8) * 2 + Math.floor(meta / 8) * 32;
+    return base + (ty % 2) * 16 + (tx % 2);
+  }
+
   /**
    * デフォルトのファイル名を取得
    */
@@ -0,0 +1,43 @@
+/**
+ * BIN / BAS形式・画像の読み込み結果の報告
+ * 読み込めなかった行や範囲外のコード、余ったバイトなどを読み込み後に表示する
+ */
+
+import { X1Color } from '../core/types';
+
+/** 報告の種類 */
+export type LoadIssueKind =
+  | 'skipped'       // 定義として読めなかった行
+  | 'out-of-range'  // 文字コードが0-255の範囲外
+  | 'trailing'      // 1文字に満たない余りやプログラム終端の後ろのデータ
+  | 'clipped'       // &HFFを超えたため読み込まなかった定義
+  | 'merged';       // 同じ文字・似た文字にまとめたセル（画像のテキスト画面への変換）
+
+/** 報告の1項目 */
+export interface LoadIssue {
+  kind: LoadIssueKind;
+  /** BASICの行番号（行番号のないテキストの場合は何行目か） */
+  line?: number;
+  message: string;
+}
+
+/** 似た文字をまとめた結果（画像のテキスト画面への変換のみ） */
+export interface TileMerge {
+  /** 書き込む文字コード */
+  code: number;
+  /** 書き込む文字（64ドット、左上から横方向の順） */
+  tile: X1Color[];
+  /** まとめる前の元の文字 */
+  sources: X1Color[][];
+}
+
+/** 読み込み結果 */
+export interface LoadReport {
+  /** 読み込んだ文字数 */
+  count: number;
+  issues: LoadIssue[];
+  /** 中間コードの方言（BASのバイナリ形式のみ、例: "Hu-BASIC (detected)"） */
+  dialect?: string;
+  /** 似た文字をまとめた文字（画像のテキスト画面への変換のみ） */
+  merges?: TileMerge[];
+}
@@ -0,0 +1,188 @@
+/**
+ * PCGを定義する機械語プログラム（テープからの起動用）
+ * 書き込みルーチンとPCGデータを1つのBINにし、実行アドレス（= 読み込みアドレス）から起動するとPCGを定義する
+ *
+ * - 書き込みの手順はAsmFormatのルーチンと同じ（テキストVRAMに文字コードを置き、垂直帰線期間にPCGのポートへ書く）
+ * - 定義したあとは、文字コード順に16文字ずつテキスト画面の左上に並べて表示し、そのまま止まる
+ * - スタックは読み込みアドレスの直前に置く
+ */
+
+import { PCGData } from '../core/PCGData';
+import { BinFormat } from './BinFormat';
+import { X1_PORT } from './AsmFormat';
+
+/** 表示に使うアトリビュート（PCG + 白） */
+const GRID_ATTR = 0x27;
+
+/** 1行の桁数（WIDTH 40） */
+const GRID_COLUMNS = 40;
+
+/** 相対ジャンプの条件（JR cc の命令コード） */
+const JR = { always: 0x18, nz: 0x20 } as const;
+
+/**
+ * Z80の機械語を組み立てる（ラベルへのジャンプは最後に解決する）
+ */
+class Z80Writer {
+  private bytes: number[] = [];
+  private labels = new Map<string, number>();
+  private fixups: { at: number; label: string; kind: 'abs' | 'rel' }[] = [];
+
+  constructor(private origin: number) {}
+
+  /** 現在のアドレス */
+  get address(): number { return this.origin + this.bytes.length; }
+
+  emit(...values: number[]): void {
+    this.bytes.push(...values.map(value => value & 0xFF));
+  }
+
+  /** 16ビットの値（リトルエンディアン） */
+  word(value: number): void {
+    this.emit(value & 0xFF, (value >> 8) & 0xFF);
+  }
+
+  label(name: string): void {
+    this.labels.set(name, this.address);
+  }
+
+  /** 命令コードの後ろにラベルの絶対アドレスを置く（CALL・JP・LD rr,nn） */
+  absolute(opcode: number, label: string): void {
+    this.emit(opcode);
+    this.fixups.push({ at: this.bytes.length, label, kind: 'abs' });
+    this.word(0);
+  }
+
+  /** JR（条件付き）でラベルへ */
+  relative(opcode: number, label: string): void {
+    this.emit(opcode);
+    this.fixups.push({ at: this.bytes.length, label, kind: 'rel' });
+    this.emit(0);
+  }
+
+  /**
+   * ジャンプ先を解決したバイト列
+   * @throws 未定義のラベルがある、JRの範囲を超える場合
+   */
+  toBytes(): Uint8Array {
+    for (const fixup of this.fixups) {
+      const target = this.labels.get(fixup.label);
+      if (target === undefined) throw new Error(`Undefined label: ${fixup.label}`);
+      if (fixup.kind === 'abs') {
+        this.bytes[fixup.at] = target & 0xFF;
+        this.bytes[fixup.at + 1] = (target >> 8) & 0xFF;
+      } else {
+        const offset = target - (this.origin + fixup.at + 1);
+        if (offset < -128 || offset > 127) throw new Error(`Jump out of range: ${fixup.label}`);
+        this.bytes[fixup.at] = offset & 0xFF;
+      }
+    }
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * PCGを定義する機械語プログラムの作成ユーティリティ
+ */
+export class PcgBootProgram {
+  /**
+   * 書き込みルーチンとPCGデータを1つのプログラムにする
+   * @param pcgData PCGデータ
+   * @param start 開始文字コード
+   * @param end 終了文字コード
+   * @param x3mode 三倍速定義の並びにするか
+   * @param address 読み込みアドレス（実行アドレスも同じ）
+   * @returns プログラム（読み込みアドレスに置くバイト列）
+   * @throws プログラムが&HFFFFを超える場合
+   */
+  static build(pcgData: PCGData, start: number, end: number, x3mode: boolean, address: number): Uint8Array {
+    const data = BinFormat.toBytes(pcgData, start, end, BinFormat.getPreset(x3mode ? 'x3' : 'normal'));
+    const count = end - start + 1;
+    const z = new Z80Writer(address);
+
+    z.emit(0xF3);                            // di
+    z.emit(0x31); z.word(address);           // ld sp,address
+    z.absolute(0x21, 'data');                // ld hl,data
+    z.emit(0x16, start);                     // ld d,start
+    z.emit(0x1E, count);                     // ld e,count (0 = 256)
+
+    // 1文字ずつ定義する
+    z.label('define');
+    z.emit(0x7A);                            // ld a,d
+    z.emit(0x01); z.word(X1_PORT.TEXT_VRAM); // ld bc,TEXT_VRAM
+    z.emit(0xED, 0x79);                      // out (c),a
+    z.absolute(0xCD, 'vsync');               // call vsync
+    z.emit(0x01); z.word(X1_PORT.PCG_B);     // ld bc,PCG_B
+    if (x3mode) {
+      // 行ごとにB,R,Gの順
+      z.label('row');
+      for (let plane = 0; plane < 3; plane++) {
+        z.emit(0x7E, 0xED, 0x79, 0x23);      // ld a,(hl) / out (c),a / inc hl
+        if (plane < 2) z.emit(0x04);         // inc b
+      }
+      z.emit(0x06, X1_PORT.PCG_B >> 8);      // ld b,PCG_B >> 8
+      z.emit(0x0C, 0x79, 0xFE, 0x08);        // inc c / ld a,c / cp 8
+      z.relative(JR.nz, 'row');
+    } else {
+      // プレーンごとに8行ずつ
+      z.absolute(0xCD, 'plane');             // call plane
+      z.emit(0x01); z.word(X1_PORT.PCG_R);
+      z.absolute(0xCD, 'plane');
+      z.emit(0x01); z.word(X1_PORT.PCG_G);
+      z.absolute(0xCD, 'plane');
+    }
+    z.emit(0x14, 0x1D);                      // inc d / dec e
+    z.relative(JR.nz, 'define');
+
+    // 定義した文字を16文字ずつ並べて表示する（HL = 画面上の位置）
+    z.emit(0x16, start);                     // ld d,start
+    z.emit(0x1E, count);                     // ld e,count
+    z.emit(0x21); z.word(0);                 // ld hl,0
+    z.label('grid');
+    z.emit(0x7C, 0xF6, X1_PORT.TEXT_VRAM >> 8, 0x47, 0x4D); // ld a,h / or TEXT_VRAM >> 8 / ld b,a / ld c,l
+    z.emit(0xED, 0x51);                      // out (c),d
+    z.emit(0x7C, 0xF6, X1_PORT.ATTR_VRAM >> 8, 0x47);       // ld a,h / or ATTR_VRAM >> 8 / ld b,a
+    z.emit(0x3E, GRID_ATTR, 0xED, 0x79);     // ld a,GRID_ATTR / out (c),a
+    z.emit(0x23, 0x14);                      // inc hl / inc d
+    z.emit(0x7A, 0xE6, 0x0F);                // ld a,d / and 0FH
+    z.relative(JR.nz, 'next');
+    z.emit(0x01); z.word(GRID_COLUMNS - 16); // ld bc,GRID_COLUMNS - 16
+    z.emit(0x09);                            // add hl,bc
+    z.label('next');
+    z.emit(0x1D);                            // dec e
+    z.relative(JR.nz, 'grid');
+    z.label('stop');
+    z.relative(JR.always, 'stop');
+
+    if (!x3mode) {
+      // 1プレーン8行を書き込む（BC = ポート、C = 行）
+      z.label('plane');
+      z.emit(0x7E, 0xED, 0x79, 0x23);        // ld a,(hl) / out (c),a / inc hl
+      z.emit(0x0C, 0x79, 0xFE, 0x08);        // inc c / ld a,c / cp 8
+      z.relative(JR.nz, 'plane');
+      z.emit(0xC9);                          // ret
+    }
+
+    // 垂直帰線期間の始まりを待つ
+    z.label('vsync');
+    z.emit(0x01); z.word(X1_PORT.PPI_B);     // ld bc,PPI_B
+    z.label('vsync1');
+    z.emit(0xED, 0x78);                      // in a,(c)
+    z.absolute(0xF2, 'vsync1');              // jp p,vsync1（表示期間を待つ）
+    z.label('vsync2');
+    z.emit(0xED, 0x78);                      // in a,(c)
+    z.absolute(0xFA, 'vsync2');              // jp m,vsync2（表示期間が終わるまで待つ）
+    z.emit(0xC9);                            // ret
+
+    z.label('data');
+    const code = z.toBytes();
+    if (address + code.length + data.length > 0x10000) {
+      throw new Error('Program does not fit above LOAD address');
+    }
+
+    const program = new Uint8Array(code.length + data.length);
+    program.set(code);
+    program.set(data, code.length);
+    return program;
+  }
+}
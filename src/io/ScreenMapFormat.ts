@@ -0,0 +1,108 @@
+/**
+ * テキスト画面（マップ）ファイルの保存・読み込み
+ *
+ * ファイル構造:
+ * - ヘッダ8バイト: "X1SC"、バージョン(1)、桁数(40/80)、行数(25)、予約(0)
+ * - 文字コード: 桁数*行数 バイト（左上から横方向の順）
+ * - アトリビュート: 桁数*行数 バイト（同上）
+ *
+ * VRAMイメージ（saveVram）はヘッダなしで、テキストVRAM・アトリビュートVRAMを
+ * 実機と同じ並び（先頭から横方向、桁数*行数 バイト）で別々のファイルに書き出す
+ */
+
+import { TextScreen } from '../core/TextScreen';
+import { ScreenMode, TEXT_ROWS, TEXT_COLUMNS } from '../core/types';
+
+/** ファイル識別子 */
+const MAGIC = 'X1SC';
+
+/** フォーマットのバージョン */
+const VERSION = 1;
+
+/** ヘッダのバイト数 */
+const HEADER_SIZE = 8;
+
+/**
+ * テキスト画面ファイルの保存・読み込みユーティリティ
+ */
+export class ScreenMapFormat {
+  /**
+   * テキスト画面を保存（現在の桁数で書き出す）
+   * @param screen テキスト画面
+   * @returns Blob
+   */
+  static save(screen: TextScreen): Blob {
+    const { text, attr } = screen.getVram();
+    const data = new Uint8Array(HEADER_SIZE + text.length + attr.length);
+
+    for (let i = 0; i < MAGIC.length; i++) {
+      data[i] = MAGIC.charCodeAt(i);
+    }
+    data[4] = VERSION;
+    data[5] = screen.columns;
+    data[6] = TEXT_ROWS;
+    data[7] = 0;
+    data.set(text, HEADER_SIZE);
+    data.set(attr, HEADER_SIZE + text.length);
+
+    return new Blob([data.buffer as ArrayBuffer], { type: 'application/octet-stream' });
+  }
+
+  /**
+   * テキストVRAMとアトリビュートVRAMのイメージを作成
+   * LDIRやOUTIでそのまま転送できるよう、ヘッダを付けずに別々のファイルにする
+   * @param screen テキスト画面
+   * @returns テキストVRAM・アトリビュートVRAMの順
+   */
+  static saveVram(screen: TextScreen): { blob: Blob; fileName: string }[] {
+    const { text, attr } = screen.getVram();
+    const base = `screen${screen.columns}`;
+    return [
+      { blob: new Blob([text.buffer as ArrayBuffer], { type: 'application/octet-stream' }), fileName: `${base}_text.bin` },
+      { blob: new Blob([attr.buffer as ArrayBuffer], { type: 'application/octet-stream' }), fileName: `${base}_attr.bin` }
+    ];
+  }
+
+  /**
+   * テキスト画面を読み込み（桁数もファイルに合わせる）
+   * @param data バイナリデータ
+   * @param screen 書き込み先のテキスト画面
+   * @returns 読み込んだ画面モード
+   */
+  static load(data: Uint8Array, screen: TextScreen): ScreenMode {
+    if (data.length < HEADER_SIZE || String.fromCharCode(...data.subarray(0, 4)) !== MAGIC) {
+      throw new Error('Not a screen map file');
+    }
+    if (data[4] !== VERSION) {
+      throw new Error(`Unsupported screen map version: ${data[4]}`);
+    }
+
+    const columns = data[5];
+    const rows = data[6];
+    const mode: ScreenMode | null = columns === TEXT_COLUMNS.WIDTH40 ? 'WIDTH40'
+      : columns === TEXT_COLUMNS.WIDTH80 ? 'WIDTH80'
+      : null;
+    if (!mode || rows !== TEXT_ROWS) {
+      throw new Error(`Unsupported screen size: ${columns}x${rows}`);
+    }
+
+    const size = columns * rows;
+    if (data.length < HEADER_SIZE + size * 2) {
+      throw new Error('Screen map file too small');
+    }
+
+    screen.setVram(
+      mode,
+      data.slice(HEADER_SIZE, HEADER_SIZE + size),
+      data.slice(HEADER_SIZE + size, HEADER_SIZE + size * 2)
+    );
+    return mode;
+  }
+
+  /**
+   * デフォルトのファイル名を取得
+   */
+  static getDefaultFileName(mode: ScreenMode): string {
+    return `screen${TEXT_COLUMNS[mode]}.x1s`;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * X1のカセットテープイメージ（TAP形式）の書き出し
+ * BASICプログラムやPCGのバイナリを1ファイル分の録音データにする
+ *
+ * ファイル構造（エミュレータ共通のTAPE形式）:
+ * - ヘッダ 0x28バイト: "TAPE"、テープ名(17)、予約(5)、ライトプロテクト(1)、
+ *   フォーマット(1, 0x01 = 固定サンプリング周波数)、サンプリング周波数(4)、データのビット数(4)、テープ位置(4)
+ * - データ: 1サンプル = 1ビット（1 = High、0 = Low）、各バイトの上位ビットから
+ *
+ * 録音形式（シャープPWM方式）:
+ * - "1" = 2kHz 1周期、"0" = 4kHz 1周期、1バイト = "1" + 8ビット（上位から）
+ * - インフォメーションブロック: リーダー、テープマーク(1 x 40, 0 x 40)、"1"、
+ *   ファイル情報(32バイト)、チェックサム(2)、"1"
+ * - データブロック: リーダー、テープマーク(1 x 20, 0 x 20)、"1"、データ、チェックサム(2)、"1"
+ * - チェックサムはブロック内の"1"のビット数（ビッグエンディアン）
+ */
+
+import { HuBasicDisk, HuBasicFileType } from './HuBasicDisk';
+
+/** TAPE形式のヘッダ */
+const HEADER_SIZE = 0x28;
+const FORMAT_FIXED_FREQUENCY = 0x01;
+
+/** サンプリング周波数（4kHzの半周期 = 1サンプル） */
+const SAMPLE_RATE = 8000;
+
+/** 1ビットのHigh/Lowそれぞれのサンプル数 */
+const LONG_SAMPLES = 2;
+const SHORT_SAMPLES = 1;
+
+/** リーダー（"0"の数） */
+const INFO_LEADER_BITS = 10000;
+const DATA_LEADER_BITS = 5000;
+
+/** テープマーク（"1"と"0"それぞれの数） */
+const INFO_MARK_BITS = 40;
+const DATA_MARK_BITS = 20;
+
+/** ファイルサイズの上限（サイズは16ビット） */
+const MAX_FILE_SIZE = 0xFFFF;
+
+/**
+ * 録音データ（1ビット = 1サンプル）を詰めて書き込む
+ */
+class TapeWriter {
+  private bytes: number[] = [];
+  private current = 0;
+  private count = 0;
+
+  /** 書き込んだサンプル数 */
+  get length(): number { return this.count; }
+
+  /**
+   * 1ビット分の波形（High → Low）を書き込む
+   */
+  writeBit(bit: boolean): void {
+    const samples = bit ? LONG_SAMPLES : SHORT_SAMPLES;
+    for (let i = 0; i < samples; i++) this.writeSample(1);
+    for (let i = 0; i < samples; i++) this.writeSample(0);
+  }
+
+  /**
+   * 同じビットを続けて書き込む
+   */
+  writeBits(bit: boolean, count: number): void {
+    for (let i = 0; i < count; i++) this.writeBit(bit);
+  }
+
+  /**
+   * 1バイト（スタートビット"1" + 上位ビットから8ビット）を書き込む
+   * @returns "1"のビット数（チェックサム用）
+   */
+  writeByte(value: number): number {
+    let ones = 0;
+    this.writeBit(true);
+    for (let i = 7; i >= 0; i--) {
+      const bit = ((value >> i) & 1) === 1;
+      if (bit) ones++;
+      this.writeBit(bit);
+    }
+    return ones;
+  }
+
+  /**
+   * ブロック（リーダー、テープマーク、内容、チェックサム）を書き込む
+   */
+  writeBlock(data: Uint8Array, leaderBits: number, markBits: number): void {
+    this.writeBits(false, leaderBits);
+    this.writeBits(true, markBits);
+    this.writeBits(false, markBits);
+    this.writeBit(true);
+
+    let checksum = 0;
+    for (const value of data) {
+      checksum += this.writeByte(value);
+    }
+    this.writeByte((checksum >> 8) & 0xFF);
+    this.writeByte(checksum & 0xFF);
+    this.writeBit(true);
+  }
+
+  private writeSample(value: number): void {
+    this.current = (this.current << 1) | value;
+    this.count++;
+    if (this.count % 8 === 0) {
+      this.bytes.push(this.current);
+      this.current = 0;
+    }
+  }
+
+  /**
+   * 書き込んだサンプル（最後の半端は下位を0で埋める）
+   */
+  toBytes(): Uint8Array {
+    const rest = this.count % 8;
+    return new Uint8Array(rest === 0 ? this.bytes : [...this.bytes, this.current << (8 - rest)]);
+  }
+}
+
+/**
+ * TAP形式の書き出しユーティリティ
+ */
+export class TapFormat {
+  /**
+   * ファイルをテープイメージに変換
+   * @param data ファイルの内容（BasFormat.saveBinaryの出力やPCGのバイナリ）
+   * @param name ファイル名（13文字まで）
+   * @param ext 拡張子（3文字まで）
+   * @param type Hu-BASICのファイル属性
+   * @param loadAddress 読み込みアドレス（BINのみ意味を持つ）
+   * @param execAddress 実行アドレス（BINのみ意味を持つ）
+   * @returns Blob
+   */
+  static save(
+    data: Uint8Array,
+    name: string,
+    ext: string,
+    type: HuBasicFileType,
+    loadAddress: number = 0,
+    execAddress: number = 0
+  ): Blob {
+    if (data.length > MAX_FILE_SIZE) {
+      throw new Error('File too large');
+    }
+
+    const writer = new TapeWriter();
+    const info = HuBasicDisk.createFileInfo(name, ext, type, data.length, loadAddress, execAddress);
+    writer.writeBlock(info, INFO_LEADER_BITS, INFO_MARK_BITS);
+    writer.writeBlock(data, DATA_LEADER_BITS, DATA_MARK_BITS);
+    const samples = writer.toBytes();
+
+    const out = new Uint8Array(HEADER_SIZE + samples.length);
+    const view = new DataView(out.buffer);
+    out.set([0x54, 0x41, 0x50, 0x45]);  // "TAPE"
+    const tapeName = HuBasicDisk.normalizeName(name, 16);
+    for (let i = 0; i < tapeName.length; i++) {
+      out[4 + i] = tapeName.charCodeAt(i);
+    }
+    out[0x1B] = FORMAT_FIXED_FREQUENCY;
+    view.setUint32(0x1C, SAMPLE_RATE, true);
+    view.setUint32(0x20, writer.length, true);
+    view.setUint32(0x24, 0, true);
+    out.set(samples, HEADER_SIZE);
+
+    return new Blob([out.buffer as ArrayBuffer], { type: 'application/octet-stream' });
+  }
+
+  /**
+   * デフォルトのファイル名を取得
+   */
+  static getDefaultFileName(): string {
+    return 'pcg.tap';
+  }
+}
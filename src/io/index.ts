@@ -6,4 +6,22 @@
 export { BinFormat } from './BinFormat';
 export { BasFormat } from './BasFormat';
 export { ImageFormat } from './ImageFormat';
-export type { ColorReduceMode } from './ImageFormat';
+export { ClipboardFormat } from './ClipboardFormat';
+export { ScreenMapFormat } from './ScreenMapFormat';
+export { GifFormat } from './GifFormat';
+export { D88Image } from './D88Image';
+export { HuBasicDisk } from './HuBasicDisk';
+export { TapFormat } from './TapFormat';
+export { AsmFormat } from './AsmFormat';
+export { PcgBootProgram } from './PcgBootProgram';
+export { CHeaderFormat } from './CHeaderFormat';
+export type { AsmOptions, AsmSyntax } from './AsmFormat';
+export type { CHeaderOptions } from './CHeaderFormat';
+export type { BinLayout, BinLayoutPreset, BinPlaneOrder, BinArrangement } from './BinFormat';
+export type { ClipboardContent } from './ClipboardFormat';
+export type { BasProgramOptions, BasLoaderStyle, BasMergeResult, BasListing, BasListingLine } from './BasFormat';
+export type { GifOptions } from './GifFormat';
+export type { LoadIssue, LoadIssueKind, LoadReport, TileMerge } from './LoadReport';
+export type { BasicDialect, BasicDialectId } from './BasicDialect';
+export type { HuBasicFileEntry, HuBasicFileType } from './HuBasicDisk';
+export type { ColorReduceMode, ImageImportOptions, ImageScaleMode, ImageTileOrder, ScreenImportOptions, ScreenImportReport } from './ImageFormat';
@@ -8,13 +8,19 @@ import { X1Renderer } from './renderer/X1Renderer';
 import { EditorRenderer } from './renderer/EditorRenderer';
 import { DefinitionRenderer } from './renderer/DefinitionRenderer';
 import { ScreenLayout } from './renderer/ScreenLayout';
+import { ScreenMapRenderer } from './renderer/ScreenMapRenderer';
+import { AnimationRenderer } from './renderer/AnimationRenderer';
+import { LoadPreviewRenderer } from './renderer/LoadPreviewRenderer';
 import { PCGData } from './core/PCGData';
-import { InputHandler, InputEvent, ColorReduceMode, BasSaveFormat, FileFormat } from './input/InputHandler';
-import { X1_COLORS, EditMode, X1Color } from './core/types';
-import { STATUS_MESSAGE_DURATION } from './core/constants';
-import { BinFormat, BasFormat, ImageFormat } from './io';
+import { TextScreen } from './core/TextScreen';
+import { AnimationSequence } from './core/AnimationSequence';
+import { InputHandler, InputEvent, FileParams, ColorReduceMode, BasDialect, BinLayoutParams, ImageImportParams, DiskTarget, LoadPreviewInfo, FileFormat, SelectionOp, ClipboardParams, ScreenOp, GifExportParams } from './input/InputHandler';
+import { X1_COLORS, EditMode, X1Color, ScreenMode, X1_WIDTH, FONT_WIDTH, PCGUpdatedEvent } from './core/types';
+import { STATUS_MESSAGE_DURATION, EDIT_BUFFER_CODES } from './core/constants';
+import { BinFormat, BasFormat, ImageFormat, ClipboardFormat, ClipboardContent, ScreenMapFormat, GifFormat, D88Image, HuBasicDisk, HuBasicFileType, TapFormat, PcgBootProgram, AsmFormat, CHeaderFormat, LoadIssue, LoadReport, TileMerge, BasListingLine } from './io';
+import { writeBlock } from './core/PixelBlock';
 import { LocalStorageService } from './storage';
-import { EditorState, EditorCommands, CommandResult } from './app';
+import { EditorState, EditorCommands, EditHistory, SelectionState, ScreenEditor, AnimationPlayer, CommandResult } from './app';
 
 class DEFCHRApp {
   private canvasManager: CanvasManager;
@@ -33,6 +39,70 @@ class DEFCHRApp {
   /** エディタコマンド */
   private editorCommands: EditorCommands;
 
+  /** 編集履歴（UNDO/REDO） */
+  private history: EditHistory;
+  private selection: SelectionState;
+
+  /** テキスト画面（マップ）とそのエディタ */
+  private textScreen: TextScreen;
+  private screenEditor: ScreenEditor;
+  private screenMapRenderer: ScreenMapRenderer;
+
+  /** テキスト画面エディタを表示中か */
+  private screenActive: boolean = false;
+
+  /** テキスト画面エディタを開く前の表示モード（閉じた時に戻す） */
+  private editorScreenMode: ScreenMode = 'WIDTH40';
+
+  /** テキスト画面エディタの状態表示用DOM要素 */
+  private screenInfoElement: HTMLElement | null = null;
+
+  /** アニメーションのフレーム列と再生 */
+  private animation: AnimationSequence;
+  private animationPlayer: AnimationPlayer;
+  private animationRenderer: AnimationRenderer;
+
+  /** アニメーションパネルの拡大表示用 */
+  private animationPreviewContext: CanvasRenderingContext2D | null = null;
+
+  /** 読み込みプレビューの描画 */
+  private loadPreviewRenderer: LoadPreviewRenderer = new LoadPreviewRenderer();
+  private loadPreviewContext: CanvasRenderingContext2D | null = null;
+  private loadPreviewMergeContext: CanvasRenderingContext2D | null = null;
+
+  /**
+   * 確認待ちの読み込み
+   * decodeで作業用のPCGDataに読み込み、確定したときに読み込んだ文字だけをPCGに書き込む
+   */
+  private pendingLoad: {
+    source: string;
+    /** 開始文字コード（nullならファイル内のコードのまま） */
+    start: number | null;
+    decode: (target: PCGData, start: number, clip: boolean) => Promise<LoadReport>;
+    /** 読み込み後のPCG（読み込めなかった場合はnull） */
+    preview: PCGData | null;
+    codes: number[];
+    issues: LoadIssue[];
+    /** プログラムの一覧（BASのみ） */
+    listing?: BasListingLine[];
+    /** 確定したときにPCG以外に書き込む処理（画像のテキスト画面への変換のみ） */
+    apply?: () => void;
+  } | null = null;
+
+  /** ファイル選択待ちのD88ディスクイメージと読み込み設定 */
+  private pendingDisk: {
+    disk: HuBasicDisk;
+    fileName: string;
+    format: FileFormat;
+    start: number;
+    basLoadMode?: 'start' | 'original';
+    binLayout?: BinLayoutParams;
+    basDialect?: BasDialect;
+  } | null = null;
+
+  /** マウスのドラッグ描画中か（1ストロークを1ステップとして記録） */
+  private mouseStrokeActive: boolean = false;
+
   /** アニメーションフレームID */
   private animationFrameId: number | null = null;
 
@@ -61,11 +131,27 @@ class DEFCHRApp {
     // 初期状態
     this.editorState = new EditorState();
 
+    // 編集履歴
+    this.history = new EditHistory(this.pcgData, this.editBuffer);
+    this.selection = new SelectionState();
+
+    // テキスト画面（マップ）
+    this.textScreen = new TextScreen();
+    this.screenEditor = new ScreenEditor(this.textScreen);
+    this.screenMapRenderer = new ScreenMapRenderer(this.x1Renderer, this.textScreen, this.pcgData);
+
+    // アニメーション
+    this.animation = new AnimationSequence();
+    this.animationPlayer = new AnimationPlayer(this.animation);
+    this.animationRenderer = new AnimationRenderer(this.pcgData);
+
     // コマンド実行オブジェクト
     this.editorCommands = new EditorCommands({
       pcgData: this.pcgData,
       editBuffer: this.editBuffer,
-      editorState: this.editorState
+      editorState: this.editorState,
+      history: this.history,
+      selection: this.selection
     });
 
     // レイアウト設定（ScreenLayoutの座標に合わせる）
@@ -90,6 +176,16 @@ class DEFCHRApp {
     // 入力イベントハンドラを設定
     this.inputHandler.onInput((event) => this.handleInput(event));
 
+    // アニメーションパネルの拡大表示
+    const animationCanvas = document.getElementById('anim-preview') as HTMLCanvasElement | null;
+    this.animationPreviewContext = animationCanvas?.getContext('2d') ?? null;
+
+    // 読み込みプレビュー
+    const loadPreviewCanvas = document.getElementById('load-preview-canvas') as HTMLCanvasElement | null;
+    this.loadPreviewContext = loadPreviewCanvas?.getContext('2d') ?? null;
+    const loadPreviewMergeCanvas = document.getElementById('load-preview-merge-canvas') as HTMLCanvasElement | null;
+    this.loadPreviewMergeContext = loadPreviewMergeCanvas?.getContext('2d') ?? null;
+
     // 編集エリアの情報をInputHandlerに設定（マウス座標計算用）
     // 編集エリア: (1,2)文字目から16x16ドット、1ドット=8ピクセル、スケール2倍
     const editorOffset = this.screenLayout.getEditorAreaPixelOffset();
@@ -109,6 +205,7 @@ class DEFCHRApp {
     document.addEventListener('visibilitychange', () => {
       if (document.visibilityState === 'visible') {
         this.needsStaticRender = true;
+        this.screenMapRenderer.markNeedsRender();
       }
     });
 
@@ -119,54 +216,58 @@ class DEFCHRApp {
    * サンプルPCGデータを初期化
    */
   private initSamplePCGData(): void {
-    // サンプル1: チェッカーボード（白）
-    for (let y = 0; y < 8; y++) {
-      for (let x = 0; x < 8; x++) {
-        if ((x + y) % 2 === 0) {
-          this.pcgData.setPixel(0, x, y, X1_COLORS.WHITE);
+    this.pcgData.batch(() => {
+
+      // サンプル1: チェッカーボード（白）
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          if ((x + y) % 2 === 0) {
+            this.pcgData.setPixel(0, x, y, X1_COLORS.WHITE);
+          }
         }
       }
-    }
 
-    // サンプル2: 斜め線（黄色）
-    for (let i = 0; i < 8; i++) {
-      this.pcgData.setPixel(1, i, i, X1_COLORS.YELLOW);
-    }
+      // サンプル2: 斜め線（黄色）
+      for (let i = 0; i < 8; i++) {
+        this.pcgData.setPixel(1, i, i, X1_COLORS.YELLOW);
+      }
 
-    // サンプル3: 枠（シアン）
-    for (let i = 0; i < 8; i++) {
-      this.pcgData.setPixel(2, i, 0, X1_COLORS.CYAN);
-      this.pcgData.setPixel(2, i, 7, X1_COLORS.CYAN);
-      this.pcgData.setPixel(2, 0, i, X1_COLORS.CYAN);
-      this.pcgData.setPixel(2, 7, i, X1_COLORS.CYAN);
-    }
+      // サンプル3: 枠（シアン）
+      for (let i = 0; i < 8; i++) {
+        this.pcgData.setPixel(2, i, 0, X1_COLORS.CYAN);
+        this.pcgData.setPixel(2, i, 7, X1_COLORS.CYAN);
+        this.pcgData.setPixel(2, 0, i, X1_COLORS.CYAN);
+        this.pcgData.setPixel(2, 7, i, X1_COLORS.CYAN);
+      }
 
-    // サンプル4: カラフルなグラデーション
-    for (let y = 0; y < 8; y++) {
-      for (let x = 0; x < 8; x++) {
-        const color = ((x + y) % 8) as X1Color;
-        this.pcgData.setPixel(3, x, y, color);
+      // サンプル4: カラフルなグラデーション
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          const color = ((x + y) % 8) as X1Color;
+          this.pcgData.setPixel(3, x, y, color);
+        }
       }
-    }
 
-    // サンプル5: スマイルフェイス（緑）
-    const smilePattern = [
-      0b00111100,
-      0b01000010,
-      0b10100101,
-      0b10000001,
-      0b10100101,
-      0b10011001,
-      0b01000010,
-      0b00111100
-    ];
-    for (let y = 0; y < 8; y++) {
-      for (let x = 0; x < 8; x++) {
-        if (smilePattern[y] & (0x80 >> x)) {
-          this.pcgData.setPixel(4, x, y, X1_COLORS.GREEN);
+      // サンプル5: スマイルフェイス（緑）
+      const smilePattern = [
+        0b00111100,
+        0b01000010,
+        0b10100101,
+        0b10000001,
+        0b10100101,
+        0b10011001,
+        0b01000010,
+        0b00111100
+      ];
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          if (smilePattern[y] & (0x80 >> x)) {
+            this.pcgData.setPixel(4, x, y, X1_COLORS.GREEN);
+          }
         }
       }
-    }
+
+    });
 
     // 選択キャラクターを設定
     this.definitionRenderer.setSelectedChar(this.editorState.currentCharCode);
@@ -178,16 +279,21 @@ class DEFCHRApp {
   private handleInput(event: InputEvent): void {
     switch (event.type) {
       case 'cursor-move':
+        // 貼り付け中はフローティングを移動
+        if (this.selection.hasFloating) {
+          this.editorCommands.moveFloating(event.data.direction, event.data.fast);
+          break;
+        }
         this.editorState.moveCursor(event.data.direction, event.data.fast);
         this.scheduleSave();
         break;
 
       case 'draw-dot':
-        this.handleCommandResult(this.editorCommands.drawDot(event.data.color));
+        this.runRecorded(() => this.editorCommands.applyTool(event.data.color));
         break;
 
       case 'toggle-draw':
-        this.handleCommandResult(this.editorCommands.toggleDraw());
+        this.runRecorded(() => this.editorCommands.toggleDraw());
         break;
 
       case 'home':
@@ -224,7 +330,18 @@ class DEFCHRApp {
         break;
 
       case 'mouse-draw':
-        this.handleCommandResult(this.editorCommands.mouseDraw(event.data.mousePos.dotX, event.data.mousePos.dotY));
+        // ドラッグ開始時に記録を開始し、マウスアップまでを1ステップにまとめる
+        if (!this.mouseStrokeActive) {
+          this.history.begin();
+          this.mouseStrokeActive = true;
+          this.handleCommandResult(this.editorCommands.mouseToolStart(event.data.mousePos.dotX, event.data.mousePos.dotY));
+        } else {
+          this.handleCommandResult(this.editorCommands.mouseToolMove(event.data.mousePos.dotX, event.data.mousePos.dotY));
+        }
+        break;
+
+      case 'mouse-draw-end':
+        this.endMouseStroke();
         break;
 
       case 'edit-chr': {
@@ -235,25 +352,23 @@ class DEFCHRApp {
       }
 
       case 'set-chr':
-        this.handleCommandResult(this.editorCommands.setChr(event.data.charCode));
+        this.runRecorded(() => this.editorCommands.setChr(event.data.charCode));
         break;
 
-      case 'load-chr': {
-        const result = this.editorCommands.loadChr(
+      case 'load-chr':
+        this.runRecorded(() => this.editorCommands.loadChr(
           event.data.source,
           event.data.charCode,
           (code) => this.x1Renderer.getFontData(code)
-        );
-        this.handleCommandResult(result);
+        ));
         break;
-      }
 
       case 'rotation':
-        this.handleCommandResult(this.editorCommands.rotation(event.data.rotationType));
+        this.runRecorded(() => this.editorCommands.rotation(event.data.rotationType));
         break;
 
       case 'transfer':
-        this.handleCommandResult(this.editorCommands.transfer(
+        this.runRecorded(() => this.editorCommands.transfer(
           event.data.transfer.start,
           event.data.transfer.end,
           event.data.transfer.target
@@ -261,32 +376,340 @@ class DEFCHRApp {
         break;
 
       case 'clear':
-        this.handleCommandResult(this.editorCommands.clear());
+        this.runRecorded(() => this.editorCommands.clear());
         break;
 
       case 'color-change':
-        this.handleCommandResult(this.editorCommands.colorChange(event.data.colorMap));
+        this.runRecorded(() => this.editorCommands.colorChange(event.data.colorMap));
+        break;
+
+      case 'tool-change':
+        this.endMouseStroke();
+        this.runRecorded(() => this.editorCommands.cycleDrawTool());
+        break;
+
+      case 'selection':
+        this.endMouseStroke();
+        this.handleSelection(event.data.op);
+        break;
+
+      case 'undo':
+        this.endMouseStroke();
+        this.handleCommandResult(this.editorCommands.undo());
+        break;
+
+      case 'redo':
+        this.endMouseStroke();
+        this.handleCommandResult(this.editorCommands.redo());
         break;
 
       case 'file-save':
-        this.handleFileSave(event.data.file.format, event.data.file.start, event.data.file.end, event.data.file.basFormat);
+        this.handleFileSave(event.data.file);
         break;
 
       case 'file-load':
         this.handleFileLoad(
           event.data.file.format,
           event.data.file.start,
+          event.data.file.end,
           event.data.file.basLoadMode,
-          event.data.file.reduceMode
+          event.data.file.reduceMode,
+          event.data.file.binLayout,
+          event.data.file.basDialect,
+          event.data.file.imageImport,
+          event.data.file.disk
         );
         break;
 
+      case 'disk-file-load':
+        this.handleDiskFileLoad(event.data.index);
+        break;
+
+      case 'load-preview-update':
+        this.updateLoadPreview(event.data.start, event.data.clip);
+        break;
+
+      case 'load-preview-confirm':
+        this.confirmLoad();
+        break;
+
+      case 'load-preview-cancel':
+        // 読み込みをやめるだけで、編集中の選択などには触れない
+        this.pendingLoad = null;
+        break;
+
+      case 'clipboard-copy':
+        this.handleClipboardCopy(event.data.clipboard);
+        break;
+
+      case 'clipboard-paste':
+        this.handleClipboardPaste(event.data.clipboard, event.data.content);
+        break;
+
+      case 'animation-update':
+        this.animation.setFrames(event.data.animation.frames);
+        this.animation.setLoop(event.data.animation.loop);
+        this.animationPlayer.refresh();
+        this.updateAnimationState();
+        this.scheduleSave();
+        break;
+
+      case 'animation-play':
+        this.handleCommandResult(this.animationPlayer.toggle(performance.now()));
+        this.updateAnimationState();
+        break;
+
+      case 'animation-export':
+        this.handleAnimationExport(event.data.gif);
+        break;
+
+      case 'screen':
+        this.handleScreenOp(event.data.op);
+        break;
+
+      case 'screen-cursor-move':
+        this.screenEditor.moveCursor(event.data.direction, event.data.fast);
+        this.scheduleSave();
+        break;
+
+      case 'screen-brush':
+        this.handleCommandResult(this.screenEditor.changeBrushCode(event.data.delta));
+        break;
+
+      case 'screen-color':
+        this.handleCommandResult(this.screenEditor.setBrushColor(event.data.color));
+        break;
+
+      case 'screen-attr':
+        this.handleCommandResult(this.screenEditor.toggleBrushAttr(event.data.flag));
+        break;
+
+      case 'screen-mouse':
+        this.handleCommandResult(this.screenEditor.putAt(event.data.cell.col, event.data.cell.row));
+        break;
+
       case 'cancel':
+        this.editorCommands.cancelTool();
+        this.runRecorded(() => this.editorCommands.cancelSelection());
         this.showStatusMessage('Cancelled');
         break;
     }
   }
 
+  /**
+   * 矩形選択の操作
+   */
+  private handleSelection(op: SelectionOp): void {
+    switch (op) {
+      case 'copy':
+        this.handleCommandResult(this.editorCommands.copySelection());
+        break;
+      case 'cut':
+        this.runRecorded(() => this.editorCommands.cutSelection());
+        break;
+      case 'paste':
+        this.runRecorded(() => this.editorCommands.pasteClipboard());
+        break;
+      case 'all':
+        this.runRecorded(() => this.editorCommands.selectAll());
+        break;
+      case 'commit':
+        this.runRecorded(() => this.editorCommands.commitFloating());
+        break;
+      case 'delete':
+        this.runRecorded(() => this.editorCommands.deleteSelection());
+        break;
+    }
+  }
+
+  /**
+   * テキスト画面エディタの操作
+   */
+  private handleScreenOp(op: ScreenOp): void {
+    switch (op) {
+      case 'enter':
+        this.enterScreenEditor();
+        break;
+      case 'exit':
+        this.exitScreenEditor();
+        break;
+      case 'put':
+        this.handleCommandResult(this.screenEditor.put());
+        break;
+      case 'erase':
+        this.handleCommandResult(this.screenEditor.erase());
+        break;
+      case 'pick':
+        this.handleCommandResult(this.screenEditor.pick());
+        break;
+      case 'paint-attr':
+        this.handleCommandResult(this.screenEditor.paintAttr());
+        break;
+      case 'toggle-source':
+        this.handleCommandResult(this.screenEditor.toggleBrushSource());
+        break;
+      case 'toggle-width':
+        this.handleCommandResult(this.screenEditor.toggleWidth());
+        this.applyScreenEditorLayout();
+        break;
+      case 'save':
+        this.handleScreenSave();
+        break;
+      case 'load':
+        this.handleScreenLoad();
+        break;
+      case 'export-vram':
+        this.handleScreenExportVram();
+        break;
+    }
+  }
+
+  /**
+   * テキスト画面エディタを開く（Vキー）
+   * 置く文字は編集中の文字コードのPCGにする
+   */
+  private enterScreenEditor(): void {
+    this.endMouseStroke();
+    this.editorCommands.cancelTool();
+    this.runRecorded(() => this.editorCommands.cancelSelection());
+
+    this.editorScreenMode = this.canvasManager.getScreenMode();
+    this.screenEditor.setBrush(this.editorState.currentCharCode, true);
+    this.screenActive = true;
+    this.screenMapRenderer.startCursorBlink();
+    this.applyScreenEditorLayout();
+    this.showStatusMessage('Screen editor (V/Esc: Back)');
+  }
+
+  /**
+   * テキスト画面エディタを閉じて文字編集に戻る
+   */
+  private exitScreenEditor(): void {
+    this.screenActive = false;
+    this.screenMapRenderer.stopCursorBlink();
+    // 非表示中はPCGの変更のたびにセルを探さないよう、次に開く時の全体再描画を予約
+    this.screenMapRenderer.markNeedsRender();
+
+    this.canvasManager.setContentWidth(X1_WIDTH / 2);
+    this.canvasManager.setScreenMode(this.editorScreenMode);
+    this.needsStaticRender = true;
+    this.updateScreenInfo(null);
+    this.scheduleSave();
+  }
+
+  /**
+   * テキスト画面の桁数に合わせて表示を設定
+   * 80桁は640ドットを縦長ドット（WIDTH80）で、40桁と同じ横幅に表示する
+   */
+  private applyScreenEditorLayout(): void {
+    const columns = this.textScreen.columns;
+    this.canvasManager.setContentWidth(columns * FONT_WIDTH);
+    this.canvasManager.setScreenMode(this.textScreen.mode);
+    this.inputHandler.setScreenColumns(columns);
+    this.screenMapRenderer.markNeedsRender();
+  }
+
+  /**
+   * テキスト画面エディタの状態表示を更新
+   * @param text 表示する文字列（nullで非表示）
+   */
+  private updateScreenInfo(text: string | null): void {
+    if (!this.screenInfoElement) {
+      this.screenInfoElement = document.getElementById('screen-info');
+    }
+    if (!this.screenInfoElement) return;
+
+    this.screenInfoElement.classList.toggle('active', text !== null);
+    if (text !== null && this.screenInfoElement.textContent !== text) {
+      this.screenInfoElement.textContent = text;
+    }
+  }
+
+  /**
+   * テキスト画面をファイルに保存
+   */
+  private handleScreenSave(): void {
+    try {
+      const blob = ScreenMapFormat.save(this.textScreen);
+      const fileName = ScreenMapFormat.getDefaultFileName(this.textScreen.mode);
+      this.downloadBlob(blob, fileName);
+      this.showStatusMessage(`Saved: ${fileName}`);
+    } catch (e) {
+      console.error('[DEFCHRApp] Screen save error:', e);
+      this.showStatusMessage(e instanceof Error ? e.message : 'Save failed', true);
+    }
+  }
+
+  /**
+   * テキストVRAMとアトリビュートVRAMをそれぞれファイルに書き出し
+   */
+  private handleScreenExportVram(): void {
+    try {
+      const files = ScreenMapFormat.saveVram(this.textScreen);
+      for (const { blob, fileName } of files) {
+        this.downloadBlob(blob, fileName);
+      }
+      this.showStatusMessage(`Saved: ${files.map(file => file.fileName).join(', ')}`);
+    } catch (e) {
+      console.error('[DEFCHRApp] VRAM export error:', e);
+      this.showStatusMessage(e instanceof Error ? e.message : 'Save failed', true);
+    }
+  }
+
+  /**
+   * テキスト画面をファイルから読み込み
+   */
+  private handleScreenLoad(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.x1s';
+
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+
+      try {
+        const buffer = await file.arrayBuffer();
+        const mode = ScreenMapFormat.load(new Uint8Array(buffer), this.textScreen);
+        this.screenEditor.setCursor(this.screenEditor.cursorCol, this.screenEditor.cursorRow);
+        if (this.screenActive) {
+          this.applyScreenEditorLayout();
+        }
+        this.showStatusMessage(`Loaded: ${file.name} (${mode})`);
+        this.scheduleSave();
+      } catch (e) {
+        console.error('[DEFCHRApp] Screen load error:', e);
+        this.showStatusMessage(e instanceof Error ? e.message : 'Load failed', true);
+      }
+    };
+
+    input.click();
+  }
+
+  /**
+   * 履歴に記録しながらコマンドを実行
+   * 実行前後で内容が変化した場合のみUNDOの1ステップになる
+   */
+  private runRecorded(command: () => CommandResult): void {
+    this.history.begin();
+    const result = command();
+    this.history.commit();
+    this.handleCommandResult(result);
+  }
+
+  /**
+   * マウスのドラッグ描画を終了（記録を確定）
+   */
+  private endMouseStroke(): void {
+    if (!this.mouseStrokeActive) return;
+    this.mouseStrokeActive = false;
+    const result = this.editorCommands.mouseToolEnd();
+    if (this.history.commit()) {
+      this.scheduleSave();
+    }
+    this.handleCommandResult(result);
+  }
+
   /**
    * コマンド結果を処理
    */
@@ -294,10 +717,6 @@ class DEFCHRApp {
     if (result.message) {
       this.showStatusMessage(result.message);
     }
-    if (result.needsRender) {
-      // 定義エリアの再描画が必要な場合、フラグをセット
-      this.definitionRenderer.markNeedsRender();
-    }
     if (result.needsSave) {
       this.scheduleSave();
     }
@@ -370,6 +789,7 @@ class DEFCHRApp {
         if (this.x1Renderer.setFontDataFromBinary(data)) {
           // 編集エリアの●パターンキャッシュをクリア
           this.editorRenderer.clearPatternCache();
+          this.screenMapRenderer.markNeedsRender();
           this.showStatusMessage(`Font loaded: ${file.name}`);
           this.scheduleSave();
         } else {
@@ -386,11 +806,18 @@ class DEFCHRApp {
 
   /**
    * ファイル保存処理
+   * @param file PROGRAMMINGパネルで選んだ保存の設定
    */
-  private async handleFileSave(format: FileFormat, start: number, end: number, basFormat?: BasSaveFormat): Promise<void> {
+  private async handleFileSave(file: FileParams): Promise<void> {
+    const { format, start, end, binLayout, basFormat, basProgram, asm, cHeader, disk = 'none', diskFileName = 'PCG' } = file;
+    const loadAddress = file.loadAddress ?? 0;
+    let execAddress = file.execAddress ?? 0;
     try {
       let blob: Blob;
       let fileName: string;
+      let message: string | null = null;
+      // BASを中間コードで書き出したか（書き足しでは元のプログラムの形式になる）
+      let basBinary = basFormat === 'bin';
 
       switch (format) {
         case 'image':
@@ -398,39 +825,171 @@ class DEFCHRApp {
           fileName = ImageFormat.getDefaultFileName();
           break;
         case 'bin':
-          blob = BinFormat.save(this.pcgData, start, end, false);
-          fileName = BinFormat.getDefaultFileName(false);
-          break;
         case 'bin3':
-          blob = BinFormat.save(this.pcgData, start, end, true);
-          fileName = BinFormat.getDefaultFileName(true);
+          if (disk === 'tape') {
+            // テープは読み込んで実行するとPCGを定義するプログラムにする
+            const program = PcgBootProgram.build(this.pcgData, start, end, format === 'bin3', loadAddress);
+            blob = new Blob([program.buffer as ArrayBuffer], { type: 'application/octet-stream' });
+            execAddress = loadAddress;
+          } else {
+            blob = BinFormat.save(this.pcgData, start, end, binLayout ?? BinFormat.getPreset(format === 'bin3' ? 'x3' : 'normal'));
+          }
+          fileName = BinFormat.getDefaultFileName(format === 'bin3');
           break;
         case 'bas':
-          if (basFormat === 'bin') {
-            blob = BasFormat.saveBinary(this.pcgData, start, end);
+          if (basProgram?.merge) {
+            // 書き足す先のプログラムを選び、同じ名前・同じ形式で保存する
+            // （ファイル選択はユーザー操作の直後にしか開けないため、続けてディスクイメージは選べない）
+            if (disk !== 'none') {
+              throw new Error('MERGE cannot be saved to D88/TAP');
+            }
+            const source = await this.selectFile('.bas,.asc,.txt,text/plain');
+            if (!source) return;
+            const merged = BasFormat.merge(new Uint8Array(await source.arrayBuffer()), this.pcgData, start, end, basProgram);
+            blob = merged.blob;
+            basBinary = merged.binary;
+            fileName = source.name;
+            message = `Merged: ${fileName} (${merged.inserted} added, ${merged.replaced} replaced, ${merged.removed} removed)`;
+          } else if (basFormat === 'bin') {
+            blob = BasFormat.saveBinary(this.pcgData, start, end, basProgram);
             fileName = BasFormat.getDefaultFileName(true);
           } else {
-            blob = BasFormat.saveAscii(this.pcgData, start, end);
+            blob = BasFormat.saveAscii(this.pcgData, start, end, basProgram);
             fileName = BasFormat.getDefaultFileName(false);
           }
           break;
+        case 'asm':
+          blob = AsmFormat.save(this.pcgData, start, end, asm ?? { syntax: 'generic', x3mode: false, routine: false });
+          fileName = AsmFormat.getDefaultFileName();
+          break;
+        case 'c':
+          blob = CHeaderFormat.save(this.pcgData, start, end, cHeader ?? { x3mode: false });
+          fileName = CHeaderFormat.getDefaultFileName();
+          break;
         default:
           return;
       }
 
+      // D88/TAPに書き込む場合はイメージをダウンロード
+      if (disk !== 'none' && (format === 'bin' || format === 'bin3' || format === 'bas')) {
+        const type: HuBasicFileType = format !== 'bas' ? 'bin' : basBinary ? 'bas' : 'asc';
+        if (disk === 'tape') {
+          await this.saveToTape(blob, type, diskFileName, loadAddress, execAddress);
+        } else {
+          await this.saveToDisk(blob, type, disk, diskFileName, loadAddress, execAddress);
+        }
+        return;
+      }
+
       // ダウンロード
       this.downloadBlob(blob, fileName);
-      this.showStatusMessage(`Saved: ${fileName}`);
+      this.showStatusMessage(message ?? `Saved: ${fileName}`);
     } catch (e) {
       console.error('[DEFCHRApp] File save error:', e);
       this.showStatusMessage(e instanceof Error ? e.message : 'Save failed', true);
     }
   }
 
+  /**
+   * BIN/BASのデータをD88ディスクイメージに書き込んでダウンロード
+   * 既存のイメージに書き込む場合は、先にファイル選択ダイアログを開く（同名のファイルは置き換える）
+   * @param blob 書き込むデータ
+   * @param type Hu-BASICのファイル属性
+   * @param disk 新しいイメージか既存のイメージか
+   * @param name ディスクイメージ内のファイル名
+   * @param loadAddress 読み込みアドレス（BINのみ）
+   * @param execAddress 実行アドレス（BINのみ）
+   */
+  private async saveToDisk(
+    blob: Blob,
+    type: HuBasicFileType,
+    disk: DiskTarget,
+    name: string,
+    loadAddress: number,
+    execAddress: number
+  ): Promise<void> {
+    // ファイル選択はユーザー操作の直後に開く必要があるため、awaitより前に呼ぶ
+    const source = disk === 'open' ? await this.selectFile('.d88') : null;
+    if (disk === 'open' && !source) return;
+
+    const hudisk = source
+      ? new HuBasicDisk(D88Image.parse(new Uint8Array(await source.arrayBuffer())))
+      : HuBasicDisk.createBlank('DEFCHR');
+    const ext = type.toUpperCase();
+    const data = new Uint8Array(await blob.arrayBuffer());
+    if (type === 'bin') {
+      hudisk.writeFile(name, ext, type, data, loadAddress, execAddress);
+    } else {
+      hudisk.writeFile(name, ext, type, data);
+    }
+
+    const diskFileName = source?.name ?? 'pcg.d88';
+    this.downloadBlob(hudisk.getImage().toBlob(), diskFileName);
+    this.showStatusMessage(`Saved: ${HuBasicDisk.normalizeName(name, 13)}.${ext} to ${diskFileName}`);
+  }
+
+  /**
+   * BIN/BASのデータをテープイメージにしてダウンロード
+   * @param blob 書き込むデータ
+   * @param type Hu-BASICのファイル属性
+   * @param name テープ内のファイル名
+   * @param loadAddress 読み込みアドレス（BINのみ）
+   * @param execAddress 実行アドレス（BINのみ）
+   */
+  private async saveToTape(
+    blob: Blob,
+    type: HuBasicFileType,
+    name: string,
+    loadAddress: number,
+    execAddress: number
+  ): Promise<void> {
+    const ext = type.toUpperCase();
+    const fileName = TapFormat.getDefaultFileName();
+    const data = new Uint8Array(await blob.arrayBuffer());
+    const tape = type === 'bin'
+      ? TapFormat.save(data, name, ext, type, loadAddress, execAddress)
+      : TapFormat.save(data, name, ext, type);
+    this.downloadBlob(tape, fileName);
+    this.showStatusMessage(`Saved: ${HuBasicDisk.normalizeName(name, 13)}.${ext} to ${fileName}`);
+  }
+
+  /**
+   * ファイル選択ダイアログを開く
+   * @param accept 選択できるファイルの種類
+   * @returns 選択されたファイル（未選択・キャンセルならnull）
+   */
+  private selectFile(accept: string): Promise<File | null> {
+    return new Promise(resolve => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = accept;
+      input.onchange = () => resolve(input.files?.[0] ?? null);
+      // キャンセルではchangeが起きないため、待っている保存処理が残らないようにする
+      input.oncancel = () => resolve(null);
+      input.click();
+    });
+  }
+
   /**
    * ファイル読み込み処理
    */
-  private handleFileLoad(format: FileFormat, start: number, basLoadMode?: 'start' | 'original', reduceMode?: ColorReduceMode): void {
+  private handleFileLoad(
+    format: FileFormat,
+    start: number,
+    end: number,
+    basLoadMode?: 'start' | 'original',
+    reduceMode?: ColorReduceMode,
+    binLayout?: BinLayoutParams,
+    basDialect?: BasDialect,
+    imageImport?: ImageImportParams,
+    disk: DiskTarget = 'none'
+  ): void {
+    // D88の場合はディスクイメージを開いてファイル一覧を表示
+    if (disk !== 'none' && format !== 'image') {
+      this.openDisk(format, start, basLoadMode, binLayout, basDialect);
+      return;
+    }
+
     const input = document.createElement('input');
     input.type = 'file';
 
@@ -447,40 +1006,37 @@ class DEFCHRApp {
         break;
     }
 
+    // 読み込んだ内容はプレビューで確認してからPCGに書き込む
     input.onchange = async () => {
       const file = input.files?.[0];
       if (!file) return;
 
       try {
-        let loadCount: number;
-
         switch (format) {
           case 'image':
-            loadCount = await ImageFormat.loadImage(file, this.pcgData, reduceMode || 'none');
-            this.showStatusMessage(`Loaded: ${file.name} (${reduceMode || 'none'})`);
+            if (imageImport?.target === 'screen') {
+              await this.previewScreenImage(file, start, end, reduceMode || 'none', imageImport);
+              break;
+            }
+            // 画像は開始文字コードから、収まる文字だけを読み込む
+            await this.previewLoad(`${file.name} (${reduceMode || 'none'})`, start, async (target, loadStart) =>
+              ImageFormat.loadImage(file, target, loadStart, {
+                reduceMode: reduceMode || 'none',
+                ...(imageImport ?? { x: 0, y: 0, width: 0, height: 0, scale: 'fit', order: 'row' })
+              })
+            );
             break;
           case 'bin':
-          case 'bin3': {
-            const buffer = await file.arrayBuffer();
-            const data = new Uint8Array(buffer);
-            loadCount = BinFormat.load(data, this.pcgData, start, format === 'bin3');
-            this.showStatusMessage(`Loaded: ${loadCount} chars from ${file.name}`);
-            break;
-          }
+          case 'bin3':
           case 'bas': {
-            const buffer = await file.arrayBuffer();
-            const data = new Uint8Array(buffer);
-            loadCount = BasFormat.load(data, this.pcgData, start, basLoadMode || 'start');
-            this.showStatusMessage(`Loaded: ${loadCount} chars from ${file.name}`);
+            const data = new Uint8Array(await file.arrayBuffer());
+            await this.previewLoad(file.name, DEFCHRApp.getPreviewStart(format, start, basLoadMode), async (target, loadStart, clip) =>
+              this.loadProgramData(target, format, data, loadStart, clip, basLoadMode, binLayout, basDialect),
+              format === 'bas' ? BasFormat.list(data, basDialect ?? 'auto').lines : undefined
+            );
             break;
           }
-          default:
-            return;
         }
-
-        // 定義エリアを更新
-        this.definitionRenderer.markNeedsRender();
-        this.scheduleSave();
       } catch (e) {
         console.error('[DEFCHRApp] File load error:', e);
         this.showStatusMessage(e instanceof Error ? e.message : 'Load failed', true);
@@ -490,6 +1046,344 @@ class DEFCHRApp {
     input.click();
   }
 
+  /**
+   * 画像をテキスト画面用のPCGとマップに変換してプレビューを表示
+   * 使う文字の範囲は変えられないため、収まらない場合はエラーを表示する
+   * 確定するとPCGに加えて、40x25のマップをテキスト画面に書き込む
+   */
+  private async previewScreenImage(
+    file: File,
+    start: number,
+    end: number,
+    reduceMode: ColorReduceMode,
+    imageImport: ImageImportParams
+  ): Promise<void> {
+    let vram: { text: Uint8Array; attr: Uint8Array } | null = null;
+    await this.previewLoad(`${file.name} (screen, ${reduceMode})`, null, async target => {
+      const report = await ImageFormat.convertScreen(file, target, start, end, { reduceMode, ...imageImport });
+      vram = { text: report.text, attr: report.attr };
+      return report;
+    }, undefined, () => {
+      if (!vram) return;
+      this.textScreen.setVram('WIDTH40', vram.text, vram.attr);
+      this.screenEditor.setCursor(this.screenEditor.cursorCol, this.screenEditor.cursorRow);
+    });
+  }
+
+  /**
+   * BIN/BASのデータをPCGに読み込む
+   * @param clip &HFFを超える分を読み込まずに済ませるか
+   * @returns 読み込み結果
+   */
+  private loadProgramData(
+    target: PCGData,
+    format: FileFormat,
+    data: Uint8Array,
+    start: number,
+    clip: boolean,
+    basLoadMode?: 'start' | 'original',
+    binLayout?: BinLayoutParams,
+    basDialect?: BasDialect
+  ): LoadReport {
+    return format === 'bas'
+      ? BasFormat.load(data, target, start, basLoadMode || 'start', clip, basDialect ?? 'auto')
+      : BinFormat.load(data, target, start, binLayout ?? BinFormat.getPreset(format === 'bin3' ? 'x3' : 'normal'), clip);
+  }
+
+  /**
+   * 読み込みプレビューで変更できる開始文字コード
+   * @returns 開始文字コード（BASをファイル内のコードのまま読み込む場合はnull）
+   */
+  private static getPreviewStart(format: FileFormat, start: number, basLoadMode?: 'start' | 'original'): number | null {
+    return format === 'bas' && basLoadMode === 'original' ? null : start;
+  }
+
+  /**
+   * 作業用のPCGDataに読み込んでプレビューを表示
+   * 開始文字コードを変えられない場合は、読み込めなければプレビューを表示せずにエラーを表示する
+   * （変えられる場合はプレビューで開始文字コードやCLIPを変えて読み直せる。BASは一覧を見られるように表示する）
+   * @param source 読み込むファイル名
+   * @param start 開始文字コード（nullならファイル内のコードのまま）
+   * @param decode 作業用のPCGDataに読み込む処理
+   * @param listing プログラムの一覧（BASのみ）
+   * @param apply 確定したときにPCG以外に書き込む処理
+   */
+  private async previewLoad(
+    source: string,
+    start: number | null,
+    decode: (target: PCGData, start: number, clip: boolean) => Promise<LoadReport>,
+    listing?: BasListingLine[],
+    apply?: () => void
+  ): Promise<void> {
+    this.pendingLoad = { source, start, decode, preview: null, codes: [], issues: [], listing, apply };
+    const info = await this.decodePendingLoad(start ?? 0, false);
+    if (!info) return;
+
+    if (info.error && start === null && !listing) {
+      this.pendingLoad = null;
+      this.showStatusMessage(info.error, true);
+      return;
+    }
+    this.inputHandler.showLoadPreview(info);
+    this.drawLoadPreview(info);
+  }
+
+  /**
+   * 開始文字コードやCLIPを変えてプレビューを作り直す
+   * @param start 開始文字コード
+   * @param clip &HFFを超える分を読み込まずに済ませるか
+   */
+  private async updateLoadPreview(start: number, clip: boolean): Promise<void> {
+    const info = await this.decodePendingLoad(start, clip);
+    if (!info) return;
+
+    this.inputHandler.updateLoadPreview(info);
+    this.drawLoadPreview(info);
+  }
+
+  /**
+   * 確認待ちの読み込みを作業用のPCGDataに読み込む
+   * @param start 開始文字コード
+   * @param clip &HFFを超える分を読み込まずに済ませるか
+   * @returns プレビューの内容（読み込み中に別の読み込みに変わった場合はnull）
+   */
+  private async decodePendingLoad(start: number, clip: boolean): Promise<LoadPreviewInfo | null> {
+    const pending = this.pendingLoad;
+    if (!pending) return null;
+
+    // 読み込んだ文字コードは変更通知から集める
+    const preview = new PCGData();
+    const codes = new Set<number>();
+    preview.on('pcg-updated', (event) => {
+      (event as PCGUpdatedEvent).codes.forEach(code => codes.add(code));
+    });
+
+    let error: string | undefined;
+    let issues: LoadIssue[] = [];
+    let dialect: string | undefined;
+    let merges: TileMerge[] | undefined;
+    try {
+      ({ issues, dialect, merges } = await pending.decode(preview, start, clip));
+    } catch (e) {
+      console.error('[DEFCHRApp] File load error:', e);
+      error = e instanceof Error ? e.message : 'Load failed';
+    }
+    if (this.pendingLoad !== pending) return null;
+
+    pending.preview = error ? null : preview;
+    pending.codes = error ? [] : [...codes].sort((a, b) => a - b);
+    pending.issues = issues;
+    if (pending.start !== null) pending.start = start;
+
+    // 定義済み（空白以外）の文字を別の内容に書き換えるか
+    const overwritten = pending.codes.filter(code => {
+      const current = this.pcgData.getCharacter(code);
+      const next = preview.getCharacter(code);
+      return current.some(value => value !== 0) && current.some((value, i) => value !== next[i]);
+    });
+
+    return {
+      source: pending.source,
+      start: pending.start,
+      codes: pending.codes,
+      overwritten,
+      issues,
+      error,
+      dialect,
+      listing: pending.listing,
+      merges
+    };
+  }
+
+  /**
+   * 読み込みプレビューを描画
+   * @param info プレビューの内容
+   */
+  private drawLoadPreview(info: LoadPreviewInfo): void {
+    if (!this.loadPreviewContext || !this.pendingLoad) return;
+    this.loadPreviewRenderer.draw(this.loadPreviewContext, this.pcgData, this.pendingLoad.preview, info.codes, info.overwritten);
+    if (this.loadPreviewMergeContext && info.merges) {
+      this.loadPreviewRenderer.drawMerges(this.loadPreviewMergeContext, info.merges);
+    }
+  }
+
+  /**
+   * プレビューした内容をPCGに書き込む
+   */
+  private confirmLoad(): void {
+    const pending = this.pendingLoad;
+    this.pendingLoad = null;
+    const preview = pending?.preview;
+    if (!pending || !preview) return;
+
+    // ファイル読み込み全体を1ステップとして記録
+    this.history.begin();
+    try {
+      this.pcgData.batch(() => {
+        pending.codes.forEach(code => this.pcgData.setCharacter(code, preview.getCharacter(code)));
+      });
+      pending.apply?.();
+      const notes = pending.issues.length > 0 ? ` (${pending.issues.length} notes)` : '';
+      this.showStatusMessage(`Loaded: ${pending.codes.length} chars from ${pending.source}${notes}`);
+      this.scheduleSave();
+    } finally {
+      this.history.commit();
+    }
+  }
+
+  /**
+   * D88ディスクイメージを開いてファイル一覧を表示
+   * 選んだファイルはdisk-file-loadイベントで読み込む
+   */
+  private openDisk(
+    format: FileFormat,
+    start: number,
+    basLoadMode?: 'start' | 'original',
+    binLayout?: BinLayoutParams,
+    basDialect?: BasDialect
+  ): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.d88';
+
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+
+      try {
+        const disk = new HuBasicDisk(D88Image.parse(new Uint8Array(await file.arrayBuffer())));
+        const files = disk.listFiles();
+        if (files.length === 0) {
+          this.showStatusMessage(`No files in ${file.name}`, true);
+          return;
+        }
+
+        this.pendingDisk = { disk, fileName: file.name, format, start, basLoadMode, binLayout, basDialect };
+        this.inputHandler.showDiskFiles(file.name, files.map(entry => ({
+          index: entry.index,
+          name: entry.ext ? `${entry.name}.${entry.ext}` : entry.name,
+          type: entry.type,
+          size: entry.size
+        })));
+      } catch (e) {
+        console.error('[DEFCHRApp] Disk open error:', e);
+        this.showStatusMessage(e instanceof Error ? e.message : 'Disk open failed', true);
+      }
+    };
+
+    input.click();
+  }
+
+  /**
+   * D88ディスクイメージ内のファイルを読み込む
+   * @param index ディレクトリ内の位置
+   */
+  private async handleDiskFileLoad(index: number): Promise<void> {
+    const pending = this.pendingDisk;
+    this.pendingDisk = null;
+    const entry = pending?.disk.listFiles().find(file => file.index === index);
+    if (!pending || !entry) return;
+
+    // 読み込んだ内容はプレビューで確認してからPCGに書き込む
+    try {
+      const data = pending.disk.readFile(entry);
+      const start = DEFCHRApp.getPreviewStart(pending.format, pending.start, pending.basLoadMode);
+      await this.previewLoad(`${entry.name} (${pending.fileName})`, start, async (target, loadStart, clip) =>
+        this.loadProgramData(target, pending.format, data, loadStart, clip, pending.basLoadMode, pending.binLayout, pending.basDialect),
+        pending.format === 'bas' ? BasFormat.list(data, pending.basDialect ?? 'auto').lines : undefined
+      );
+    } catch (e) {
+      console.error('[DEFCHRApp] Disk load error:', e);
+      this.showStatusMessage(e instanceof Error ? e.message : 'Load failed', true);
+    }
+  }
+
+  /**
+   * OSクリップボードへコピー（16進テキストとPNG）
+   */
+  private async handleClipboardCopy(params: ClipboardParams): Promise<void> {
+    try {
+      let source: PCGData;
+      let codes: number[];
+      let columns: number;
+
+      if (params.target === 'edit') {
+        source = this.editBuffer;
+        codes = [...EDIT_BUFFER_CODES];
+        columns = 2;
+      } else {
+        const start = Math.min(params.start, params.end);
+        const end = Math.max(params.start, params.end);
+        source = this.pcgData;
+        codes = Array.from({ length: end - start + 1 }, (_, i) => start + i);
+        columns = Math.min(codes.length, 16);
+      }
+
+      const text = ClipboardFormat.toHexText(source, codes);
+      const png = await ClipboardFormat.toPng(source, codes, columns);
+      const withImage = await ClipboardFormat.write(text, png);
+      this.showStatusMessage(`Copied: ${codes.length} chars (${withImage ? 'HEX+PNG' : 'HEX'})`);
+    } catch (e) {
+      console.error('[DEFCHRApp] Clipboard copy error:', e);
+      this.showStatusMessage(e instanceof Error ? e.message : 'Copy failed', true);
+    }
+  }
+
+  /**
+   * OSクリップボードから貼り付け（画像を優先、なければ16進テキスト）
+   * @param content pasteイベントの内容（省略時はClipboard APIで読み込む）
+   */
+  private async handleClipboardPaste(params: ClipboardParams, content?: ClipboardContent): Promise<void> {
+    // 読み取りとデコードを済ませてから、書き込みだけを1ステップとして記録する
+    // （await中の操作がUNDOの同じステップに入らないようにする）
+    let clip: ClipboardContent;
+    let colorData: X1Color[][] | null = null;
+    try {
+      clip = content ?? await ClipboardFormat.read();
+      if (clip.image) {
+        colorData = await ClipboardFormat.decodeImage(clip.image, params.reduceMode);
+      }
+    } catch (e) {
+      console.error('[DEFCHRApp] Clipboard paste error:', e);
+      this.showStatusMessage(e instanceof Error ? e.message : 'Paste failed', true);
+      return;
+    }
+
+    const target = params.target === 'edit' ? this.editBuffer : this.pcgData;
+    const codes = params.target === 'edit'
+      ? [...EDIT_BUFFER_CODES]
+      : Array.from({ length: 256 - params.start }, (_, i) => params.start + i);
+    const chars = colorData ? [] : ClipboardFormat.parseHexText(clip.text ?? '');
+    if (!colorData && chars.length === 0) {
+      this.showStatusMessage('No character data in clipboard', true);
+      return;
+    }
+
+    this.history.begin();
+    try {
+      let count: number;
+      if (colorData) {
+        if (params.target === 'edit') {
+          // 編集エリアには左上16x16ドットをそのまま書き込む
+          writeBlock(this.editBuffer, 0, 0, colorData.slice(0, 16).map(row => row.slice(0, 16)));
+          count = EDIT_BUFFER_CODES.length;
+        } else {
+          count = ClipboardFormat.applyImage(colorData, target, codes);
+        }
+      } else {
+        count = ClipboardFormat.applyHex(chars, target, codes);
+      }
+
+      this.showStatusMessage(`Pasted: ${count} chars (${colorData ? 'PNG' : 'HEX'})`);
+      this.scheduleSave();
+    } catch (e) {
+      console.error('[DEFCHRApp] Clipboard paste error:', e);
+      this.showStatusMessage(e instanceof Error ? e.message : 'Paste failed', true);
+    } finally {
+      this.history.commit();
+    }
+  }
+
   /**
    * Blobをダウンロード
    */
@@ -517,7 +1411,10 @@ class DEFCHRApp {
       pcgData: this.pcgData.getAllData(),
       editBuffer: this.editBuffer.getAllData(),
       editorState: this.editorState.toSaveData(),
-      fontData: this.x1Renderer.getAllFontData() || undefined
+      fontData: this.x1Renderer.getAllFontData() || undefined,
+      history: this.history.toSaveData(),
+      screen: { ...this.textScreen.toSaveData(), ...this.screenEditor.toSaveData() },
+      animation: this.animation.toSaveData()
     };
   }
 
@@ -540,6 +1437,23 @@ class DEFCHRApp {
     // エディタ状態を復元
     this.editorState.fromSaveData(saved.editorState);
 
+    // 編集履歴を復元（存在する場合のみ）
+    if (saved.history) {
+      this.history.fromSaveData(saved.history);
+    }
+
+    // テキスト画面を復元（存在する場合のみ）
+    if (saved.screen) {
+      this.textScreen.fromSaveData(saved.screen);
+      this.screenEditor.fromSaveData(saved.screen);
+    }
+
+    // アニメーションを復元（存在する場合のみ）
+    if (saved.animation) {
+      this.animation.fromSaveData(saved.animation);
+      this.inputHandler.setAnimation(this.animation.toSaveData());
+    }
+
     // グリッド表示状態を反映
     this.editorRenderer.setShowGrid(this.editorState.gridVisible);
 
@@ -557,6 +1471,52 @@ class DEFCHRApp {
     return true;
   }
 
+  /**
+   * アニメーションパネルに再生状態を反映
+   */
+  private updateAnimationState(): void {
+    this.inputHandler.setAnimationState(this.animationPlayer.frameIndex, this.animationPlayer.playing);
+  }
+
+  /**
+   * アニメーションをGIFで書き出し（フレームの表示時間とループ設定をそのまま使う）
+   */
+  private handleAnimationExport(params: GifExportParams): void {
+    try {
+      const blob = GifFormat.saveAnimation(this.pcgData, this.animation.frames, {
+        scale: params.scale,
+        loop: this.animation.loop,
+        transparent: params.transparent
+      });
+      const fileName = GifFormat.getDefaultFileName();
+      this.downloadBlob(blob, fileName);
+      this.showStatusMessage(`Saved: ${fileName}`);
+    } catch (e) {
+      console.error('[DEFCHRApp] GIF export error:', e);
+      this.showStatusMessage(e instanceof Error ? e.message : 'Save failed', true);
+    }
+  }
+
+  /**
+   * アニメーションを描画
+   * フレームがある間は停止中も表示中のフレームを表示する（PCGの編集もそのまま反映される）
+   * @param x 実サイズ表示のX座標
+   * @param y 実サイズ表示のY座標
+   */
+  private renderAnimation(x: number, y: number): void {
+    if (this.animationPlayer.update(performance.now())) {
+      this.updateAnimationState();
+    }
+
+    const frame = this.animationPlayer.getCurrentFrame();
+    if (frame) {
+      this.animationRenderer.drawFrame(this.x1Renderer.getBackContext(), x, y, frame, 1);
+    }
+    if (this.animationPreviewContext) {
+      this.animationRenderer.drawFrame(this.animationPreviewContext, 0, 0, frame, 8);
+    }
+  }
+
   /**
    * ステータスメッセージを表示
    * Web UI（DOM要素）に表示
@@ -615,6 +1575,19 @@ class DEFCHRApp {
    * パフォーマンス最適化: 静的要素は初回のみ、動的要素は必要時のみ描画
    */
   private render(): void {
+    // テキスト画面エディタ表示中は画面全体をテキスト画面にする
+    if (this.screenActive) {
+      this.screenMapRenderer.render({
+        col: this.screenEditor.cursorCol,
+        row: this.screenEditor.cursorRow,
+        code: this.screenEditor.brushCode,
+        attr: this.screenEditor.brushAttr
+      });
+      this.updateScreenInfo(this.screenEditor.getStatusText());
+      this.x1Renderer.flip();
+      return;
+    }
+
     // 静的要素の描画（初回・モード切替・タブ復帰時のみ）
     if (this.needsStaticRender) {
       // 画面全体をクリア
@@ -638,6 +1611,19 @@ class DEFCHRApp {
     // カーソル位置をPosition形式で渡す
     const cursorPosition = { x: this.editorState.cursorX, y: this.editorState.cursorY };
 
+    // 図形ツールの始点とプレビュー
+    this.editorRenderer.setToolOverlay(
+      this.editorState.hasAnchor ? { x: this.editorState.anchorX, y: this.editorState.anchorY } : null,
+      this.editorCommands.getToolPreview(),
+      this.editorState.currentColor
+    );
+
+    // 選択枠とフローティング
+    this.editorRenderer.setSelectionOverlay(
+      this.editorCommands.getSelectionFrame(),
+      this.selection.floating ? { block: this.selection.floating, x: this.selection.floatX, y: this.selection.floatY } : null
+    );
+
     // 編集エリア描画（毎フレーム - カーソル点滅があるため）
     // EditorRenderer.render() 内で自領域をクリアする
     this.editorRenderer.render(
@@ -646,8 +1632,7 @@ class DEFCHRApp {
       cursorPosition
     );
 
-    // 定義エリア描画（needsRenderがtrueの時のみ）
-    // DefinitionRenderer.render() 内で自領域をクリアする
+    // 定義エリア描画（変更された文字のセルのみ。全体は静的要素の描画時のみ）
     this.definitionRenderer.render();
 
     // メニュー表示（毎フレーム - 小さい領域なので許容）
@@ -658,7 +1643,8 @@ class DEFCHRApp {
       this.editorState.editChrCode,  // EDIT CHR.(XX)の表示用
       this.editorState.lastDirection,  // カーソル移動方向
       this.editorState.currentColor,   // カレントカラー
-      this.inputHandler.getInputDeviceMode()  // 入力デバイスモード
+      this.inputHandler.getInputDeviceMode(),  // 入力デバイスモード
+      this.editorState.drawTool        // 描画ツール
     );
 
     // プレビュー表示（右下 座標35,22）
@@ -676,6 +1662,9 @@ class DEFCHRApp {
       cursorPosition
     );
 
+    // アニメーション（プレビューの右隣に実サイズ、パネルに拡大表示）
+    this.renderAnimation(previewX + 16, previewY);
+
     // フリップ
     this.x1Renderer.flip();
   }
@@ -0,0 +1,50 @@
+/**
+ * アニメーションのフレーム描画
+ * 実サイズ表示（メイン画面）と拡大表示（アニメーションパネル）で共用する
+ */
+
+import { PCGData } from '../core/PCGData';
+import { AnimationSequence } from '../core/AnimationSequence';
+import { getColorString, BLACK_STRING } from '../core/ColorCache';
+import { AnimationFrame, FONT_WIDTH, FONT_HEIGHT, X1_COLORS } from '../core/types';
+
+/** 2x2文字分の大きさ（ドット） */
+const FRAME_SIZE = 16;
+
+export class AnimationRenderer {
+  private pcgData: PCGData;
+
+  constructor(pcgData: PCGData) {
+    this.pcgData = pcgData;
+  }
+
+  /**
+   * フレームを描画
+   * 2x2文字分の領域を黒で消してから、左上に詰めて描く
+   * @param ctx 描画先
+   * @param x 描画X座標
+   * @param y 描画Y座標
+   * @param frame フレーム（nullなら消すだけ）
+   * @param scale 1ドットの大きさ（ピクセル）
+   */
+  drawFrame(ctx: CanvasRenderingContext2D, x: number, y: number, frame: AnimationFrame | null, scale: number): void {
+    ctx.fillStyle = BLACK_STRING;
+    ctx.fillRect(x, y, FRAME_SIZE * scale, FRAME_SIZE * scale);
+    if (!frame) return;
+
+    AnimationSequence.getFrameCodes(frame).forEach((code, index) => {
+      const charX = x + (index % 2) * FONT_WIDTH * scale;
+      const charY = y + Math.floor(index / 2) * FONT_HEIGHT * scale;
+
+      for (let py = 0; py < FONT_HEIGHT; py++) {
+        for (let px = 0; px < FONT_WIDTH; px++) {
+          const color = this.pcgData.getPixel(code, px, py);
+          if (color !== X1_COLORS.BLACK) {
+            ctx.fillStyle = getColorString(color);
+            ctx.fillRect(charX + px * scale, charY + py * scale, scale, scale);
+          }
+        }
+      }
+    });
+  }
+}
@@ -20,6 +20,9 @@ export class CanvasManager {
   /** 表示スケール */
   private scale: number = 2;
 
+  /** バックバッファのうち表示に使う幅（DEFCHR TOOLは左半分の320ピクセル） */
+  private contentWidth: number = X1_WIDTH / 2;
+
   constructor(canvas: HTMLCanvasElement) {
     this.frontCanvas = canvas;
 
@@ -59,6 +62,15 @@ export class CanvasManager {
     this.resize();
   }
 
+  /**
+   * 表示に使うバックバッファの幅を設定
+   * テキスト画面エディタのWIDTH80表示では640ピクセル全体を使う
+   */
+  setContentWidth(width: number): void {
+    this.contentWidth = Math.max(1, Math.min(X1_WIDTH, width));
+    this.resize();
+  }
+
   /**
    * 表示スケールを設定
    */
@@ -74,8 +86,7 @@ export class CanvasManager {
     // DEFCHR TOOLはWIDTH 40用（320x200）の描画領域を使用
     // WIDTH40: 正方形ドット（320幅で表示）
     // WIDTH80: 縦長ドット（160幅で表示 = 横半分に縮小）
-    const contentWidth = X1_WIDTH / 2;  // 320ピクセル
-    const displayWidth = this.screenMode === 'WIDTH80' ? contentWidth / 2 : contentWidth;
+    const displayWidth = this.screenMode === 'WIDTH80' ? this.contentWidth / 2 : this.contentWidth;
 
     this.frontCanvas.width = displayWidth * this.scale;
     this.frontCanvas.height = X1_HEIGHT * this.scale;
@@ -105,10 +116,9 @@ export class CanvasManager {
   flip(): void {
     // DEFCHR TOOLはWIDTH 40用なので左半分（320x200）のみ使用
     // WIDTH80では同じ内容が横半分に縮んで縦長ドットになる
-    const contentWidth = X1_WIDTH / 2;  // 320ピクセル
     this.frontCtx.drawImage(
       this.backCanvas,
-      0, 0, contentWidth, X1_HEIGHT,
+      0, 0, this.contentWidth, X1_HEIGHT,
       0, 0, this.frontCanvas.width, this.frontCanvas.height
     );
   }
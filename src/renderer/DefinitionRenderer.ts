@@ -3,14 +3,14 @@
  * 256文字のPCG一覧を表示する（16x16グリッド）
  *
  * パフォーマンス最適化:
- * - 必要な時のみ全描画（SET CHR / TRANSFER / LOAD時）
- * - 色文字列のキャッシュ利用
+ * - PCGDataの pcg-updated を購読し、変更された文字のセルのみ再描画
+ * - 1文字分（8x8）のImageDataをキャッシュし、putImageDataで転送
+ * - 全体の再描画は画面全体をクリアした時のみ
  */
 
 import { PCGData } from '../core/PCGData';
 import { CanvasManager } from './CanvasManager';
-import { FONT_WIDTH, FONT_HEIGHT, X1_COLORS } from '../core/types';
-import { getColorString } from '../core/ColorCache';
+import { FONT_WIDTH, FONT_HEIGHT, X1_COLOR_RGB, PCGUpdatedEvent, EventHandler } from '../core/types';
 
 /** 1文字の表示サイズ */
 const CHAR_DISPLAY_SIZE = 8;
@@ -19,6 +19,9 @@ const CHAR_DISPLAY_SIZE = 8;
 const GRID_CHARS = 16;
 const GRID_SIZE = GRID_CHARS * CHAR_DISPLAY_SIZE; // 128px
 
+/** 文字数 */
+const TOTAL_CHARS = GRID_CHARS * GRID_CHARS;
+
 export class DefinitionRenderer {
   private canvasManager: CanvasManager;
   private pcgData: PCGData;
@@ -30,12 +33,24 @@ export class DefinitionRenderer {
   /** 選択中のキャラクターコード */
   private selectedCharCode: number = 0;
 
-  /** 再描画が必要かどうか */
-  private needsRender: boolean = true;
+  /** 全体の再描画が必要かどうか */
+  private needsFullRender: boolean = true;
+
+  /** 再描画が必要なキャラクターコード */
+  private dirtyCodes: Set<number> = new Set();
+
+  /** 1文字分のImageDataキャッシュ（nullは未生成・無効） */
+  private charImageCache: (ImageData | null)[] = new Array(TOTAL_CHARS).fill(null);
+
+  /** pcg-updated 購読ハンドラ（解除用） */
+  private boundHandlePcgUpdated: EventHandler;
 
   constructor(canvasManager: CanvasManager, pcgData: PCGData) {
     this.canvasManager = canvasManager;
     this.pcgData = pcgData;
+
+    this.boundHandlePcgUpdated = (data) => this.handlePcgUpdated(data as PCGUpdatedEvent);
+    this.pcgData.on('pcg-updated', this.boundHandlePcgUpdated);
   }
 
   /**
@@ -44,7 +59,7 @@ export class DefinitionRenderer {
   setOffset(x: number, y: number): void {
     this.offsetX = x;
     this.offsetY = y;
-    this.needsRender = true;
+    this.needsFullRender = true;
   }
 
   /**
@@ -55,68 +70,102 @@ export class DefinitionRenderer {
   }
 
   /**
-   * 再描画が必要であることをマーク
-   * SET CHR / TRANSFER / ファイル読み込み時に呼ぶ
+   * 全体の再描画が必要であることをマーク
+   * 画面全体をクリアした時（初回・モード切替・タブ復帰時）に呼ぶ
+   * ※PCGデータの変更は pcg-updated で自動的に反映される
    */
   markNeedsRender(): void {
-    this.needsRender = true;
+    this.needsFullRender = true;
   }
 
   /**
-   * 256文字の一覧を描画
-   * needsRenderがtrueの時のみ描画し、falseの時は何もしない
+   * PCGデータ変更時の処理
+   * キャッシュを無効化し、該当セルを再描画対象にする
    */
-  render(): void {
-    if (!this.needsRender) {
-      return;
+  private handlePcgUpdated(event: PCGUpdatedEvent): void {
+    for (const code of event.codes) {
+      const charCode = code & 0xFF;
+      this.charImageCache[charCode] = null;
+      this.dirtyCodes.add(charCode);
     }
+  }
 
+  /**
+   * 定義エリアを描画
+   * 全体再描画が必要な時は256文字、それ以外は変更された文字のみ描画する
+   */
+  render(): void {
     const ctx = this.canvasManager.getBackContext();
 
-    // 背景（黒）
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(this.offsetX, this.offsetY, GRID_SIZE, GRID_SIZE);
-
-    // 256文字を描画
-    for (let charCode = 0; charCode < 256; charCode++) {
-      const gridX = charCode % GRID_CHARS;
-      const gridY = Math.floor(charCode / GRID_CHARS);
-
-      const x = this.offsetX + gridX * CHAR_DISPLAY_SIZE;
-      const y = this.offsetY + gridY * CHAR_DISPLAY_SIZE;
+    if (this.needsFullRender) {
+      for (let charCode = 0; charCode < TOTAL_CHARS; charCode++) {
+        this.drawCharacter(ctx, charCode);
+      }
+      this.needsFullRender = false;
+      this.dirtyCodes.clear();
+      return;
+    }
 
-      this.drawCharacter(ctx, x, y, charCode);
+    if (this.dirtyCodes.size === 0) {
+      return;
     }
 
-    this.needsRender = false;
+    for (const charCode of this.dirtyCodes) {
+      this.drawCharacter(ctx, charCode);
+    }
+    this.dirtyCodes.clear();
   }
 
   /**
-   * 1文字を描画（8色対応、キャッシュ利用）
+   * 1文字分のImageDataを取得（遅延生成・キャッシュ）
    */
-  private drawCharacter(ctx: CanvasRenderingContext2D, x: number, y: number, charCode: number): void {
+  private getCharImage(charCode: number): ImageData {
+    const cached = this.charImageCache[charCode];
+    if (cached) {
+      return cached;
+    }
+
+    const image = new ImageData(FONT_WIDTH, FONT_HEIGHT);
     for (let py = 0; py < FONT_HEIGHT; py++) {
       for (let px = 0; px < FONT_WIDTH; px++) {
-        const color = this.pcgData.getPixel(charCode, px, py);
-
-        // 黒以外のピクセルを描画
-        if (color !== X1_COLORS.BLACK) {
-          ctx.fillStyle = getColorString(color);
-          ctx.fillRect(x + px, y + py, 1, 1);
-        }
+        const [r, g, b] = X1_COLOR_RGB[this.pcgData.getPixel(charCode, px, py)];
+        const index = (py * FONT_WIDTH + px) * 4;
+        image.data[index] = r;
+        image.data[index + 1] = g;
+        image.data[index + 2] = b;
+        image.data[index + 3] = 255;
       }
     }
+
+    this.charImageCache[charCode] = image;
+    return image;
+  }
+
+  /**
+   * 1文字をセル位置に描画（背景の黒も含めて上書き）
+   */
+  private drawCharacter(ctx: CanvasRenderingContext2D, charCode: number): void {
+    const { x, y } = this.getCellPosition(charCode);
+    ctx.putImageData(this.getCharImage(charCode), x, y);
+  }
+
+  /**
+   * キャラクターコードからセルの描画位置を取得
+   */
+  private getCellPosition(charCode: number): { x: number; y: number } {
+    const gridX = charCode % GRID_CHARS;
+    const gridY = Math.floor(charCode / GRID_CHARS);
+    return {
+      x: this.offsetX + gridX * CHAR_DISPLAY_SIZE,
+      y: this.offsetY + gridY * CHAR_DISPLAY_SIZE
+    };
   }
 
   /**
    * 選択枠を描画
    */
   private drawSelection(ctx: CanvasRenderingContext2D): void {
-    const gridX = this.selectedCharCode % GRID_CHARS;
-    const gridY = Math.floor(this.selectedCharCode / GRID_CHARS);
-
-    const x = this.offsetX + gridX * CHAR_DISPLAY_SIZE;
-    const y = this.offsetY + gridY * CHAR_DISPLAY_SIZE;
+    const { x, y } = this.getCellPosition(this.selectedCharCode);
 
     // 選択枠（シアン）
     ctx.strokeStyle = '#00FFFF';
@@ -129,22 +178,13 @@ export class DefinitionRenderer {
    */
   renderCharacter(charCode: number): void {
     const ctx = this.canvasManager.getBackContext();
+    const code = charCode & 0xFF;
 
-    const gridX = charCode % GRID_CHARS;
-    const gridY = Math.floor(charCode / GRID_CHARS);
-
-    const x = this.offsetX + gridX * CHAR_DISPLAY_SIZE;
-    const y = this.offsetY + gridY * CHAR_DISPLAY_SIZE;
-
-    // 背景クリア
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(x, y, CHAR_DISPLAY_SIZE, CHAR_DISPLAY_SIZE);
-
-    // 再描画
-    this.drawCharacter(ctx, x, y, charCode);
+    this.drawCharacter(ctx, code);
+    this.dirtyCodes.delete(code);
 
     // 選択中なら枠も再描画
-    if (charCode === this.selectedCharCode) {
+    if (code === this.selectedCharCode) {
       this.drawSelection(ctx);
     }
   }
@@ -180,4 +220,11 @@ export class DefinitionRenderer {
       height: GRID_SIZE
     };
   }
+
+  /**
+   * 破棄（PCGDataの購読を解除）
+   */
+  dispose(): void {
+    this.pcgData.off('pcg-updated', this.boundHandlePcgUpdated);
+  }
 }
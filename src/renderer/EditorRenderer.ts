@@ -10,7 +10,8 @@
 import { PCGData } from '../core/PCGData';
 import { CanvasManager } from './CanvasManager';
 import { X1Renderer } from './X1Renderer';
-import { FONT_WIDTH, FONT_HEIGHT, X1_COLORS, EditMode, Position } from '../core/types';
+import { FONT_WIDTH, FONT_HEIGHT, X1_COLORS, X1Color, EditMode, Position, Rect } from '../core/types';
+import { PixelBlock } from '../core/PixelBlock';
 import { getColorString, BLACK_STRING } from '../core/ColorCache';
 
 /** 編集エリアのドットサイズ（拡大表示用） */
@@ -19,6 +20,12 @@ const DOT_SIZE = 8;
 /** グリッド線の色 */
 const GRID_COLOR = 'rgba(128, 128, 128, 0.5)';
 
+/** 図形ツールの始点マーカーの色 */
+const ANCHOR_COLOR = '#FF00FF';
+
+/** 選択枠の色 */
+const SELECTION_COLOR = '#FFFF00';
+
 export class EditorRenderer {
   private canvasManager: CanvasManager;
   private pcgData: PCGData;
@@ -38,6 +45,17 @@ export class EditorRenderer {
   /** ●パターンのキャッシュ（0xE0のフォントデータ） */
   private circlePattern: Uint8Array | null = null;
 
+  /** 図形ツールの始点（未設定時はnull） */
+  private toolAnchor: Position | null = null;
+
+  /** 図形ツールのプレビュー */
+  private toolPreview: Position[] = [];
+  private toolPreviewColor: X1Color = X1_COLORS.WHITE;
+
+  /** 選択枠とフローティング（貼り付け中）レイヤー */
+  private selectionFrame: Rect | null = null;
+  private floating: { block: PixelBlock; x: number; y: number } | null = null;
+
   constructor(canvasManager: CanvasManager, pcgData: PCGData, x1Renderer: X1Renderer) {
     this.canvasManager = canvasManager;
     this.pcgData = pcgData;
@@ -62,6 +80,23 @@ export class EditorRenderer {
     this.showGrid = show;
   }
 
+  /**
+   * 図形ツールの始点とプレビューを設定（描画前に毎フレーム呼ぶ）
+   */
+  setToolOverlay(anchor: Position | null, preview: Position[], color: X1Color): void {
+    this.toolAnchor = anchor;
+    this.toolPreview = preview;
+    this.toolPreviewColor = color;
+  }
+
+  /**
+   * 選択枠とフローティングを設定（描画前に毎フレーム呼ぶ）
+   */
+  setSelectionOverlay(frame: Rect | null, floating: { block: PixelBlock; x: number; y: number } | null): void {
+    this.selectionFrame = frame;
+    this.floating = floating;
+  }
+
   /**
    * カーソル点滅開始
    */
@@ -140,11 +175,48 @@ export class EditorRenderer {
       }
     }
 
+    // 図形ツールのプレビュー
+    for (const p of this.toolPreview) {
+      const drawX = this.offsetX + p.x * DOT_SIZE;
+      const drawY = this.offsetY + p.y * DOT_SIZE;
+      this.drawCircleDotCached(ctx, drawX, drawY, this.toolPreviewColor, circlePattern);
+    }
+
+    // フローティング（編集エリア外は描かない）
+    if (this.floating) {
+      const { block, x: left, y: top } = this.floating;
+      block.forEach((row, y) => {
+        row.forEach((color, x) => {
+          const px = left + x;
+          const py = top + y;
+          if (px < 0 || px >= 16 || py < 0 || py >= 16) return;
+          this.drawCircleDotCached(ctx, this.offsetX + px * DOT_SIZE, this.offsetY + py * DOT_SIZE, color, circlePattern);
+        });
+      });
+    }
+
     // グリッド線
     if (this.showGrid) {
       this.drawGrid(ctx, areaWidth, areaHeight);
     }
 
+    // 選択枠（点線）
+    if (this.selectionFrame) {
+      this.drawSelectionFrame(ctx, this.selectionFrame);
+    }
+
+    // 図形ツールの始点
+    if (this.toolAnchor) {
+      ctx.strokeStyle = ANCHOR_COLOR;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(
+        this.offsetX + this.toolAnchor.x * DOT_SIZE + 0.5,
+        this.offsetY + this.toolAnchor.y * DOT_SIZE + 0.5,
+        DOT_SIZE - 1,
+        DOT_SIZE - 1
+      );
+    }
+
     // カーソル描画
     if (this.cursorVisible) {
       this.drawCursor(ctx, cursorPos, editMode);
@@ -178,6 +250,29 @@ export class EditorRenderer {
     }
   }
 
+  /**
+   * 選択枠を点線で描画（編集エリア内に収める）
+   */
+  private drawSelectionFrame(ctx: CanvasRenderingContext2D, frame: Rect): void {
+    const left = Math.max(0, frame.x);
+    const top = Math.max(0, frame.y);
+    const right = Math.min(16, frame.x + frame.width);
+    const bottom = Math.min(16, frame.y + frame.height);
+    if (right <= left || bottom <= top) return;
+
+    ctx.save();
+    ctx.strokeStyle = SELECTION_COLOR;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([3, 3]);
+    ctx.strokeRect(
+      this.offsetX + left * DOT_SIZE + 0.5,
+      this.offsetY + top * DOT_SIZE + 0.5,
+      (right - left) * DOT_SIZE - 1,
+      (bottom - top) * DOT_SIZE - 1
+    );
+    ctx.restore();
+  }
+
   /**
    * グリッド線を描画
    */
@@ -0,0 +1,152 @@
+/**
+ * 読み込みプレビューの描画
+ * 読み込み前（現在のPCG）と読み込み後の全256文字を16x16で並べ、読み込む文字を枠で囲む
+ * 定義済みの文字を書き換える場合は赤枠、それ以外は緑枠にし、読み込まない文字は暗くする
+ * 画像をテキスト画面に変換して似た文字をまとめた場合は、まとめた文字と元の文字を1行ずつ並べる
+ */
+
+import { PCGData } from '../core/PCGData';
+import { getColorString, BLACK_STRING } from '../core/ColorCache';
+import { FONT_WIDTH, FONT_HEIGHT, X1_COLORS, X1Color } from '../core/types';
+
+/** 1ドットの大きさ（ピクセル） */
+const SCALE = 2;
+
+/** 1文字の大きさ（ピクセル） */
+const CELL_WIDTH = FONT_WIDTH * SCALE;
+const CELL_HEIGHT = FONT_HEIGHT * SCALE;
+
+/** 1列の文字数 */
+const GRID_COLUMNS = 16;
+
+/** 読み込み前と読み込み後の間隔（ピクセル） */
+const GRID_GAP = 16;
+
+/** 枠と暗くする色 */
+const LOAD_COLOR = '#00ff88';
+const OVERWRITE_COLOR = '#ff6666';
+const DIM_COLOR = 'rgba(26, 26, 46, 0.7)';
+
+/** まとめた文字の一覧の1行（書き込む文字コードと文字、まとめる前の元の文字） */
+interface MergeRow {
+  code: number;
+  tile: X1Color[];
+  sources: X1Color[][];
+}
+
+/** まとめた文字の一覧の1行の高さと、元の文字を並べ始める位置（ピクセル） */
+const MERGE_ROW_HEIGHT = CELL_HEIGHT + 4;
+const MERGE_SOURCE_X = 72;
+
+/** まとめた文字の一覧の文字コードと記号の色 */
+const MERGE_TEXT_COLOR = '#00ffff';
+
+export class LoadPreviewRenderer {
+  /**
+   * 読み込み前と読み込み後を並べて描画
+   * @param ctx 描画先（528x256ピクセル）
+   * @param before 読み込み前のPCG
+   * @param after 読み込み後のPCG（読み込む文字のみ使う、nullなら読み込み前のまま）
+   * @param codes 読み込む文字コード
+   * @param overwritten 定義済みの文字を書き換える文字コード
+   */
+  draw(
+    ctx: CanvasRenderingContext2D,
+    before: PCGData,
+    after: PCGData | null,
+    codes: number[],
+    overwritten: number[]
+  ): void {
+    const loading = new Set(codes);
+    const overwriting = new Set(overwritten);
+    const afterX = GRID_COLUMNS * CELL_WIDTH + GRID_GAP;
+
+    ctx.fillStyle = BLACK_STRING;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+    for (let code = 0; code < 256; code++) {
+      const x = (code % GRID_COLUMNS) * CELL_WIDTH;
+      const y = Math.floor(code / GRID_COLUMNS) * CELL_HEIGHT;
+      const loaded = after !== null && loading.has(code);
+
+      this.drawChar(ctx, x, y, before, code);
+      this.drawChar(ctx, afterX + x, y, loaded ? after : before, code);
+
+      if (loaded) {
+        ctx.strokeStyle = overwriting.has(code) ? OVERWRITE_COLOR : LOAD_COLOR;
+        ctx.lineWidth = 1;
+        ctx.strokeRect(x + 0.5, y + 0.5, CELL_WIDTH - 1, CELL_HEIGHT - 1);
+        ctx.strokeRect(afterX + x + 0.5, y + 0.5, CELL_WIDTH - 1, CELL_HEIGHT - 1);
+      } else {
+        ctx.fillStyle = DIM_COLOR;
+        ctx.fillRect(x, y, CELL_WIDTH, CELL_HEIGHT);
+        ctx.fillRect(afterX + x, y, CELL_WIDTH, CELL_HEIGHT);
+      }
+    }
+  }
+
+  /**
+   * まとめた文字の一覧を描画（1行に文字コード、書き込む文字、まとめる前の元の文字）
+   * キャンバスの高さは行数に合わせる。横に収まらない元の文字は数だけ表示する
+   * @param ctx 描画先（幅528ピクセル）
+   * @param merges まとめた文字
+   */
+  drawMerges(ctx: CanvasRenderingContext2D, merges: MergeRow[]): void {
+    ctx.canvas.height = Math.max(1, merges.length) * MERGE_ROW_HEIGHT;
+    ctx.fillStyle = BLACK_STRING;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    ctx.font = '12px monospace';
+    ctx.textBaseline = 'middle';
+
+    const step = CELL_WIDTH + 2;
+    const fits = Math.floor((ctx.canvas.width - MERGE_SOURCE_X) / step);
+    merges.forEach((merge, row) => {
+      const y = row * MERGE_ROW_HEIGHT + 2;
+      const textY = y + CELL_HEIGHT / 2;
+
+      ctx.fillStyle = MERGE_TEXT_COLOR;
+      ctx.fillText(`&H${merge.code.toString(16).toUpperCase().padStart(2, '0')}`, 0, textY);
+      this.drawTile(ctx, 36, y, merge.tile);
+      ctx.strokeStyle = LOAD_COLOR;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(36 + 0.5, y + 0.5, CELL_WIDTH - 1, CELL_HEIGHT - 1);
+      ctx.fillStyle = MERGE_TEXT_COLOR;
+      ctx.fillText('<', 58, textY);
+
+      // 収まらない分は数だけ表示する
+      const shown = merge.sources.length > fits ? fits - 1 : merge.sources.length;
+      merge.sources.slice(0, shown).forEach((source, i) => this.drawTile(ctx, MERGE_SOURCE_X + i * step, y, source));
+      if (shown < merge.sources.length) {
+        ctx.fillStyle = MERGE_TEXT_COLOR;
+        ctx.fillText(`+${merge.sources.length - shown}`, MERGE_SOURCE_X + shown * step, textY);
+      }
+    });
+  }
+
+  /**
+   * 64ドットの文字を描画
+   */
+  private drawTile(ctx: CanvasRenderingContext2D, x: number, y: number, tile: X1Color[]): void {
+    tile.forEach((color, dot) => {
+      if (color !== X1_COLORS.BLACK) {
+        ctx.fillStyle = getColorString(color);
+        ctx.fillRect(x + (dot % FONT_WIDTH) * SCALE, y + Math.floor(dot / FONT_WIDTH) * SCALE, SCALE, SCALE);
+      }
+    });
+  }
+
+  /**
+   * 1文字を描画
+   */
+  private drawChar(ctx: CanvasRenderingContext2D, x: number, y: number, pcgData: PCGData, code: number): void {
+    for (let py = 0; py < FONT_HEIGHT; py++) {
+      for (let px = 0; px < FONT_WIDTH; px++) {
+        const color = pcgData.getPixel(code, px, py);
+        if (color !== X1_COLORS.BLACK) {
+          ctx.fillStyle = getColorString(color);
+          ctx.fillRect(x + px * SCALE, y + py * SCALE, SCALE, SCALE);
+        }
+      }
+    }
+  }
+}
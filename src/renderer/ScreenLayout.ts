@@ -10,7 +10,8 @@ import {
   X1_ARROW_CHARS,
   EditMode,
   Direction,
-  X1Color
+  X1Color,
+  DrawTool
 } from '../core/types';
 
 /** 画面レイアウト座標定数 */
@@ -35,6 +36,17 @@ const LAYOUT = {
   MENU_Y: 19         // 2つ上に詰めた
 } as const;
 
+/** メニューに表示する描画ツール名（4文字以内） */
+const DRAW_TOOL_LABELS: Record<DrawTool, string> = {
+  dot: 'DOT',
+  line: 'LINE',
+  rect: 'BOX',
+  fillrect: 'BOXF',
+  ellipse: 'OVAL',
+  fill: 'FILL',
+  select: 'SEL'
+};
+
 /** 1文字のピクセルサイズ */
 const CHAR_WIDTH = 8;
 const CHAR_HEIGHT = 8;
@@ -160,7 +172,8 @@ export class ScreenLayout {
     editChrCode: number = 0,
     lastDirection: Direction = Direction.RIGHT,
     currentColor: X1Color = X1_COLORS.WHITE,
-    inputDeviceMode: 'keyboard' | 'mouse' = 'keyboard'
+    inputDeviceMode: 'keyboard' | 'mouse' = 'keyboard',
+    drawTool: DrawTool = 'dot'
   ): void {
     const baseY = LAYOUT.MENU_Y;
     const editChrCodeHex = editChrCode.toString(16).toUpperCase().padStart(2, '0');
@@ -180,8 +193,8 @@ export class ScreenLayout {
     // 5行目: P.....PROGRAMMING   :T....TRANSFER
     this.drawMenuLine5(baseY + 4);
 
-    // 6行目: G.....GRID          :K....INPUT=XX COL=N
-    this.drawMenuLine6(baseY + 5, currentColor, inputDeviceMode);
+    // 6行目: G.....GRID ^Z.UNDO :K....INPUT=XX COL=N TOOL
+    this.drawMenuLine6(baseY + 5, currentColor, inputDeviceMode, drawTool);
   }
 
   /**
@@ -315,14 +328,20 @@ export class ScreenLayout {
   /**
    * メニュー6行目: GRID, INPUT MODE, COLOR
    */
-  private drawMenuLine6(row: number, currentColor: X1Color, inputDeviceMode: 'keyboard' | 'mouse'): void {
+  private drawMenuLine6(row: number, currentColor: X1Color, inputDeviceMode: 'keyboard' | 'mouse', drawTool: DrawTool): void {
     const y = row * CHAR_HEIGHT;
 
     // G.....GRID 全体が緑
     this.x1Renderer.drawText(0 * CHAR_WIDTH, y, 'G.....GRID', X1_COLORS.GREEN);
 
     // 空白
-    this.x1Renderer.drawText(10 * CHAR_WIDTH, y, '         ', X1_COLORS.BLACK);
+    this.x1Renderer.drawText(10 * CHAR_WIDTH, y, ' ', X1_COLORS.BLACK);
+
+    // ^Z.UNDO 全体が白（^YでREDO）
+    this.x1Renderer.drawText(11 * CHAR_WIDTH, y, '^Z.UNDO', X1_COLORS.WHITE);
+
+    // 空白
+    this.x1Renderer.drawText(18 * CHAR_WIDTH, y, ' ', X1_COLORS.BLACK);
 
     // コロン区切り
     this.x1Renderer.drawText(19 * CHAR_WIDTH, y, ':', X1_COLORS.WHITE);
@@ -336,6 +355,9 @@ export class ScreenLayout {
     this.x1Renderer.drawText(28 * CHAR_WIDTH, y, ' COL=', X1_COLORS.WHITE);
     // 色番号を該当の色で表示
     this.x1Renderer.drawText(33 * CHAR_WIDTH, y, currentColor.toString(), currentColor === X1_COLORS.BLACK ? X1_COLORS.WHITE : currentColor);
+
+    // 描画ツール（Bキーで切り替え）
+    this.x1Renderer.drawText(35 * CHAR_WIDTH, y, DRAW_TOOL_LABELS[drawTool], X1_COLORS.CYAN);
   }
 
   /**
@@ -0,0 +1,277 @@
+/**
+ * テキスト画面（マップ）レンダラー
+ * TextScreenの内容をX1Rendererでバックバッファ全体（40桁なら320x200、80桁なら640x200）に描画する
+ *
+ * パフォーマンス最適化:
+ * - TextScreenの screen-updated を購読し、変更されたセルを含む行のみ再描画
+ * - PCGDataの pcg-updated を購読し、変更された文字を置いた行のみ再描画
+ * - 倍角は隣の行・セルに重なるため、再描画は行単位（変更行とその上下）で行う
+ * - カーソルと点滅は表示が変わった時だけ該当行を描き直す
+ */
+
+import { TextScreen } from '../core/TextScreen';
+import { PCGData } from '../core/PCGData';
+import { X1Renderer } from './X1Renderer';
+import {
+  FONT_WIDTH,
+  FONT_HEIGHT,
+  TEXT_ATTR,
+  PCGUpdatedEvent,
+  ScreenUpdatedEvent,
+  TextCell,
+  EventHandler
+} from '../core/types';
+
+/** カーソル位置と、カーソルに重ねて表示する文字 */
+export interface ScreenCursor {
+  col: number;
+  row: number;
+  code: number;
+  attr: number;
+}
+
+/** 点滅・カーソル点滅の間隔（ms） */
+const BLINK_INTERVAL = 500;
+
+export class ScreenMapRenderer {
+  private x1Renderer: X1Renderer;
+  private screen: TextScreen;
+  private pcgData: PCGData;
+
+  /** 全体の再描画が必要かどうか */
+  private needsFullRender: boolean = true;
+
+  /** 再描画が必要な行 */
+  private dirtyRows: Set<number> = new Set();
+
+  /** 前回描いたカーソル（変化がなければ描き直さない） */
+  private lastCursor: ScreenCursor | null = null;
+  private lastCursorVisible: boolean = false;
+
+  /** 点滅の点灯中か（アトリビュートの点滅とカーソルで共用） */
+  private blinkVisible: boolean = true;
+  private blinkChanged: boolean = false;
+  private blinkInterval: number | null = null;
+
+  /** 購読ハンドラ（解除用） */
+  private boundHandleScreenUpdated: EventHandler;
+  private boundHandlePcgUpdated: EventHandler;
+
+  constructor(x1Renderer: X1Renderer, screen: TextScreen, pcgData: PCGData) {
+    this.x1Renderer = x1Renderer;
+    this.screen = screen;
+    this.pcgData = pcgData;
+
+    this.boundHandleScreenUpdated = (data) => this.handleScreenUpdated(data as ScreenUpdatedEvent);
+    this.boundHandlePcgUpdated = (data) => this.handlePcgUpdated(data as PCGUpdatedEvent);
+    this.screen.on('screen-updated', this.boundHandleScreenUpdated);
+    this.pcgData.on('pcg-updated', this.boundHandlePcgUpdated);
+  }
+
+  /**
+   * 全体の再描画が必要であることをマーク
+   * 画面の切り替え時やフォントの差し替え時に呼ぶ
+   * （非表示中もマークしておけば、PCGの変更のたびにセルを探さずに済む）
+   */
+  markNeedsRender(): void {
+    this.needsFullRender = true;
+  }
+
+  /**
+   * 点滅開始（アトリビュートの点滅とカーソル）
+   */
+  startCursorBlink(): void {
+    if (this.blinkInterval !== null) return;
+    this.blinkVisible = true;
+    this.blinkInterval = window.setInterval(() => {
+      this.blinkVisible = !this.blinkVisible;
+      this.blinkChanged = true;
+    }, BLINK_INTERVAL);
+  }
+
+  /**
+   * 点滅停止
+   */
+  stopCursorBlink(): void {
+    if (this.blinkInterval !== null) {
+      clearInterval(this.blinkInterval);
+      this.blinkInterval = null;
+    }
+  }
+
+  /**
+   * テキスト画面変更時の処理
+   */
+  private handleScreenUpdated(event: ScreenUpdatedEvent): void {
+    if (event.full) {
+      this.needsFullRender = true;
+      return;
+    }
+    for (const index of event.cells) {
+      this.markRowAround(TextScreen.cellPosition(index).row);
+    }
+  }
+
+  /**
+   * PCGデータ変更時の処理
+   * 変更された文字をPCGとして置いている行を再描画対象にする
+   */
+  private handlePcgUpdated(event: PCGUpdatedEvent): void {
+    if (this.needsFullRender) return;
+
+    const codes = new Set(event.codes);
+    this.forEachCell((row, cell) => {
+      if ((cell.attr & TEXT_ATTR.PCG) && codes.has(cell.code)) {
+        this.markRowAround(row);
+      }
+    });
+  }
+
+  /**
+   * 行とその上下（倍角で重なる範囲）を再描画対象にする
+   */
+  private markRowAround(row: number): void {
+    for (let r = row - 1; r <= row + 1; r++) {
+      if (r >= 0 && r < this.screen.rows) {
+        this.dirtyRows.add(r);
+      }
+    }
+  }
+
+  /**
+   * 表示中の全セルを走査
+   */
+  private forEachCell(fn: (row: number, cell: TextCell) => void): void {
+    const columns = this.screen.columns;
+    for (let row = 0; row < this.screen.rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        fn(row, this.screen.getCell(col, row));
+      }
+    }
+  }
+
+  /**
+   * テキスト画面を描画
+   * @param cursor カーソル（nullなら表示しない）
+   */
+  render(cursor: ScreenCursor | null): void {
+    if (this.needsFullRender) {
+      this.x1Renderer.clear();
+      this.dirtyRows.clear();
+      for (let row = 0; row < this.screen.rows; row++) {
+        this.dirtyRows.add(row);
+      }
+      this.needsFullRender = false;
+      this.lastCursor = null;
+    }
+
+    // 点滅の切り替わりでは点滅するセルのある行を描き直す
+    if (this.blinkChanged) {
+      this.blinkChanged = false;
+      this.forEachCell((row, cell) => {
+        if (cell.attr & TEXT_ATTR.BLINK) {
+          this.markRowAround(row);
+        }
+      });
+    }
+
+    // カーソルの表示が変わったら、前回のカーソルが重なっていた行を元に戻す
+    const cursorChanged = !this.isSameCursor(cursor);
+    if (cursorChanged && this.lastCursor) {
+      this.markRowAround(this.lastCursor.row);
+    }
+    const cursorRedraw = cursorChanged ||
+      (cursor !== null && (this.dirtyRows.has(cursor.row) || this.dirtyRows.has(cursor.row + 1)));
+    if (cursorRedraw && cursor) {
+      this.markRowAround(cursor.row);
+    }
+
+    if (this.dirtyRows.size > 0) {
+      // 倍角で下の行に重なる分が上書きされないよう、上の行から描く
+      for (const row of [...this.dirtyRows].sort((a, b) => a - b)) {
+        this.drawRow(row);
+      }
+      this.dirtyRows.clear();
+    }
+
+    if (cursor && this.screen.isInside(cursor.col, cursor.row) && cursorRedraw) {
+      this.drawCursor(cursor);
+    }
+    this.lastCursor = cursor ? { ...cursor } : null;
+    this.lastCursorVisible = this.blinkVisible;
+  }
+
+  /**
+   * 前回描いたカーソルと同じ表示か
+   */
+  private isSameCursor(cursor: ScreenCursor | null): boolean {
+    const last = this.lastCursor;
+    if (!cursor || !last) return cursor === last;
+    return cursor.col === last.col && cursor.row === last.row &&
+      cursor.code === last.code && cursor.attr === last.attr &&
+      this.blinkVisible === this.lastCursorVisible;
+  }
+
+  /**
+   * 1行を描画（倍角に覆われたセルは飛ばす）
+   */
+  private drawRow(row: number): void {
+    const ctx = this.x1Renderer.getBackContext();
+    const y = row * FONT_HEIGHT;
+
+    // 行全体を背景色で消してから描く（覆われたセルに前の内容を残さない）
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, y, this.screen.columns * FONT_WIDTH, FONT_HEIGHT);
+
+    // 上の行の縦倍角が重なる部分を描き直す
+    if (row > 0) {
+      this.drawCells(row - 1, (col) => this.screen.isDoubleHeightHead(col, row - 1));
+    }
+    this.drawCells(row, () => true);
+  }
+
+  /**
+   * 行のセルのうち条件に合うものを描画
+   */
+  private drawCells(row: number, filter: (col: number) => boolean): void {
+    for (let col = 0; col < this.screen.columns; col++) {
+      if (this.screen.isCovered(col, row) || !filter(col)) continue;
+      const cell = this.screen.getCell(col, row);
+      this.x1Renderer.drawTextCell(
+        col * FONT_WIDTH,
+        row * FONT_HEIGHT,
+        cell.code,
+        cell.attr,
+        this.pcgData,
+        this.blinkVisible
+      );
+    }
+  }
+
+  /**
+   * カーソルを描画
+   * 点灯中は置く文字を重ねて表示し、枠で囲む
+   */
+  private drawCursor(cursor: ScreenCursor): void {
+    const x = cursor.col * FONT_WIDTH;
+    const y = cursor.row * FONT_HEIGHT;
+
+    if (this.blinkVisible) {
+      this.x1Renderer.drawTextCell(x, y, cursor.code, cursor.attr, this.pcgData);
+    }
+
+    const ctx = this.x1Renderer.getBackContext();
+    ctx.strokeStyle = this.blinkVisible ? '#FFFFFF' : '#00FFFF';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x + 0.5, y + 0.5, FONT_WIDTH - 1, FONT_HEIGHT - 1);
+  }
+
+  /**
+   * 破棄（購読を解除）
+   */
+  dispose(): void {
+    this.stopCursorBlink();
+    this.screen.off('screen-updated', this.boundHandleScreenUpdated);
+    this.pcgData.off('pcg-updated', this.boundHandlePcgUpdated);
+  }
+}
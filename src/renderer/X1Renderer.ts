@@ -8,7 +8,8 @@ import {
   FONT_HEIGHT,
   X1_COLOR_RGB,
   X1Color,
-  X1_COLORS
+  X1_COLORS,
+  TEXT_ATTR
 } from '../core/types';
 import { CanvasManager } from './CanvasManager';
 
@@ -497,6 +498,69 @@ export class X1Renderer {
     ctx.putImageData(imageData, x, y);
   }
 
+  /**
+   * テキスト画面の1セルを描画（アトリビュートを反映）
+   * - PCGビットが立っていればPCG、なければROMフォントを文字色で描画
+   * - PCGの各プレーンは実機と同じくアトリビュートの色のビットとANDされる（白なら8色そのまま）
+   * - 反転: ROMフォントは文字色と背景（黒）を入れ替え、PCGは各ドットの色を反転してから色のビットとAND
+   * - 点滅: 消灯中は文字を描かない（背景のみ）
+   * - 倍角: 横・縦それぞれ2倍の大きさで描画（はみ出した部分は隣のセルに重なる）
+   * @param x X座標
+   * @param y Y座標
+   * @param charCode キャラクターコード
+   * @param attr アトリビュート
+   * @param pcgDataObj PCGDataオブジェクト
+   * @param blinkVisible 点滅の点灯中か（デフォルト: true）
+   */
+  drawTextCell(
+    x: number,
+    y: number,
+    charCode: number,
+    attr: number,
+    pcgDataObj: { getPixel: (charCode: number, x: number, y: number) => X1Color },
+    blinkVisible: boolean = true
+  ): void {
+    if (!this.fontData) return;
+
+    const scaleX = attr & TEXT_ATTR.DOUBLE_WIDTH ? 2 : 1;
+    const scaleY = attr & TEXT_ATTR.DOUBLE_HEIGHT ? 2 : 1;
+    const isPcg = (attr & TEXT_ATTR.PCG) !== 0;
+    const reverse = (attr & TEXT_ATTR.REVERSE) !== 0;
+    const hidden = (attr & TEXT_ATTR.BLINK) !== 0 && !blinkVisible;
+    const fgColor = (attr & TEXT_ATTR.COLOR_MASK) as X1Color;
+
+    const width = FONT_WIDTH * scaleX;
+    const image = new ImageData(width, FONT_HEIGHT * scaleY);
+
+    for (let row = 0; row < FONT_HEIGHT; row++) {
+      const rowByte = this.fontData[(charCode & 0xFF) * 8 + row];
+
+      for (let col = 0; col < FONT_WIDTH; col++) {
+        let color: X1Color;
+        if (isPcg) {
+          const pcgColor = hidden ? X1_COLORS.BLACK : pcgDataObj.getPixel(charCode, col, row);
+          color = ((reverse ? pcgColor ^ 0x07 : pcgColor) & fgColor) as X1Color;
+        } else {
+          const isSet = !hidden && (rowByte & (0x80 >> col)) !== 0;
+          color = isSet !== reverse ? fgColor : X1_COLORS.BLACK;
+        }
+
+        const [r, g, b] = X1_COLOR_RGB[color];
+        for (let sy = 0; sy < scaleY; sy++) {
+          for (let sx = 0; sx < scaleX; sx++) {
+            const index = ((row * scaleY + sy) * width + col * scaleX + sx) * 4;
+            image.data[index] = r;
+            image.data[index + 1] = g;
+            image.data[index + 2] = b;
+            image.data[index + 3] = 255;
+          }
+        }
+      }
+    }
+
+    this.canvasManager.getBackContext().putImageData(image, x, y);
+  }
+
   /**
    * 画面をクリア
    */
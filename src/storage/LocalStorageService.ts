@@ -4,7 +4,7 @@
  */
 
 import { STORAGE_KEYS, AUTO_SAVE_DELAY } from '../core/constants';
-import { EditMode, Direction, X1Color, X1_COLORS } from '../core/types';
+import { EditMode, Direction, X1Color, X1_COLORS, DrawTool, ScreenMode, TEXT_VRAM_SIZE, AnimationFrame } from '../core/types';
 import { uint8ArrayToBase64, base64ToUint8Array } from './Base64Util';
 
 /** 保存されるエディタ状態 */
@@ -16,6 +16,37 @@ export interface SavedEditorState {
   currentCharCode: number;
   editChrCode: number;
   gridVisible: boolean;
+  drawTool?: DrawTool;
+}
+
+/** 保存される履歴1ステップ分（変化のなかった側はnull） */
+export interface SavedHistoryEntry {
+  pcgData: Uint8Array | null;
+  editBuffer: Uint8Array | null;
+}
+
+/** 保存される編集履歴（UNDO/REDO） */
+export interface SavedHistory {
+  undo: SavedHistoryEntry[];
+  redo: SavedHistoryEntry[];
+}
+
+/** 保存されるテキスト画面（マップ）とその編集状態 */
+export interface SavedScreen {
+  mode: ScreenMode;
+  codes: Uint8Array;
+  attrs: Uint8Array;
+  cursorCol: number;
+  cursorRow: number;
+  brushCode: number;
+  brushPcg: boolean;
+  brushAttr?: number;
+}
+
+/** 保存されるアニメーションのフレーム列 */
+export interface SavedAnimation {
+  frames: AnimationFrame[];
+  loop: boolean;
 }
 
 /** 保存データの完全な状態 */
@@ -24,6 +55,21 @@ export interface SavedState {
   editBuffer: Uint8Array;
   editorState: SavedEditorState;
   fontData?: Uint8Array;
+  history?: SavedHistory;
+  screen?: SavedScreen;
+  animation?: SavedAnimation;
+}
+
+/** テキスト画面のJSON形式（データはBase64文字列） */
+interface ScreenJson extends Omit<SavedScreen, 'codes' | 'attrs'> {
+  codes: string;
+  attrs: string;
+}
+
+/** 履歴エントリのJSON形式（Base64文字列） */
+interface HistoryEntryJson {
+  p: string | null;
+  e: string | null;
 }
 
 /**
@@ -54,6 +100,29 @@ export class LocalStorageService {
         localStorage.setItem(STORAGE_KEYS.FONT_DATA, fontDataBase64);
       }
 
+      // 編集履歴を保存（存在する場合のみ）
+      if (state.history) {
+        localStorage.setItem(STORAGE_KEYS.HISTORY, JSON.stringify({
+          undo: state.history.undo.map(entry => this.encodeHistoryEntry(entry)),
+          redo: state.history.redo.map(entry => this.encodeHistoryEntry(entry))
+        }));
+      }
+
+      // テキスト画面を保存（存在する場合のみ）
+      if (state.screen) {
+        const screenJson: ScreenJson = {
+          ...state.screen,
+          codes: uint8ArrayToBase64(state.screen.codes),
+          attrs: uint8ArrayToBase64(state.screen.attrs)
+        };
+        localStorage.setItem(STORAGE_KEYS.SCREEN, JSON.stringify(screenJson));
+      }
+
+      // アニメーションを保存（存在する場合のみ）
+      if (state.animation) {
+        localStorage.setItem(STORAGE_KEYS.ANIMATION, JSON.stringify(state.animation));
+      }
+
       console.log('[LocalStorageService] Data saved');
     } catch (e) {
       console.error('[LocalStorageService] Failed to save:', e);
@@ -91,7 +160,8 @@ export class LocalStorageService {
         lastDirection: savedState.lastDirection ?? Direction.RIGHT,
         currentCharCode: savedState.currentCharCode ?? 0,
         editChrCode: savedState.editChrCode ?? 0,
-        gridVisible: savedState.gridVisible ?? true
+        gridVisible: savedState.gridVisible ?? true,
+        drawTool: savedState.drawTool
       };
 
       // フォントデータを復元（存在する場合のみ）
@@ -104,14 +174,114 @@ export class LocalStorageService {
         }
       }
 
+      // 編集履歴を復元（存在する場合のみ）
+      const history = this.loadHistory();
+
+      // テキスト画面を復元（存在する場合のみ）
+      const screen = this.loadScreen();
+
+      // アニメーションを復元（存在する場合のみ）
+      const animation = this.loadAnimation();
+
       console.log('[LocalStorageService] Data loaded');
-      return { pcgData, editBuffer, editorState, fontData };
+      return { pcgData, editBuffer, editorState, fontData, history, screen, animation };
     } catch (e) {
       console.error('[LocalStorageService] Failed to load:', e);
       return null;
     }
   }
 
+  /**
+   * 編集履歴を読み込み
+   * 壊れている場合は履歴なしとして扱う（本体データの復元は妨げない）
+   */
+  private loadHistory(): SavedHistory | undefined {
+    const historyJson = localStorage.getItem(STORAGE_KEYS.HISTORY);
+    if (!historyJson) {
+      return undefined;
+    }
+
+    try {
+      const parsed = JSON.parse(historyJson) as { undo?: HistoryEntryJson[]; redo?: HistoryEntryJson[] };
+      return {
+        undo: (parsed.undo ?? []).map(entry => this.decodeHistoryEntry(entry)),
+        redo: (parsed.redo ?? []).map(entry => this.decodeHistoryEntry(entry))
+      };
+    } catch (e) {
+      console.warn('[LocalStorageService] Failed to load history:', e);
+      return undefined;
+    }
+  }
+
+  /**
+   * テキスト画面を読み込み
+   * 壊れている場合は画面なしとして扱う（本体データの復元は妨げない）
+   */
+  private loadScreen(): SavedScreen | undefined {
+    const screenJson = localStorage.getItem(STORAGE_KEYS.SCREEN);
+    if (!screenJson) {
+      return undefined;
+    }
+
+    try {
+      const parsed = JSON.parse(screenJson) as Partial<ScreenJson>;
+      const codes = base64ToUint8Array(parsed.codes ?? '');
+      const attrs = base64ToUint8Array(parsed.attrs ?? '');
+      if (codes.length !== TEXT_VRAM_SIZE || attrs.length !== TEXT_VRAM_SIZE) {
+        return undefined;
+      }
+      return {
+        mode: parsed.mode === 'WIDTH80' ? 'WIDTH80' : 'WIDTH40',
+        codes,
+        attrs,
+        cursorCol: parsed.cursorCol ?? 0,
+        cursorRow: parsed.cursorRow ?? 0,
+        brushCode: parsed.brushCode ?? 0,
+        brushPcg: parsed.brushPcg ?? true,
+        brushAttr: parsed.brushAttr
+      };
+    } catch (e) {
+      console.warn('[LocalStorageService] Failed to load screen:', e);
+      return undefined;
+    }
+  }
+
+  /**
+   * アニメーションを読み込み
+   * 値の範囲はAnimationSequence側で丸めるため、ここでは形だけを確認する
+   */
+  private loadAnimation(): SavedAnimation | undefined {
+    const animationJson = localStorage.getItem(STORAGE_KEYS.ANIMATION);
+    if (!animationJson) {
+      return undefined;
+    }
+
+    try {
+      const parsed = JSON.parse(animationJson) as Partial<SavedAnimation>;
+      return {
+        frames: Array.isArray(parsed.frames) ? parsed.frames : [],
+        loop: parsed.loop ?? true
+      };
+    } catch (e) {
+      console.warn('[LocalStorageService] Failed to load animation:', e);
+      return undefined;
+    }
+  }
+
+  private encodeHistoryEntry(entry: SavedHistoryEntry): HistoryEntryJson {
+    return {
+      p: entry.pcgData ? uint8ArrayToBase64(entry.pcgData) : null,
+      e: entry.editBuffer ? uint8ArrayToBase64(entry.editBuffer) : null
+    };
+  }
+
+  private decodeHistoryEntry(json: HistoryEntryJson): SavedHistoryEntry {
+    return {
+      pcgData: json.p ? base64ToUint8Array(json.p) : null,
+      editBuffer: json.e ? base64ToUint8Array(json.e) : null
+    };
+  }
+
   /**
    * 遅延保存をスケジュール（デバウンス）
    */
@@ -143,6 +313,9 @@ export class LocalStorageService {
     localStorage.removeItem(STORAGE_KEYS.EDIT_BUFFER);
     localStorage.removeItem(STORAGE_KEYS.EDITOR_STATE);
     localStorage.removeItem(STORAGE_KEYS.FONT_DATA);
+    localStorage.removeItem(STORAGE_KEYS.HISTORY);
+    localStorage.removeItem(STORAGE_KEYS.SCREEN);
+    localStorage.removeItem(STORAGE_KEYS.ANIMATION);
     console.log('[LocalStorageService] Data cleared');
   }
 }
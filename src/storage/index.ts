@@ -3,5 +3,5 @@
  */
 
 export { LocalStorageService } from './LocalStorageService';
-export type { SavedState, SavedEditorState } from './LocalStorageService';
+export type { SavedState, SavedEditorState, SavedHistory, SavedHistoryEntry, SavedScreen, SavedAnimation } from './LocalStorageService';
 export { uint8ArrayToBase64, base64ToUint8Array } from './Base64Util';